@@ -0,0 +1,151 @@
+/**
+ * Ability Model
+ *
+ * Action/subject checks ("can the user `update` this `Invoice`?") mapped
+ * onto the existing string rule keys, so both styles share one rules map.
+ * By default `{ action: 'update', subject: 'Invoice' }` resolves to the
+ * key `invoice.update`.
+ */
+
+import type { AbilityCheck, EvaluationOptions } from './types';
+
+/**
+ * An ability check resolved to a string rule key
+ */
+export interface ResolvedAbility<TResource = any> {
+  /** Rule key the ability maps to (e.g. `invoice.update`) */
+  key: string;
+  /** Detected or given subject type (e.g. `Invoice`) */
+  subjectType: string;
+  /** Resource to evaluate against (the subject itself when it is an object) */
+  resource?: TResource;
+}
+
+/**
+ * Returns true if a check is an action/subject ability check
+ */
+export function isAbilityCheck(check: unknown): check is AbilityCheck {
+  return (
+    typeof check === 'object' &&
+    check !== null &&
+    !Array.isArray(check) &&
+    typeof (check as AbilityCheck).action === 'string' &&
+    'subject' in check
+  );
+}
+
+const warnedClasses = new WeakSet<object>();
+
+/**
+ * Warns once per class that its name was used as a subject type, since
+ * minifiers rename classes (`Invoice` becoming `t` checks `t.update`)
+ */
+function warnClassNameFallback(constructor: object, name: string): void {
+  if (
+    warnedClasses.has(constructor) ||
+    (typeof process !== 'undefined' && process.env.NODE_ENV === 'production')
+  ) {
+    return;
+  }
+
+  warnedClasses.add(constructor);
+  console.warn(
+    `Subject type "${name}" was detected from a class name, which minification can change. ` +
+      `Add \`static modelName = '${name}'\`, a __typename field or a detectSubjectType option.`
+  );
+}
+
+/**
+ * Detects the subject type of a resource
+ *
+ * Uses, in order: the `detectSubjectType` option, a GraphQL-style
+ * `__typename` field, a static `modelName` on the resource's class, then
+ * the class name (with a development warning, as minification renames
+ * classes).
+ */
+export function detectSubjectType(
+  resource: unknown,
+  options: Pick<EvaluationOptions, 'detectSubjectType'> = {}
+): string | undefined {
+  if (resource === null || resource === undefined) {
+    return undefined;
+  }
+
+  const custom = options.detectSubjectType?.(resource);
+  if (custom) {
+    return custom;
+  }
+
+  if (typeof resource !== 'object') {
+    return undefined;
+  }
+
+  const typename = (resource as { __typename?: unknown }).__typename;
+  if (typeof typename === 'string' && typename) {
+    return typename;
+  }
+
+  const constructor = Object.getPrototypeOf(resource)?.constructor;
+  if (!constructor || constructor === Object) {
+    return undefined;
+  }
+
+  const modelName = (constructor as { modelName?: unknown }).modelName;
+  if (typeof modelName === 'string' && modelName) {
+    return modelName;
+  }
+
+  if (constructor.name) {
+    warnClassNameFallback(constructor, constructor.name);
+    return constructor.name;
+  }
+
+  return undefined;
+}
+
+/**
+ * Default mapping from action and subject type to a rule key:
+ * `('update', 'Invoice')` → `invoice.update`
+ */
+export function defaultSubjectKey(action: string, subjectType: string): string {
+  return `${subjectType.charAt(0).toLowerCase()}${subjectType.slice(1)}.${action}`;
+}
+
+/**
+ * Resolves an ability check to a rule key and resource
+ *
+ * When the subject is an object it is used as the resource (unless a
+ * resource is given) and its type is detected.
+ *
+ * @throws Error if the subject type cannot be detected
+ */
+export function resolveAbility<TResource = any>(
+  check: AbilityCheck<TResource>,
+  resource?: TResource,
+  options: Pick<EvaluationOptions, 'detectSubjectType' | 'subjectKey'> = {}
+): ResolvedAbility<TResource> {
+  const { action, subject } = check;
+  let subjectType: string | undefined;
+  let target = resource;
+
+  if (typeof subject === 'string') {
+    subjectType = subject;
+  } else {
+    subjectType = detectSubjectType(subject, options);
+    target = resource === undefined ? (subject as TResource) : resource;
+  }
+
+  if (!subjectType) {
+    throw new Error(
+      `Cannot detect subject type for "${action}"; pass a subject type string or configure detectSubjectType`
+    );
+  }
+
+  const toKey = options.subjectKey ?? defaultSubjectKey;
+
+  return {
+    key: toKey(action, subjectType),
+    subjectType,
+    resource: target,
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Authorizer
+ *
+ * Enforces the rules the UI uses on the server: checks evaluate against the
+ * same `PermissionRulesMap`, role definitions, flags and error policy as
+ * the PermissionsProvider, so client and server decisions come from one
+ * policy.
+ *
+ * @example
+ * ```ts
+ * const authorizer = createAuthorizer({ user, roles, rules });
+ *
+ * await authorizer.assert('post.edit', post); // throws ForbiddenError
+ * const visible = await authorizer.filter(posts, 'post.view');
+ * ```
+ */
+
+import type {
+  PermissionCheck,
+  PermissionContext,
+  PermissionDecision,
+  PermissionsConfig,
+} from './types';
+import { createConfigEvaluator, evaluationOptionsOf } from './configEvaluation';
+import { explainDecision } from './decisions';
+import { describeCheck } from './ruleEngine';
+
+/**
+ * Provider options with no meaning outside React
+ */
+type ClientOnlyOptions =
+  | 'cache'
+  | 'dataAdapter'
+  | 'liveUpdates'
+  | 'onRevoked'
+  | 'suspense'
+  | 'initialDecisions'
+  | 'enableDevTools';
+
+/**
+ * Configuration for `createAuthorizer`: the provider's, minus client-only options
+ */
+export type AuthorizerConfig<TUser = any> = Omit<PermissionsConfig<TUser>, ClientOnlyOptions>;
+
+/**
+ * Thrown by `Authorizer.assert` when a check is denied
+ */
+export class ForbiddenError extends Error {
+  /** HTTP status, for error handlers that read it (always 403) */
+  readonly status = 403;
+  /** The check that was denied, as described in dev tools */
+  readonly check: string | string[];
+  /** The decision, with its `reason`, `code` and `meta` if a rule gave them */
+  readonly decision: PermissionDecision;
+
+  constructor(check: string | string[], decision: PermissionDecision) {
+    super(
+      decision.reason ?? `Permission denied: ${Array.isArray(check) ? check.join(', ') : check}`
+    );
+    this.name = 'ForbiddenError';
+    this.check = check;
+    this.decision = decision;
+  }
+}
+
+/**
+ * Checks for one user, outside React
+ */
+export interface Authorizer<TUser = any> {
+  /** Whether a check is allowed */
+  can<TResource = any>(
+    check: PermissionCheck<TUser, TResource>,
+    resource?: TResource,
+    mode?: 'any' | 'all',
+    signal?: AbortSignal
+  ): Promise<boolean>;
+  /** The decision for a check, with its `reason`, `code` and `meta` */
+  decide<TResource = any>(
+    check: PermissionCheck<TUser, TResource>,
+    resource?: TResource,
+    mode?: 'any' | 'all',
+    signal?: AbortSignal
+  ): Promise<PermissionDecision>;
+  /**
+   * Resolves when a check is allowed
+   * @throws ForbiddenError when it is denied
+   */
+  assert<TResource = any>(
+    check: PermissionCheck<TUser, TResource>,
+    resource?: TResource,
+    mode?: 'any' | 'all',
+    signal?: AbortSignal
+  ): Promise<void>;
+  /** The items a check allows, checking each item as the resource */
+  filter<TItem>(
+    items: TItem[],
+    check: PermissionCheck<TUser, TItem>,
+    mode?: 'any' | 'all',
+    signal?: AbortSignal
+  ): Promise<TItem[]>;
+  /** The rule context for a resource, for code calling rules directly */
+  context<TResource = any>(
+    resource?: TResource,
+    signal?: AbortSignal
+  ): PermissionContext<TUser, TResource>;
+}
+
+/**
+ * Creates an authorizer for a user, their roles, permissions and flags
+ *
+ * Create one per request; role definitions are expanded and flags resolved
+ * once, when it is created.
+ *
+ * @throws RoleHierarchyError if the role definitions contain a cycle
+ *
+ * @example
+ * ```ts
+ * const authorizer = createAuthorizer({ user, roles: user.roles, rules });
+ *
+ * if (await authorizer.can('invoice.refund', invoice)) {
+ *   await refund(invoice);
+ * }
+ * ```
+ */
+export function createAuthorizer<TUser = any>(config: AuthorizerConfig<TUser>): Authorizer<TUser> {
+  const evaluator = createConfigEvaluator(config);
+  const options = evaluationOptionsOf(config);
+
+  const decide = async <TResource = any>(
+    check: PermissionCheck<TUser, TResource>,
+    resource?: TResource,
+    mode: 'any' | 'all' = 'any',
+    signal?: AbortSignal
+  ): Promise<PermissionDecision> => {
+    const { allowed, ruleResults } = await evaluator.evaluate(check, resource, mode, signal);
+    return explainDecision(allowed, ruleResults);
+  };
+
+  return {
+    decide,
+    can: async (check, resource, mode, signal) =>
+      (await decide(check, resource, mode, signal)).allowed,
+    assert: async (check, resource, mode, signal) => {
+      const decision = await decide(check, resource, mode, signal);
+
+      if (!decision.allowed) {
+        throw new ForbiddenError(describeCheck(check, options), decision);
+      }
+    },
+    filter: async (items, check, mode, signal) => {
+      const decisions = await Promise.all(
+        items.map((item) => decide(check, item, mode, signal))
+      );
+      return items.filter((_, index) => decisions[index].allowed);
+    },
+    context: evaluator.context,
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * Batched Rules
+ *
+ * DataLoader-style batching for async rules: checks made in the same tick
+ * are collected and resolved with one loader call, so a list of 200 rows
+ * needs one backend request instead of 200.
+ */
+
+import type { PermissionContext, PermissionRule } from './types';
+import { named } from './combinators';
+import { resourceKeyOf } from './decisionCache';
+
+/**
+ * Resolves many resources at once; must return one decision per resource,
+ * in the same order
+ *
+ * `context.signal` belongs to the batch: it aborts once every check
+ * waiting on the batch has been aborted.
+ */
+export type BatchLoader<TUser = any, TResource = any> = (
+  resources: TResource[],
+  context: PermissionContext<TUser, TResource>
+) => Promise<boolean[]>;
+
+/**
+ * Options for `batched`
+ */
+export interface BatchOptions<TResource = any> {
+  /** Label shown in evaluation results (defaults to 'batched') */
+  label?: string;
+  /** Maximum resources per loader call, an integer of at least 1 (defaults to unlimited) */
+  maxBatchSize?: number;
+  /** Time in ms to wait for more checks before dispatching (defaults to 0) */
+  wait?: number;
+  /**
+   * Stable key for a resource; identical keys share one slot in a batch
+   * (object identity when omitted)
+   */
+  resourceKey?: (resource: TResource) => string | undefined;
+}
+
+interface PendingLoad {
+  resource: any;
+  promise: Promise<boolean>;
+  resolve: (allowed: boolean) => void;
+  reject: (error: unknown) => void;
+  /** Checks waiting on this load that have not been aborted */
+  waiters: number;
+  /** Set once the load is dispatched */
+  chunk?: Chunk;
+}
+
+/**
+ * Loads dispatched in one loader call, sharing its signal
+ */
+interface Chunk {
+  controller: AbortController;
+  loads: PendingLoad[];
+}
+
+interface PendingBatch {
+  context: PermissionContext<any, any>;
+  loads: Map<string, PendingLoad>;
+}
+
+/**
+ * Aborts a chunk's loader call once no check is waiting on any of its loads
+ */
+function abandonIfUnwanted(chunk: Chunk | undefined): void {
+  if (chunk && chunk.loads.every((load) => load.waiters === 0)) {
+    chunk.controller.abort();
+  }
+}
+
+/**
+ * Registers a check waiting on a load; its abort no longer holds the load
+ */
+function join(load: PendingLoad, signal: AbortSignal | undefined): Promise<boolean> {
+  if (signal?.aborted) {
+    return load.promise;
+  }
+
+  load.waiters++;
+
+  if (signal) {
+    const leave = () => {
+      load.waiters--;
+      abandonIfUnwanted(load.chunk);
+    };
+    const settle = () => signal.removeEventListener('abort', leave);
+
+    signal.addEventListener('abort', leave, { once: true });
+    load.promise.then(settle, settle);
+  }
+
+  return load.promise;
+}
+
+/**
+ * Creates a rule whose checks are batched into single loader calls
+ *
+ * Checks are grouped by user, so the loader receives the context of the
+ * first check in the batch, with a signal owned by the batch: one check
+ * unmounting doesn't abort the load the others wait on. Checks on the
+ * same resource key while a batch is pending or in flight share one
+ * result. If the loader rejects or returns the wrong number of results,
+ * every check in the batch errors.
+ *
+ * @throws Error if `maxBatchSize` is not an integer of at least 1
+ *
+ * @example
+ * ```ts
+ * const rules = {
+ *   'post.edit': batched(
+ *     async (posts, { user }) => api.canEditPosts(user.id, posts.map((post) => post.id)),
+ *     { label: 'api.canEditPosts', resourceKey: (post) => post.id }
+ *   ),
+ * };
+ * ```
+ */
+export function batched<TUser = any, TResource = any>(
+  loader: BatchLoader<TUser, TResource>,
+  options: BatchOptions<TResource> = {}
+): PermissionRule<TUser, TResource> {
+  const { label = 'batched', maxBatchSize = Infinity, wait = 0, resourceKey } = options;
+
+  if (maxBatchSize !== Infinity && !(Number.isInteger(maxBatchSize) && maxBatchSize >= 1)) {
+    throw new Error(`${label}: maxBatchSize must be an integer of at least 1, got ${maxBatchSize}`);
+  }
+
+  // Pending batches per user identity
+  const pending = new Map<unknown, PendingBatch>();
+  // Loads dispatched but not yet resolved, per user identity
+  const inFlight = new Map<unknown, Map<string, PendingLoad>>();
+
+  async function runChunk(
+    user: unknown,
+    context: PermissionContext<TUser, TResource>,
+    chunk: [string, PendingLoad][]
+  ) {
+    const flying = inFlight.get(user) ?? new Map<string, PendingLoad>();
+    inFlight.set(user, flying);
+    chunk.forEach(([key, load]) => flying.set(key, load));
+
+    const owner: Chunk = {
+      controller: new AbortController(),
+      loads: chunk.map(([, load]) => load),
+    };
+    owner.loads.forEach((load) => {
+      load.chunk = owner;
+    });
+    abandonIfUnwanted(owner);
+
+    try {
+      const results = await loader(
+        chunk.map(([, load]) => load.resource),
+        { ...context, signal: owner.controller.signal }
+      );
+
+      if (!Array.isArray(results) || results.length !== chunk.length) {
+        const count = Array.isArray(results) ? results.length : 'no';
+        throw new Error(
+          `${label}: loader returned ${count} results for ${chunk.length} resources`
+        );
+      }
+
+      chunk.forEach(([, load], index) => load.resolve(Boolean(results[index])));
+    } catch (error) {
+      chunk.forEach(([, load]) => load.reject(error));
+    } finally {
+      chunk.forEach(([key]) => flying.delete(key));
+      if (flying.size === 0) {
+        inFlight.delete(user);
+      }
+    }
+  }
+
+  function dispatch(user: unknown) {
+    const batch = pending.get(user);
+    pending.delete(user);
+    if (!batch) {
+      return;
+    }
+
+    const entries = Array.from(batch.loads.entries());
+    for (let start = 0; start < entries.length; start += maxBatchSize) {
+      void runChunk(user, batch.context, entries.slice(start, start + maxBatchSize));
+    }
+  }
+
+  return named(label, (ctx) => {
+    const key = resourceKeyOf(ctx.resource, resourceKey);
+
+    const flying = inFlight.get(ctx.user)?.get(key);
+    if (flying) {
+      return join(flying, ctx.signal);
+    }
+
+    let batch = pending.get(ctx.user);
+    if (!batch) {
+      batch = { context: ctx, loads: new Map() };
+      pending.set(ctx.user, batch);
+      setTimeout(() => dispatch(ctx.user), wait);
+    }
+
+    const existing = batch.loads.get(key);
+    if (existing) {
+      return join(existing, ctx.signal);
+    }
+
+    let resolve!: (allowed: boolean) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<boolean>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    const load: PendingLoad = { resource: ctx.resource, promise, resolve, reject, waiters: 0 };
+    batch.loads.set(key, load);
+    return join(load, ctx.signal);
+  });
+}
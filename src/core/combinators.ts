@@ -0,0 +1,245 @@
+/**
+ * Rule Combinators
+ *
+ * Typed helpers for composing permission rules. Each combinator returns a
+ * plain PermissionRule that can be called directly, and also carries
+ * metadata so the rule engine can record nested results for every branch.
+ */
+
+import type { PermissionContext, PermissionRule, RuleReturn } from './types';
+import { getPermissionMatcher } from './permissionMatcher';
+import { isAllowed } from './decisions';
+
+/**
+ * Metadata attached to rules built with combinators
+ */
+export interface RuleMeta {
+  /** Human-readable label shown in evaluation results */
+  label: string;
+  /** Logical operator combining `operands` */
+  operator?: 'and' | 'or' | 'not';
+  /** Child rules for composite rules */
+  operands?: PermissionRule<any, any>[];
+  /** Key of another rule this rule delegates to (see `ref`) */
+  ref?: string;
+  /** Permission this rule checks against the grants (see `hasPermission`) */
+  permission?: string;
+}
+
+const ruleMeta = new WeakMap<PermissionRule<any, any>, RuleMeta>();
+
+/**
+ * Returns the combinator metadata for a rule, if it was built with combinators
+ */
+export function getRuleMeta(rule: PermissionRule<any, any>): RuleMeta | undefined {
+  return ruleMeta.get(rule);
+}
+
+/**
+ * Returns the label used for a rule in evaluation results
+ * ('inline' for plain functions)
+ */
+export function getRuleLabel(rule: PermissionRule<any, any>): string {
+  return ruleMeta.get(rule)?.label ?? 'inline';
+}
+
+function withMeta<TUser, TResource>(
+  rule: PermissionRule<TUser, TResource>,
+  meta: RuleMeta
+): PermissionRule<TUser, TResource> {
+  ruleMeta.set(rule, meta);
+  return rule;
+}
+
+/**
+ * Runs operand rules, staying synchronous unless an operand returns a Promise
+ */
+function runOperands<TUser, TResource>(
+  operands: PermissionRule<TUser, TResource>[],
+  ctx: PermissionContext<TUser, TResource>,
+  combine: (results: boolean[]) => boolean
+): boolean | Promise<boolean> {
+  const results = operands.map((operand) => operand(ctx));
+
+  if (results.some((result) => result instanceof Promise)) {
+    return Promise.all(results).then((resolved) => combine(resolved.map(isAllowed)));
+  }
+
+  return combine((results as RuleReturn[]).map(isAllowed));
+}
+
+function describe(name: string, operands: PermissionRule<any, any>[]): string {
+  return `${name}(${operands.map(getRuleLabel).join(', ')})`;
+}
+
+/**
+ * Attaches a label to a rule so it is identifiable in evaluation results
+ *
+ * @example
+ * ```ts
+ * named('isPublished', ({ resource }) => resource.status === 'published')
+ * ```
+ */
+export function named<TUser = any, TResource = any>(
+  label: string,
+  rule: PermissionRule<TUser, TResource>
+): PermissionRule<TUser, TResource> {
+  const existing = ruleMeta.get(rule);
+  const labelled: PermissionRule<TUser, TResource> = (ctx) => rule(ctx);
+  return withMeta(labelled, { ...existing, label });
+}
+
+/**
+ * Passes when every rule passes
+ *
+ * @example
+ * ```ts
+ * const rules = {
+ *   'post.edit': and(hasRole('editor'), isOwner('authorId')),
+ * };
+ * ```
+ */
+export function and<TUser = any, TResource = any>(
+  ...operands: PermissionRule<TUser, TResource>[]
+): PermissionRule<TUser, TResource> {
+  return withMeta(
+    (ctx: PermissionContext<TUser, TResource>) =>
+      runOperands(operands, ctx, (results) => results.every(Boolean)),
+    { label: describe('and', operands), operator: 'and', operands }
+  );
+}
+
+/**
+ * Passes when any rule passes
+ */
+export function or<TUser = any, TResource = any>(
+  ...operands: PermissionRule<TUser, TResource>[]
+): PermissionRule<TUser, TResource> {
+  return withMeta(
+    (ctx: PermissionContext<TUser, TResource>) =>
+      runOperands(operands, ctx, (results) => results.some(Boolean)),
+    { label: describe('or', operands), operator: 'or', operands }
+  );
+}
+
+/**
+ * Inverts a rule
+ */
+export function not<TUser = any, TResource = any>(
+  operand: PermissionRule<TUser, TResource>
+): PermissionRule<TUser, TResource> {
+  return withMeta(
+    (ctx: PermissionContext<TUser, TResource>) =>
+      runOperands([operand], ctx, ([result]) => !result),
+    { label: describe('not', [operand]), operator: 'not', operands: [operand] }
+  );
+}
+
+/**
+ * Passes when the feature flag is enabled and, if given, the rule passes
+ *
+ * @example
+ * ```ts
+ * ifFlag('newEditor', hasPermission('post.edit'))
+ * ```
+ */
+export function ifFlag<TUser = any, TResource = any>(
+  flag: string,
+  rule?: PermissionRule<TUser, TResource>
+): PermissionRule<TUser, TResource> {
+  const flagRule = withMeta(
+    (ctx: PermissionContext<TUser, TResource>) => Boolean(ctx.flags[flag]),
+    { label: `flag:${flag}` }
+  );
+
+  if (!rule) {
+    return flagRule;
+  }
+
+  const operands = [flagRule, rule];
+  return withMeta(
+    (ctx: PermissionContext<TUser, TResource>) =>
+      runOperands(operands, ctx, (results) => results.every(Boolean)),
+    { label: `ifFlag(${flag}, ${getRuleLabel(rule)})`, operator: 'and', operands }
+  );
+}
+
+/**
+ * Passes when the user holds the role
+ */
+export function hasRole<TUser = any, TResource = any>(
+  role: string
+): PermissionRule<TUser, TResource> {
+  return withMeta(
+    (ctx: PermissionContext<TUser, TResource>) => ctx.roles.includes(role),
+    { label: `hasRole(${role})` }
+  );
+}
+
+/**
+ * Passes when the permission is granted (wildcard grants apply) and not
+ * denied by a `!permission` grant
+ *
+ * The rule engine resolves the grants like a string check, with its
+ * `permissionSeparator` and combining algorithm; called directly, the
+ * default separator and deny-overrides apply.
+ */
+export function hasPermission<TUser = any, TResource = any>(
+  permission: string
+): PermissionRule<TUser, TResource> {
+  return withMeta(
+    (ctx: PermissionContext<TUser, TResource>) => {
+      const matcher = getPermissionMatcher(ctx.permissions);
+      return matcher.deniedBy(permission) === undefined && matcher.matches(permission);
+    },
+    { label: `hasPermission(${permission})`, permission }
+  );
+}
+
+/**
+ * Passes when `resource[field]` equals `user[userField]`
+ *
+ * @param field - Owner field on the resource (defaults to 'ownerId')
+ * @param userField - Identifier field on the user (defaults to 'id')
+ */
+export function isOwner<TUser = any, TResource = any>(
+  field: string = 'ownerId',
+  userField: string = 'id'
+): PermissionRule<TUser, TResource> {
+  return withMeta(
+    (ctx: PermissionContext<TUser, TResource>) => {
+      const ownerId = (ctx.resource as Record<string, unknown> | undefined)?.[field];
+      const userId = (ctx.user as Record<string, unknown> | undefined)?.[userField];
+      return ownerId !== undefined && ownerId === userId;
+    },
+    { label: `isOwner(${field})` }
+  );
+}
+
+/**
+ * Delegates to another named rule (or key/expression) in the rules map
+ *
+ * References are resolved through `ctx.check`, which the rule engine
+ * provides; calling a `ref` rule with a hand-built context throws.
+ *
+ * @example
+ * ```ts
+ * const rules = {
+ *   'post.view': or(hasRole('viewer'), isOwner()),
+ *   'post.comment': and(ref('post.view'), ifFlag('comments')),
+ * };
+ * ```
+ */
+export function ref<TUser = any, TResource = any>(
+  key: string
+): PermissionRule<TUser, TResource> {
+  return withMeta(
+    (ctx: PermissionContext<TUser, TResource>) => {
+      if (!ctx.check) {
+        throw new Error(`ref('${key}') can only be evaluated by the rule engine`);
+      }
+      return ctx.check(key);
+    },
+    { label: `ref(${key})`, ref: key }
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * Config Evaluation
+ *
+ * Evaluates checks against a PermissionsConfig outside React, the way the
+ * PermissionsProvider does: role definitions are expanded, flags resolved
+ * for the user and the error policy applied. Decision snapshots for
+ * server-side rendering are built on it.
+ */
+
+import type {
+  EvaluationOptions,
+  PermissionCheck,
+  PermissionContext,
+  PermissionsConfig,
+} from './types';
+import { evaluatePermission, createPermissionContext, describeCheck } from './ruleEngine';
+import { expandRoles } from './roleHierarchy';
+import { resolveFlags } from './flags';
+import { applyErrorPolicy } from './errorPolicy';
+import type { PolicyDecision } from './errorPolicy';
+
+/**
+ * Evaluates checks for the user of a config
+ */
+export interface ConfigEvaluator<TUser = any> {
+  /** Builds the rule context for a resource */
+  context<TResource = any>(
+    resource?: TResource,
+    signal?: AbortSignal
+  ): PermissionContext<TUser, TResource>;
+  /** Evaluates a check, applying the config's error policy */
+  evaluate<TResource = any>(
+    check: PermissionCheck<TUser, TResource>,
+    resource?: TResource,
+    mode?: 'any' | 'all',
+    signal?: AbortSignal
+  ): Promise<PolicyDecision>;
+}
+
+/**
+ * Rule engine options of a config
+ */
+export function evaluationOptionsOf(config: PermissionsConfig<any>): EvaluationOptions {
+  return {
+    permissionSeparator: config.permissionSeparator,
+    denyRules: config.denyRules,
+    combiningAlgorithm: config.combiningAlgorithm,
+    subjectKey: config.subjectKey,
+    detectSubjectType: config.detectSubjectType,
+    fieldRules: config.fieldRules,
+    timeout: config.timeout,
+    ruleTimeouts: config.ruleTimeouts,
+    shortCircuit: config.shortCircuit,
+  };
+}
+
+/**
+ * Creates an evaluator for a config's user, roles, permissions and flags
+ *
+ * Data adapters and live updates are not applied; pass the data they
+ * would load as `roles`, `permissions` and `flags`.
+ *
+ * @throws RoleHierarchyError if the role definitions contain a cycle
+ *
+ * @example
+ * ```ts
+ * const evaluator = createConfigEvaluator({ user, roles, rules });
+ * const { allowed } = await evaluator.evaluate('post.edit', post);
+ * ```
+ */
+export function createConfigEvaluator<TUser = any>(
+  config: PermissionsConfig<TUser>
+): ConfigEvaluator<TUser> {
+  const { user, rules = {}, flags = {}, onError, onRuleError } = config;
+  const options = evaluationOptionsOf(config);
+
+  const { roles, permissions } = config.roleDefinitions
+    ? expandRoles(config.roles ?? [], config.permissions ?? [], config.roleDefinitions)
+    : { roles: config.roles ?? [], permissions: config.permissions ?? [] };
+
+  const resolved = resolveFlags(
+    flags,
+    createPermissionContext(user, undefined, roles, permissions, {})
+  );
+
+  const context = <TResource = any>(resource?: TResource, signal?: AbortSignal) =>
+    createPermissionContext<TUser, TResource>(
+      user,
+      resource,
+      roles,
+      permissions,
+      resolved.values,
+      signal,
+      resolved.variants
+    );
+
+  return {
+    context,
+    evaluate: (check, resource, mode = 'any', signal) =>
+      applyErrorPolicy(
+        () => evaluatePermission(check, context(resource, signal), rules, mode, options),
+        onError,
+        {
+          signal,
+          onRuleError: (failure) =>
+            onRuleError?.({ ...failure, check: describeCheck(check, options), resource }),
+        }
+      ),
+  };
+}
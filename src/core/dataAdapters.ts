@@ -0,0 +1,277 @@
+/**
+ * Data Adapters
+ *
+ * Sources of roles, permissions and flags for the PermissionsProvider, so
+ * apps don't write their own fetch, poll and refresh plumbing. An adapter
+ * loads the data, optionally pushes changes to subscribers and can be
+ * refreshed on demand.
+ *
+ * @example
+ * ```tsx
+ * const adapter = new RestDataAdapter({ url: '/api/me/permissions', pollInterval: 60_000 });
+ *
+ * <PermissionsProvider user={user} rules={rules} dataAdapter={adapter}>
+ *   <App />
+ * </PermissionsProvider>
+ * ```
+ */
+
+import type { PermissionData, PermissionDataAdapter } from './types';
+
+/**
+ * Thrown when an adapter fails to load its data
+ */
+export class DataAdapterError extends Error {
+  /** HTTP status, for failed REST responses */
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'DataAdapterError';
+    this.status = status;
+  }
+}
+
+type DataListener<TUser> = (data: PermissionData<TUser>) => void;
+
+/**
+ * Subscriber bookkeeping shared by the built-in adapters
+ */
+class DataListeners<TUser> {
+  private listeners = new Set<DataListener<TUser>>();
+
+  get size(): number {
+    return this.listeners.size;
+  }
+
+  add(listener: DataListener<TUser>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  notify(data: PermissionData<TUser>): void {
+    this.listeners.forEach((listener) => listener(data));
+  }
+}
+
+/**
+ * Adapter serving data held in memory; `set` and `update` push changes
+ *
+ * @example
+ * ```ts
+ * const adapter = new StaticDataAdapter({ roles: ['viewer'] });
+ * adapter.update({ roles: ['editor'] }); // mounted gates re-evaluate
+ * ```
+ */
+export class StaticDataAdapter<TUser = any> implements PermissionDataAdapter<TUser> {
+  private listeners = new DataListeners<TUser>();
+
+  constructor(private data: PermissionData<TUser> = {}) {}
+
+  load(): PermissionData<TUser> {
+    return this.data;
+  }
+
+  getSnapshot(): PermissionData<TUser> {
+    return this.data;
+  }
+
+  subscribe(listener: DataListener<TUser>): () => void {
+    return this.listeners.add(listener);
+  }
+
+  /**
+   * Replaces the data
+   */
+  set(data: PermissionData<TUser>): void {
+    this.data = data;
+    this.listeners.notify(data);
+  }
+
+  /**
+   * Replaces some fields of the data
+   */
+  update(data: Partial<PermissionData<TUser>>): void {
+    this.set({ ...this.data, ...data });
+  }
+}
+
+/**
+ * Options for `RestDataAdapter`
+ */
+export interface RestDataAdapterOptions<TUser = any> {
+  /** Endpoint returning the data as JSON */
+  url: string;
+  /** Request options, or a function returning them per request (e.g. for auth headers) */
+  init?: RequestInit | (() => RequestInit);
+  /** Maps the response body to data (the body is used as-is when omitted) */
+  parse?: (body: any) => PermissionData<TUser>;
+  /** Reloads every `pollInterval` ms while there are subscribers */
+  pollInterval?: number;
+  /** Called when a poll fails (the previous data is kept) */
+  onPollError?: (error: unknown) => void;
+  /** fetch implementation (defaults to the global `fetch`) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Adapter loading data from a REST endpoint, optionally polling it
+ *
+ * The last response is kept as the snapshot, so providers mounted later
+ * decide checks straight away and revalidate in the background.
+ */
+export class RestDataAdapter<TUser = any> implements PermissionDataAdapter<TUser> {
+  private listeners = new DataListeners<TUser>();
+  private data?: PermissionData<TUser>;
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(private options: RestDataAdapterOptions<TUser>) {}
+
+  async load(signal?: AbortSignal): Promise<PermissionData<TUser>> {
+    const { url, init, parse, fetch: fetchImpl = fetch } = this.options;
+    const requestInit = typeof init === 'function' ? init() : init;
+
+    const response = await fetchImpl(url, { ...requestInit, signal });
+    if (!response.ok) {
+      throw new DataAdapterError(
+        `Failed to load permission data from ${url}: ${response.status}`,
+        response.status
+      );
+    }
+
+    const body = await response.json();
+    this.data = parse ? parse(body) : body;
+    return this.data!;
+  }
+
+  getSnapshot(): PermissionData<TUser> | undefined {
+    return this.data;
+  }
+
+  subscribe(listener: DataListener<TUser>): () => void {
+    const remove = this.listeners.add(listener);
+    const { pollInterval, onPollError } = this.options;
+
+    if (pollInterval && this.timer === undefined) {
+      this.timer = setInterval(() => {
+        this.refresh().catch((error) => onPollError?.(error));
+      }, pollInterval);
+    }
+
+    return () => {
+      remove();
+      if (this.listeners.size === 0 && this.timer !== undefined) {
+        clearInterval(this.timer);
+        this.timer = undefined;
+      }
+    };
+  }
+
+  async refresh(): Promise<PermissionData<TUser>> {
+    const data = await this.load();
+    this.listeners.notify(data);
+    return data;
+  }
+}
+
+/**
+ * Options for `LocalStorageDataAdapter`
+ */
+export interface LocalStorageDataAdapterOptions {
+  /** Storage key (defaults to 'permissions') */
+  key?: string;
+  /** Storage to use (defaults to `window.localStorage`) */
+  storage?: Storage;
+}
+
+/**
+ * Adapter persisting data as JSON in localStorage
+ *
+ * Changes made with `set` and `clear`, and writes from other tabs, are
+ * pushed to subscribers. Flags are stored as JSON, so targeting rules
+ * can't use `match` functions.
+ */
+export class LocalStorageDataAdapter<TUser = any> implements PermissionDataAdapter<TUser> {
+  private listeners = new DataListeners<TUser>();
+  private key: string;
+  private storage?: Storage;
+
+  constructor(options: LocalStorageDataAdapterOptions = {}) {
+    this.key = options.key ?? 'permissions';
+    this.storage =
+      options.storage ?? (typeof window !== 'undefined' ? window.localStorage : undefined);
+  }
+
+  /**
+   * Reads the stored data; throws DataAdapterError when it isn't valid JSON
+   */
+  private read(): PermissionData<TUser> | undefined {
+    const stored = this.storage?.getItem(this.key);
+    if (stored === null || stored === undefined) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(stored);
+    } catch {
+      throw new DataAdapterError(`Invalid permission data in storage key '${this.key}'`);
+    }
+  }
+
+  load(): PermissionData<TUser> {
+    return this.read() ?? {};
+  }
+
+  getSnapshot(): PermissionData<TUser> | undefined {
+    try {
+      return this.read();
+    } catch {
+      return undefined;
+    }
+  }
+
+  subscribe(listener: DataListener<TUser>): () => void {
+    const remove = this.listeners.add(listener);
+
+    if (typeof window === 'undefined') {
+      return remove;
+    }
+
+    // Writes from other tabs
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === this.key || event.key === null) {
+        listener(this.getSnapshot() ?? {});
+      }
+    };
+    window.addEventListener('storage', onStorage);
+
+    return () => {
+      remove();
+      window.removeEventListener('storage', onStorage);
+    };
+  }
+
+  async refresh(): Promise<PermissionData<TUser>> {
+    const data = this.load();
+    this.listeners.notify(data);
+    return data;
+  }
+
+  /**
+   * Stores the data
+   */
+  set(data: PermissionData<TUser>): void {
+    this.storage?.setItem(this.key, JSON.stringify(data));
+    this.listeners.notify(data);
+  }
+
+  /**
+   * Removes the stored data
+   */
+  clear(): void {
+    this.storage?.removeItem(this.key);
+    this.listeners.notify({});
+  }
+}
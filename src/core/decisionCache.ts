@@ -0,0 +1,255 @@
+/**
+ * Decision Cache
+ *
+ * Caches evaluation results by check, resource and mode so components
+ * checking the same key on the same resource share one evaluation.
+ * Entries expire after a TTL (per rule key or global) and can be
+ * invalidated by rule key.
+ */
+
+import type { DecisionCacheOptions, PermissionCheck, RuleEvaluationResult } from './types';
+import { isAbilityCheck } from './ability';
+
+/**
+ * A cached evaluation result
+ */
+export interface CachedDecision {
+  allowed: boolean;
+  ruleResults: RuleEvaluationResult[];
+}
+
+interface CacheEntry extends CachedDecision {
+  /** Rule keys and labels involved in the evaluation */
+  rules: Set<string>;
+  /** Expiry timestamp (ms), Infinity for no expiry */
+  expiresAt: number;
+}
+
+/** Default upper bound on cached decisions */
+const DEFAULT_MAX_ENTRIES = 500;
+
+let nextIdentity = 0;
+const identities = new WeakMap<object, number>();
+
+/**
+ * Returns a stable numeric identity for an object or function
+ */
+function identityOf(value: object): number {
+  let id = identities.get(value);
+  if (id === undefined) {
+    id = ++nextIdentity;
+    identities.set(value, id);
+  }
+  return id;
+}
+
+/**
+ * Builds a key for a resource: `resourceKey` when it returns one, otherwise
+ * object identity or the primitive value
+ */
+export function resourceKeyOf<TResource>(
+  resource: TResource | undefined,
+  resourceKey?: (resource: TResource) => string | undefined
+): string {
+  if (resource === undefined || resource === null) {
+    return '-';
+  }
+
+  const custom = resourceKey?.(resource);
+  if (custom !== undefined) {
+    return `k:${custom}`;
+  }
+
+  if (typeof resource === 'object' || typeof resource === 'function') {
+    return `#${identityOf(resource as unknown as object)}`;
+  }
+
+  return `v:${typeof resource}:${String(resource)}`;
+}
+
+function checkKeyOf<TResource>(
+  check: PermissionCheck<any, TResource>,
+  resourceKey?: (resource: TResource) => string | undefined
+): string {
+  if (typeof check === 'string') {
+    return `s:${check}`;
+  }
+  if (Array.isArray(check)) {
+    return `a:${JSON.stringify(check)}`;
+  }
+  if (typeof check === 'function') {
+    return `f:${identityOf(check)}`;
+  }
+  if (isAbilityCheck(check)) {
+    const subject =
+      typeof check.subject === 'string'
+        ? `t:${check.subject}`
+        : resourceKeyOf(check.subject as TResource, resourceKey);
+    return `b:${check.action}:${subject}`;
+  }
+  return `?:${String(check)}`;
+}
+
+/**
+ * Builds a key identifying a check on a resource in a mode
+ *
+ * Function checks and object resources are keyed by identity unless
+ * `resourceKey` returns a key for the resource.
+ */
+export function decisionKey<TResource = any>(
+  check: PermissionCheck<any, TResource>,
+  resource: TResource | undefined,
+  mode: string,
+  resourceKey?: (resource: TResource) => string | undefined
+): string {
+  return `${checkKeyOf(check, resourceKey)}|${resourceKeyOf(resource, resourceKey)}|${mode}`;
+}
+
+/**
+ * Whether a decision key depends on object identity (function checks, and
+ * object resources or subjects without a `resourceKey`), so it only holds
+ * within one JavaScript realm
+ */
+export function isIdentityKeyed<TResource = any>(
+  check: PermissionCheck<any, TResource>,
+  resource: TResource | undefined,
+  resourceKey?: (resource: TResource) => string | undefined
+): boolean {
+  if (typeof check === 'function') {
+    return true;
+  }
+
+  if (
+    isAbilityCheck(check) &&
+    typeof check.subject !== 'string' &&
+    resourceKeyOf(check.subject as TResource, resourceKey).startsWith('#')
+  ) {
+    return true;
+  }
+
+  return resourceKeyOf(resource, resourceKey).startsWith('#');
+}
+
+function collectRules(results: RuleEvaluationResult[], rules: Set<string>): Set<string> {
+  results.forEach((result) => {
+    rules.add(result.rule);
+    if (result.children) {
+      collectRules(result.children, rules);
+    }
+  });
+  return rules;
+}
+
+/**
+ * Whether a decision involved a rule key, as `DecisionCache.invalidate` matches them
+ */
+export function involvesRule(decision: CachedDecision, ruleKey: string): boolean {
+  return collectRules(decision.ruleResults, new Set()).has(ruleKey);
+}
+
+function hasError(results: RuleEvaluationResult[]): boolean {
+  return results.some(
+    (result) => result.error !== undefined || (result.children ? hasError(result.children) : false)
+  );
+}
+
+/**
+ * TTL-based cache of permission decisions
+ */
+export class DecisionCache<TResource = any> {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private options: DecisionCacheOptions<TResource> = {}) {}
+
+  /**
+   * Builds the cache key for a check, resource and mode
+   */
+  key(check: PermissionCheck<any, TResource>, resource: TResource | undefined, mode: string): string {
+    return decisionKey(check, resource, mode, this.options.resourceKey);
+  }
+
+  /**
+   * Returns a cached decision if present and not expired
+   */
+  get(key: string): CachedDecision | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return { allowed: entry.allowed, ruleResults: entry.ruleResults };
+  }
+
+  /**
+   * Stores a decision
+   *
+   * Decisions with rule errors are not cached, so transient failures are
+   * retried on the next check.
+   */
+  set(key: string, decision: CachedDecision): void {
+    if (hasError(decision.ruleResults)) {
+      return;
+    }
+
+    const rules = collectRules(decision.ruleResults, new Set());
+    const ttl = this.ttlFor(rules);
+    if (ttl <= 0) {
+      return;
+    }
+
+    const maxEntries = this.options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    if (!this.entries.has(key) && this.entries.size >= maxEntries) {
+      // Evict the oldest entry (Map preserves insertion order)
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+
+    this.entries.set(key, {
+      ...decision,
+      rules,
+      expiresAt: Date.now() + ttl,
+    });
+  }
+
+  private ttlFor(rules: Set<string>): number {
+    const { ttl = Infinity, ruleTtl = {} } = this.options;
+
+    return Array.from(rules).reduce(
+      (shortest, rule) =>
+        Object.prototype.hasOwnProperty.call(ruleTtl, rule)
+          ? Math.min(shortest, ruleTtl[rule])
+          : shortest,
+      ttl
+    );
+  }
+
+  /**
+   * Removes decisions involving a rule key, or every decision when no key is given
+   */
+  invalidate(ruleKey?: string): void {
+    if (ruleKey === undefined) {
+      this.entries.clear();
+      return;
+    }
+
+    this.entries.forEach((entry, key) => {
+      if (entry.rules.has(ruleKey)) {
+        this.entries.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Number of cached decisions
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Decisions
+ *
+ * Rules may return a structured decision (`{ allowed, reason, code, meta }`)
+ * instead of a boolean. These helpers normalize rule return values and find
+ * the explanation for an evaluation among its rule results.
+ */
+
+import type { PermissionDecision, RuleEvaluationResult, RuleReturn } from './types';
+
+/**
+ * Whether a rule's return value is a structured decision
+ */
+export function isPermissionDecision(value: unknown): value is PermissionDecision {
+  return typeof value === 'object' && value !== null && 'allowed' in value;
+}
+
+/**
+ * Whether a rule's return value (boolean or decision) allows access
+ */
+export function isAllowed(value: RuleReturn | undefined): boolean {
+  return isPermissionDecision(value) ? Boolean(value.allowed) : Boolean(value);
+}
+
+/**
+ * Whether a result or decision carries a reason, code or meta
+ */
+export function hasExplanation(
+  source: Pick<PermissionDecision, 'reason' | 'code' | 'meta'>
+): boolean {
+  return source.reason !== undefined || source.code !== undefined || source.meta !== undefined;
+}
+
+/**
+ * The explanation fields of a decision, omitting those that are not set
+ */
+export function explanationOf(
+  source: Pick<PermissionDecision, 'reason' | 'code' | 'meta'>
+): Omit<PermissionDecision, 'allowed'> {
+  return {
+    ...(source.reason !== undefined && { reason: source.reason }),
+    ...(source.code !== undefined && { code: source.code }),
+    ...(source.meta !== undefined && { meta: source.meta }),
+  };
+}
+
+/**
+ * Explains a decision with the first rule result (depth-first) that agrees
+ * with it and carries a reason, code or meta
+ *
+ * @param allowed - The decision to explain
+ * @param ruleResults - Results of the evaluation that reached it
+ */
+export function explainDecision(
+  allowed: boolean,
+  ruleResults: RuleEvaluationResult[]
+): PermissionDecision {
+  const find = (results: RuleEvaluationResult[]): RuleEvaluationResult | undefined => {
+    for (const result of results) {
+      if (result.result === allowed && result.outcome !== 'skipped' && hasExplanation(result)) {
+        return result;
+      }
+
+      const nested = find(result.children ?? []);
+      if (nested) {
+        return nested;
+      }
+    }
+
+    return undefined;
+  };
+
+  const explaining = find(ruleResults);
+  return { allowed, ...(explaining && explanationOf(explaining)) };
+}
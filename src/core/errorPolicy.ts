@@ -0,0 +1,139 @@
+/**
+ * Error Policy
+ *
+ * Decides evaluations whose rules threw or timed out. By default such
+ * rules simply count as denied; a policy can instead allow, retry with
+ * backoff, or fall back to the last known decision.
+ */
+
+import type {
+  ErrorPolicyResolution,
+  RuleErrorPolicy,
+  RuleEvaluationResult,
+  RuleFailure,
+} from './types';
+
+/**
+ * An evaluation result, optionally annotated with how the policy decided it
+ */
+export interface PolicyDecision {
+  allowed: boolean;
+  ruleResults: RuleEvaluationResult[];
+  errorPolicy?: ErrorPolicyResolution;
+}
+
+/**
+ * Options for `applyErrorPolicy`
+ */
+export interface ErrorPolicyOptions {
+  /** Last error-free decision for the same check (for 'last-known') */
+  lastKnown?: boolean;
+  /** Called for every failed rule of every attempt */
+  onRuleError?: (failure: RuleFailure) => void;
+  /** Stops retrying when aborted */
+  signal?: AbortSignal;
+}
+
+/** Default base delay between retries (ms) */
+const DEFAULT_BACKOFF = 100;
+
+/**
+ * Collects the rules where failures originated: errored results with no
+ * errored children. Aborted rules are not failures.
+ */
+export function collectRuleFailures(
+  results: RuleEvaluationResult[],
+  attempt: number
+): RuleFailure[] {
+  const failures: RuleFailure[] = [];
+
+  const visit = (result: RuleEvaluationResult): boolean => {
+    const childFailed = (result.children ?? []).map(visit).some(Boolean);
+
+    if (result.error === undefined || result.outcome === 'aborted') {
+      return childFailed;
+    }
+
+    if (!childFailed) {
+      failures.push({
+        rule: result.rule,
+        error: result.error,
+        ...(result.outcome !== undefined && { outcome: result.outcome }),
+        attempt,
+      });
+    }
+    return true;
+  };
+
+  results.forEach(visit);
+  return failures;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Runs an evaluation and applies the error policy when it is denied
+ * with rule failures
+ *
+ * @param evaluate - Runs one evaluation attempt (1-based)
+ * @param policy - Error policy (defaults to 'deny')
+ * @param options - Last known decision, failure callback and abort signal
+ */
+export async function applyErrorPolicy(
+  evaluate: (attempt: number) => Promise<PolicyDecision>,
+  policy: RuleErrorPolicy = 'deny',
+  options: ErrorPolicyOptions = {}
+): Promise<PolicyDecision> {
+  const { lastKnown, onRuleError, signal } = options;
+  const retries = typeof policy === 'object' ? Math.max(0, policy.retry) : 0;
+  const backoff = typeof policy === 'object' ? policy.backoff ?? DEFAULT_BACKOFF : 0;
+
+  let attempt = 1;
+  let result = await evaluate(attempt);
+  let failures = collectRuleFailures(result.ruleResults, attempt);
+  failures.forEach((failure) => onRuleError?.(failure));
+
+  while (!result.allowed && failures.length > 0 && attempt <= retries && !signal?.aborted) {
+    await wait(backoff * 2 ** (attempt - 1), signal);
+    if (signal?.aborted) {
+      break;
+    }
+
+    attempt++;
+    result = await evaluate(attempt);
+    failures = collectRuleFailures(result.ruleResults, attempt);
+    failures.forEach((failure) => onRuleError?.(failure));
+  }
+
+  if (failures.length === 0) {
+    return attempt > 1
+      ? { ...result, errorPolicy: { policy: 'retry', attempts: attempt, failures } }
+      : result;
+  }
+
+  if (result.allowed) {
+    // Failed branches didn't change the outcome
+    return result;
+  }
+
+  const fallback = typeof policy === 'object' ? policy.then ?? 'deny' : policy;
+  const allowed =
+    fallback === 'allow' ? true : fallback === 'last-known' ? lastKnown === true : false;
+
+  return {
+    allowed,
+    ruleResults: result.ruleResults,
+    errorPolicy: { policy: fallback, attempts: attempt, failures },
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Permission Expressions
+ *
+ * A small boolean grammar for string permission checks, e.g.
+ * `(admin or owner) and not archived` or `post.edit and flag:newEditor`.
+ *
+ * Grammar (keywords are case-insensitive; precedence: not > and > or):
+ *
+ *   expression := and ('or' and)*
+ *   and        := unary ('and' unary)*
+ *   unary      := 'not' unary | primary
+ *   primary    := '(' expression ')' | reference
+ *   reference  := 'flag:' name ('=' variant)? | key
+ *
+ * A key is resolved like any string check: named rule, granted permission
+ * or role. `flag:checkout=b` passes when the flag serves variant `b`.
+ * Parsed expressions are cached by source string.
+ *
+ * Strings without expression syntax (see `isPermissionExpression`) are
+ * plain keys, so keys with spaces such as `Super Admin` keep matching.
+ */
+
+/**
+ * Parsed permission expression
+ */
+export type PermissionExpression =
+  | { type: 'ref'; key: string }
+  | { type: 'flag'; name: string; variant?: string }
+  | { type: 'not'; operand: PermissionExpression }
+  | { type: 'and' | 'or'; operands: PermissionExpression[] };
+
+/**
+ * Thrown when a permission expression cannot be parsed
+ */
+export class PermissionExpressionError extends Error {
+  /** Source expression that failed to parse */
+  readonly expression: string;
+  /** Character offset of the offending token */
+  readonly position: number;
+
+  constructor(message: string, expression: string, position: number) {
+    super(`${message} at position ${position} in "${expression}"`);
+    this.name = 'PermissionExpressionError';
+    this.expression = expression;
+    this.position = position;
+  }
+}
+
+/** Prefix for feature flag references */
+const FLAG_PREFIX = 'flag:';
+
+/** Upper bound on cached parse results */
+const MAX_CACHE_SIZE = 500;
+
+type Token =
+  | { type: 'lparen' | 'rparen'; position: number }
+  | { type: 'and' | 'or' | 'not'; position: number }
+  | { type: 'word'; value: string; position: number };
+
+const KEYWORDS = new Set(['and', 'or', 'not']);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\(|\)|[^\s()]+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source))) {
+    const [text] = match;
+    const position = match.index;
+
+    if (text === '(') {
+      tokens.push({ type: 'lparen', position });
+    } else if (text === ')') {
+      tokens.push({ type: 'rparen', position });
+    } else {
+      const lower = text.toLowerCase();
+      tokens.push(
+        KEYWORDS.has(lower)
+          ? { type: lower as 'and' | 'or' | 'not', position }
+          : { type: 'word', value: text, position }
+      );
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over the token stream
+ */
+function parseTokens(source: string, tokens: Token[]): PermissionExpression {
+  let index = 0;
+
+  const peek = () => tokens[index];
+
+  const fail = (message: string): never => {
+    const token = peek();
+    throw new PermissionExpressionError(
+      message,
+      source,
+      token ? token.position : source.length
+    );
+  };
+
+  const parseNary = (
+    operator: 'and' | 'or',
+    parseOperand: () => PermissionExpression
+  ): PermissionExpression => {
+    const operands = [parseOperand()];
+
+    while (peek()?.type === operator) {
+      index++;
+      operands.push(parseOperand());
+    }
+
+    return operands.length === 1 ? operands[0] : { type: operator, operands };
+  };
+
+  const parsePrimary = (): PermissionExpression => {
+    const token = peek();
+
+    if (!token) {
+      return fail('Unexpected end of expression');
+    }
+
+    if (token.type === 'lparen') {
+      index++;
+      const inner = parseOr();
+      if (peek()?.type !== 'rparen') {
+        fail('Expected ")"');
+      }
+      index++;
+      return inner;
+    }
+
+    if (token.type === 'word') {
+      index++;
+      if (token.value.startsWith(FLAG_PREFIX)) {
+        const [name, ...variant] = token.value.slice(FLAG_PREFIX.length).split('=');
+        if (!name) {
+          fail('Missing flag name');
+        }
+        if (variant.length > 0) {
+          if (!variant.join('=')) {
+            fail('Missing flag variant');
+          }
+          return { type: 'flag', name, variant: variant.join('=') };
+        }
+        return { type: 'flag', name };
+      }
+      return { type: 'ref', key: token.value };
+    }
+
+    return fail(`Unexpected "${token.type === 'rparen' ? ')' : token.type}"`);
+  };
+
+  const parseUnary = (): PermissionExpression => {
+    if (peek()?.type === 'not') {
+      index++;
+      return { type: 'not', operand: parseUnary() };
+    }
+
+    return parsePrimary();
+  };
+
+  const parseAnd = () => parseNary('and', parseUnary);
+  const parseOr = (): PermissionExpression => parseNary('or', parseAnd);
+
+  const expression = parseOr();
+
+  if (index < tokens.length) {
+    fail('Unexpected token');
+  }
+
+  return expression;
+}
+
+/**
+ * Whether a string check uses expression syntax: parentheses, a flag
+ * reference, or an `and`/`or`/`not` keyword next to other words
+ *
+ * @example
+ * ```ts
+ * isPermissionExpression('admin or owner'); // true
+ * isPermissionExpression('Super Admin');    // false
+ * isPermissionExpression('not');            // false
+ * ```
+ */
+export function isPermissionExpression(source: string): boolean {
+  const words = source.trim().split(/\s+/);
+
+  return (
+    /[()]/.test(source) ||
+    words[0].startsWith(FLAG_PREFIX) ||
+    (words.length > 1 && words.some((word) => KEYWORDS.has(word.toLowerCase())))
+  );
+}
+
+const expressionCache = new Map<string, PermissionExpression>();
+
+/**
+ * Parses a permission expression, caching the result by source string
+ *
+ * @throws PermissionExpressionError if the expression is malformed
+ *
+ * @example
+ * ```ts
+ * parsePermissionExpression('(admin or owner) and not archived');
+ * ```
+ */
+export function parsePermissionExpression(source: string): PermissionExpression {
+  const cached = expressionCache.get(source);
+  if (cached) {
+    return cached;
+  }
+
+  const expression = parseTokens(source, tokenize(source));
+
+  if (expressionCache.size >= MAX_CACHE_SIZE) {
+    // Evict the oldest entry (Map preserves insertion order)
+    const oldest = expressionCache.keys().next().value;
+    if (oldest !== undefined) {
+      expressionCache.delete(oldest);
+    }
+  }
+  expressionCache.set(source, expression);
+
+  return expression;
+}
+
+/**
+ * Formats an expression back to a canonical string (used for result labels)
+ */
+export function formatPermissionExpression(expression: PermissionExpression): string {
+  switch (expression.type) {
+    case 'ref':
+      return expression.key;
+    case 'flag':
+      return expression.variant === undefined
+        ? `${FLAG_PREFIX}${expression.name}`
+        : `${FLAG_PREFIX}${expression.name}=${expression.variant}`;
+    case 'not': {
+      const operand = formatPermissionExpression(expression.operand);
+      return expression.operand.type === 'and' || expression.operand.type === 'or'
+        ? `not (${operand})`
+        : `not ${operand}`;
+    }
+    case 'and':
+    case 'or':
+      return expression.operands
+        .map((operand) => {
+          const formatted = formatPermissionExpression(operand);
+          // Parenthesize nested and/or groups
+          return operand.type === 'and' || operand.type === 'or'
+            ? `(${formatted})`
+            : formatted;
+        })
+        .join(` ${expression.type} `);
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Field-Level Permissions
+ *
+ * Decides which fields of a resource a user may access for an action.
+ * Field rules are declared per ability rule key; fields without a rule
+ * follow the ability itself, and no field is permitted when the ability
+ * is denied.
+ *
+ * @example
+ * ```ts
+ * const fieldRules = {
+ *   'employee.read': { salary: 'hr or manager', ssn: false },
+ * };
+ *
+ * const { fields } = await evaluatePermittedFields(
+ *   { action: 'read', subject: employee },
+ *   context,
+ *   rules,
+ *   { fieldRules }
+ * );
+ * const visible = pickPermitted(employee, fields);
+ * ```
+ */
+
+import type {
+  AbilityCheck,
+  EvaluationOptions,
+  FieldRule,
+  PermissionContext,
+  PermissionRulesMap,
+  RuleEvaluationResult,
+} from './types';
+import { evaluatePermission } from './ruleEngine';
+import { resolveAbility } from './ability';
+import { named } from './combinators';
+
+/**
+ * Result of a field-level evaluation
+ */
+export interface FieldPermissionsResult {
+  /** Whether the ability itself is allowed */
+  allowed: boolean;
+  /** Permitted fields, in resource key order followed by declared-only fields */
+  fields: string[];
+  /** Ability result followed by one result per field rule */
+  ruleResults: RuleEvaluationResult[];
+}
+
+/**
+ * Lists the fields to decide on: the resource's own keys, then fields that
+ * only appear in the field rules
+ */
+function collectFields(resource: unknown, declared: Record<string, unknown>): string[] {
+  const fields =
+    typeof resource === 'object' && resource !== null ? Object.keys(resource) : [];
+
+  Object.keys(declared).forEach((field) => {
+    if (!fields.includes(field)) {
+      fields.push(field);
+    }
+  });
+
+  return fields;
+}
+
+async function evaluateFieldRule<TUser, TResource>(
+  label: string,
+  rule: FieldRule<TUser, TResource>,
+  context: PermissionContext<TUser, TResource>,
+  rulesMap: PermissionRulesMap<TUser, TResource>,
+  options: EvaluationOptions
+): Promise<RuleEvaluationResult> {
+  if (typeof rule === 'boolean') {
+    return { rule: label, result: rule, duration: 0 };
+  }
+
+  if (typeof rule === 'function') {
+    const { ruleResults } = await evaluatePermission(
+      named(label, rule),
+      context,
+      rulesMap,
+      'any',
+      options
+    );
+    return ruleResults[0];
+  }
+
+  const startTime = performance.now();
+  const { allowed, ruleResults } = await evaluatePermission(
+    rule,
+    context,
+    rulesMap,
+    'any',
+    options
+  );
+
+  return {
+    rule: label,
+    result: allowed,
+    duration: performance.now() - startTime,
+    children: ruleResults,
+  };
+}
+
+/**
+ * Evaluates which fields of a resource are permitted for an ability
+ *
+ * Field rules come from `options.fieldRules` under the ability's rule key;
+ * their results are labelled `<key>:<field>`.
+ */
+export async function evaluatePermittedFields<TUser = any, TResource = any>(
+  ability: AbilityCheck<TResource>,
+  context: PermissionContext<TUser, TResource>,
+  rulesMap: PermissionRulesMap<TUser, TResource>,
+  options: EvaluationOptions = {}
+): Promise<FieldPermissionsResult> {
+  const base = await evaluatePermission(ability, context, rulesMap, 'any', options);
+
+  if (!base.allowed) {
+    return { allowed: false, fields: [], ruleResults: base.ruleResults };
+  }
+
+  // The ability resolved during evaluation, so this cannot throw here
+  const { key, resource } = resolveAbility(ability, context.resource, options);
+  const declared = options.fieldRules?.[key] ?? {};
+  const fieldContext: PermissionContext<TUser, TResource> = { ...context, resource };
+
+  const decisions = await Promise.all(
+    collectFields(resource, declared).map(async (field) => {
+      const rule = declared[field];
+      if (rule === undefined) {
+        return { field, result: undefined };
+      }
+      const result = await evaluateFieldRule(
+        `${key}:${field}`,
+        rule,
+        fieldContext,
+        rulesMap,
+        options
+      );
+      return { field, result };
+    })
+  );
+
+  const ruleResults = [...base.ruleResults];
+  const fields: string[] = [];
+
+  decisions.forEach(({ field, result }) => {
+    if (result) {
+      ruleResults.push(result);
+    }
+    if (!result || result.result) {
+      fields.push(field);
+    }
+  });
+
+  return { allowed: true, fields, ruleResults };
+}
+
+/**
+ * Returns a copy of the resource containing only the given fields
+ *
+ * @example
+ * ```ts
+ * pickPermitted({ name: 'Ada', salary: 100 }, ['name']); // { name: 'Ada' }
+ * ```
+ */
+export function pickPermitted<TResource extends object>(
+  resource: TResource,
+  fields: readonly string[]
+): Partial<TResource> {
+  const picked: Partial<TResource> = {};
+
+  fields.forEach((field) => {
+    if (Object.prototype.hasOwnProperty.call(resource, field)) {
+      (picked as Record<string, unknown>)[field] = (resource as Record<string, unknown>)[field];
+    }
+  });
+
+  return picked;
+}
@@ -0,0 +1,225 @@
+/**
+ * Feature Flags
+ *
+ * Resolves flag configurations for a user: static values, or definitions
+ * with variants, targeting rules (by role, attribute or custom condition)
+ * and deterministic percentage rollouts.
+ */
+
+import type {
+  FlagConfig,
+  FlagDefinition,
+  FlagEvaluation,
+  FlagRollout,
+  FlagTargetingRule,
+  FlagValue,
+  FlagsConfig,
+  PermissionContext,
+} from './types';
+import { resolvePolicyPath } from './policy';
+
+/** Variants of boolean flags (definitions without `variants`) */
+const BOOLEAN_VARIANTS: Record<string, FlagValue> = { on: true, off: false };
+
+/** Context path rollouts bucket on by default */
+const DEFAULT_BUCKET_BY = 'user.id';
+
+/**
+ * Resolved flags for a user
+ */
+export interface ResolvedFlags {
+  /** Value per flag */
+  values: Record<string, FlagValue>;
+  /** Variant per flag configured with a definition */
+  variants: Record<string, string>;
+  /** Full evaluation per flag */
+  evaluations: Record<string, FlagEvaluation>;
+}
+
+/**
+ * Whether a flag configuration is a definition rather than a static value
+ */
+export function isFlagDefinition(config: FlagConfig | undefined): config is FlagDefinition {
+  return typeof config === 'object' && config !== null && !Array.isArray(config);
+}
+
+/**
+ * Deterministic bucket in [0, 100) for a flag and bucketing value
+ * (FNV-1a hash of `flag:value`)
+ */
+export function flagBucket(flag: string, value: string): number {
+  const input = `${flag}:${value}`;
+  let hash = 0x811c9dc5;
+
+  for (let index = 0; index < input.length; index++) {
+    hash ^= input.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return ((hash >>> 0) % 10000) / 100;
+}
+
+/**
+ * Variant a rollout serves to the context, or undefined when the user
+ * falls outside every percentage (or has nothing to bucket on)
+ */
+function rolloutVariant(
+  flag: string,
+  rollout: number | FlagRollout,
+  ctx: PermissionContext
+): string | undefined {
+  const { percentages, bucketBy = DEFAULT_BUCKET_BY } =
+    typeof rollout === 'number' ? { percentages: { on: rollout } } : rollout;
+
+  const bucketValue = resolvePolicyPath(bucketBy, ctx);
+  if (bucketValue === undefined || bucketValue === null) {
+    return undefined;
+  }
+
+  const bucket = flagBucket(flag, String(bucketValue));
+  let threshold = 0;
+
+  for (const [variant, percentage] of Object.entries(percentages)) {
+    threshold += percentage;
+    if (bucket < threshold) {
+      return variant;
+    }
+  }
+
+  return undefined;
+}
+
+function matchesTarget(rule: FlagTargetingRule, ctx: PermissionContext): boolean {
+  if (rule.roles && !rule.roles.some((role) => ctx.roles.includes(role))) {
+    return false;
+  }
+
+  if (rule.attributes) {
+    const matches = Object.entries(rule.attributes).every(([path, expected]) => {
+      const actual = resolvePolicyPath(path, ctx);
+      return Array.isArray(expected)
+        ? expected.includes(actual as FlagValue)
+        : actual === expected;
+    });
+
+    if (!matches) {
+      return false;
+    }
+  }
+
+  return rule.match ? rule.match(ctx) : true;
+}
+
+/**
+ * Resolves one flag for a context (user, roles and permissions)
+ *
+ * @param name - Flag name (also salts the rollout bucket)
+ * @param config - Static value or definition (undefined for unknown flags)
+ * @param ctx - Context targeting rules and rollouts are matched against
+ */
+export function resolveFlag(
+  name: string,
+  config: FlagConfig | undefined,
+  ctx: PermissionContext
+): FlagEvaluation {
+  if (config === undefined) {
+    return { value: undefined, enabled: false, reason: 'unknown' };
+  }
+
+  if (!isFlagDefinition(config)) {
+    return { value: config, enabled: Boolean(config), reason: 'static' };
+  }
+
+  const serve = (variant: string, reason: FlagEvaluation['reason']): FlagEvaluation => {
+    const variants = config.variants ?? BOOLEAN_VARIANTS;
+    const value = Object.prototype.hasOwnProperty.call(variants, variant)
+      ? variants[variant]
+      : undefined;
+
+    return { value, variant, enabled: Boolean(value), reason };
+  };
+
+  const defaultVariant = config.defaultVariant ?? 'off';
+
+  for (const rule of config.targeting ?? []) {
+    if (!matchesTarget(rule, ctx)) {
+      continue;
+    }
+
+    if (rule.rollout === undefined) {
+      return serve(rule.variant ?? 'on', 'targeting');
+    }
+
+    // Matching users outside the rollout get the default variant
+    const variant = rolloutVariant(name, rule.rollout, ctx);
+    return variant ? serve(variant, 'rollout') : serve(defaultVariant, 'default');
+  }
+
+  if (config.rollout !== undefined) {
+    const variant = rolloutVariant(name, config.rollout, ctx);
+    if (variant) {
+      return serve(variant, 'rollout');
+    }
+  }
+
+  return serve(defaultVariant, 'default');
+}
+
+/**
+ * Whether a flag is on in a context, or serves the given variant
+ *
+ * Static flags match a variant by their value (`theme: 'dark'` matches `'dark'`).
+ */
+export function flagMatches(ctx: PermissionContext, name: string, variant?: string): boolean {
+  const value = ctx.flags[name];
+
+  if (variant === undefined) {
+    return Boolean(value);
+  }
+
+  const served = ctx.flagVariants?.[name];
+  if (served !== undefined) {
+    return served === variant;
+  }
+
+  return (
+    (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') &&
+    String(value) === variant
+  );
+}
+
+/**
+ * Resolves every configured flag for a context
+ *
+ * @example
+ * ```ts
+ * const flags = {
+ *   checkout: {
+ *     variants: { a: 'classic', b: 'one-page' },
+ *     defaultVariant: 'a',
+ *     rollout: { percentages: { b: 50 } },
+ *   },
+ * };
+ * const { values, variants } = resolveFlags(
+ *   flags,
+ *   createPermissionContext(user, undefined, roles, permissions, {})
+ * );
+ * ```
+ */
+export function resolveFlags(flags: FlagsConfig, ctx: PermissionContext): ResolvedFlags {
+  const resolved: ResolvedFlags = { values: {}, variants: {}, evaluations: {} };
+
+  for (const [name, config] of Object.entries(flags)) {
+    const evaluation = resolveFlag(name, config, ctx);
+
+    resolved.evaluations[name] = evaluation;
+    if (evaluation.value !== undefined) {
+      resolved.values[name] = evaluation.value;
+    }
+    if (evaluation.variant !== undefined) {
+      resolved.variants[name] = evaluation.variant;
+    }
+  }
+
+  return resolved;
+}
@@ -0,0 +1,316 @@
+/**
+ * Live Updates
+ *
+ * Push channels delivering permission diffs ("role editor revoked") to the
+ * PermissionsProvider, so users lose access without reloading. Diffs are
+ * JSON messages such as:
+ *
+ * ```json
+ * { "roles": { "remove": ["editor"] }, "flags": { "set": { "beta": false } } }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * const channel = new WebSocketPermissionChannel({ url: 'wss://api.example.com/permissions' });
+ *
+ * <PermissionsProvider user={user} roles={roles} liveUpdates={channel}>
+ *   <App />
+ * </PermissionsProvider>
+ * ```
+ */
+
+import type {
+  PermissionChannel,
+  PermissionData,
+  PermissionDiff,
+  PermissionListUpdate,
+  RevokedAccess,
+} from './types';
+
+type DiffListener<TUser> = (diff: PermissionDiff<TUser>) => void;
+
+function applyListUpdate(list: string[], update: PermissionListUpdate | undefined): string[] {
+  if (update === undefined) {
+    return list;
+  }
+
+  if (Array.isArray(update)) {
+    return update;
+  }
+
+  const removed = new Set(update.remove ?? []);
+  const next = list.filter((entry) => !removed.has(entry));
+
+  for (const entry of update.add ?? []) {
+    if (!next.includes(entry)) {
+      next.push(entry);
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Applies a diff to roles, permissions and flags
+ *
+ * Parts the diff doesn't touch keep their identity, so memoized values
+ * depending on them aren't recomputed.
+ */
+export function applyPermissionDiff<TUser = any>(
+  data: Required<PermissionData<TUser>>,
+  diff: PermissionDiff<TUser>
+): Required<PermissionData<TUser>> {
+  let flags = data.flags;
+
+  if (diff.flags) {
+    flags = { ...flags, ...diff.flags.set };
+    for (const name of diff.flags.remove ?? []) {
+      delete flags[name];
+    }
+  }
+
+  return {
+    roles: applyListUpdate(data.roles, diff.roles),
+    permissions: applyListUpdate(data.permissions, diff.permissions),
+    flags,
+  };
+}
+
+/**
+ * Roles and permissions present before an update but not after it
+ * (undefined when nothing was taken away)
+ */
+export function revokedAccess(
+  previous: Pick<PermissionData, 'roles' | 'permissions'>,
+  next: Pick<PermissionData, 'roles' | 'permissions'>
+): RevokedAccess | undefined {
+  const lost = (before: string[] = [], after: string[] = []) =>
+    before.filter((entry) => !after.includes(entry));
+
+  const revoked = {
+    roles: lost(previous.roles, next.roles),
+    permissions: lost(previous.permissions, next.permissions),
+  };
+
+  return revoked.roles.length > 0 || revoked.permissions.length > 0 ? revoked : undefined;
+}
+
+/**
+ * Options for channels receiving serialized messages
+ */
+export interface ChannelMessageOptions<TUser = any> {
+  /**
+   * Maps a message to a diff, or undefined to ignore it
+   * (defaults to parsing strings as JSON)
+   */
+  parse?: (data: any) => PermissionDiff<TUser> | undefined;
+  /** Called when a message can't be parsed */
+  onError?: (error: unknown) => void;
+}
+
+function receiveMessage<TUser>(
+  data: unknown,
+  options: ChannelMessageOptions<TUser>,
+  dispatch: DiffListener<TUser>
+): void {
+  let diff: PermissionDiff<TUser> | undefined;
+
+  try {
+    diff = options.parse
+      ? options.parse(data)
+      : typeof data === 'string'
+        ? JSON.parse(data)
+        : (data as PermissionDiff<TUser>);
+  } catch (error) {
+    options.onError?.(error);
+    return;
+  }
+
+  if (diff) {
+    dispatch(diff);
+  }
+}
+
+/**
+ * Channel sharing one connection between its subscribers: connected on
+ * the first subscription and disconnected after the last
+ */
+abstract class ConnectedChannel<TUser> implements PermissionChannel<TUser> {
+  private listeners = new Set<DiffListener<TUser>>();
+  private disconnect?: () => void;
+
+  subscribe(listener: DiffListener<TUser>): () => void {
+    this.listeners.add(listener);
+
+    if (!this.disconnect) {
+      this.disconnect = this.connect((diff) => this.listeners.forEach((each) => each(diff)));
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.disconnect) {
+        this.disconnect();
+        this.disconnect = undefined;
+      }
+    };
+  }
+
+  /**
+   * Opens the connection; returns a function closing it
+   */
+  protected abstract connect(dispatch: DiffListener<TUser>): () => void;
+}
+
+/**
+ * Options for `WebSocketPermissionChannel`
+ */
+export interface WebSocketChannelOptions<TUser = any> extends ChannelMessageOptions<TUser> {
+  /** WebSocket URL */
+  url: string;
+  /** WebSocket subprotocols */
+  protocols?: string | string[];
+  /** Delay in ms before reconnecting a dropped socket (defaults to 1000; 0 disables) */
+  reconnectDelay?: number;
+  /** Creates the socket (defaults to `new WebSocket(url, protocols)`) */
+  createSocket?: (url: string, protocols?: string | string[]) => WebSocket;
+}
+
+/**
+ * Channel receiving diffs over a WebSocket, reconnecting when it drops
+ */
+export class WebSocketPermissionChannel<TUser = any> extends ConnectedChannel<TUser> {
+  constructor(private options: WebSocketChannelOptions<TUser>) {
+    super();
+  }
+
+  protected connect(dispatch: DiffListener<TUser>): () => void {
+    const {
+      url,
+      protocols,
+      reconnectDelay = 1000,
+      createSocket = (socketUrl, socketProtocols) => new WebSocket(socketUrl, socketProtocols),
+    } = this.options;
+
+    let socket: WebSocket;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const open = () => {
+      socket = createSocket(url, protocols);
+      socket.addEventListener('message', (event) =>
+        receiveMessage(event.data, this.options, dispatch)
+      );
+      socket.addEventListener('close', () => {
+        if (!closed && reconnectDelay > 0) {
+          timer = setTimeout(open, reconnectDelay);
+        }
+      });
+    };
+
+    open();
+
+    return () => {
+      closed = true;
+      clearTimeout(timer);
+      socket.close();
+    };
+  }
+}
+
+/**
+ * Options for `EventSourcePermissionChannel`
+ */
+export interface EventSourceChannelOptions<TUser = any> extends ChannelMessageOptions<TUser> {
+  /** Server-sent events URL */
+  url: string;
+  /** Event type carrying diffs (defaults to 'message') */
+  event?: string;
+  /** Send cookies with cross-origin requests */
+  withCredentials?: boolean;
+  /** Creates the event source (defaults to `new EventSource(url, { withCredentials })`) */
+  createEventSource?: (url: string, init: EventSourceInit) => EventSource;
+}
+
+/**
+ * Channel receiving diffs as server-sent events (the browser reconnects
+ * dropped connections)
+ */
+export class EventSourcePermissionChannel<TUser = any> extends ConnectedChannel<TUser> {
+  constructor(private options: EventSourceChannelOptions<TUser>) {
+    super();
+  }
+
+  protected connect(dispatch: DiffListener<TUser>): () => void {
+    const {
+      url,
+      event = 'message',
+      withCredentials = false,
+      createEventSource = (sourceUrl, init) => new EventSource(sourceUrl, init),
+    } = this.options;
+
+    const source = createEventSource(url, { withCredentials });
+    source.addEventListener(event, (message) =>
+      receiveMessage((message as MessageEvent).data, this.options, dispatch)
+    );
+
+    return () => source.close();
+  }
+}
+
+/**
+ * Channel receiving diffs from other tabs and windows of the same origin
+ *
+ * @example
+ * ```ts
+ * // The tab holding the WebSocket relays diffs to the others
+ * const tabs = new BroadcastPermissionChannel();
+ * socketChannel.subscribe((diff) => tabs.publish(diff));
+ * ```
+ */
+export class BroadcastPermissionChannel<TUser = any> extends ConnectedChannel<TUser> {
+  constructor(
+    private name: string = 'permissions',
+    private options: ChannelMessageOptions<TUser> = {}
+  ) {
+    super();
+  }
+
+  protected connect(dispatch: DiffListener<TUser>): () => void {
+    const channel = new BroadcastChannel(this.name);
+    channel.addEventListener('message', (event) =>
+      receiveMessage(event.data, this.options, dispatch)
+    );
+
+    return () => channel.close();
+  }
+
+  /**
+   * Sends a diff to the other tabs (subscribers in this tab don't receive it)
+   */
+  publish(diff: PermissionDiff<TUser>): void {
+    const channel = new BroadcastChannel(this.name);
+    channel.postMessage(diff);
+    channel.close();
+  }
+}
+
+/**
+ * Channel delivering diffs published in memory, for tests and local tools
+ */
+export class InMemoryPermissionChannel<TUser = any> implements PermissionChannel<TUser> {
+  private listeners = new Set<DiffListener<TUser>>();
+
+  subscribe(listener: DiffListener<TUser>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Delivers a diff to every subscriber
+   */
+  publish(diff: PermissionDiff<TUser>): void {
+    this.listeners.forEach((listener) => listener(diff));
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Request Middleware
+ *
+ * Express/Connect-style middleware: `authorizeRequests` gives every request
+ * an authorizer for its user, and `requirePermission` guards routes with a
+ * check, passing a `ForbiddenError` (status 403) to the error handler when
+ * it is denied.
+ *
+ * @example
+ * ```ts
+ * app.use(
+ *   authorizeRequests({
+ *     rules,
+ *     roleDefinitions,
+ *     resolve: (req) => ({ user: req.user, roles: req.user?.roles }),
+ *   })
+ * );
+ *
+ * app.delete(
+ *   '/posts/:id',
+ *   requirePermission('post.delete', { resource: (req) => loadPost(req.params.id) }),
+ *   deletePost
+ * );
+ *
+ * app.get('/posts', async (req, res) => {
+ *   res.json(await req.authorizer.filter(await listPosts(), 'post.view'));
+ * });
+ * ```
+ */
+
+import type { PermissionCheck, PermissionData } from './types';
+import { createAuthorizer } from './authorizer';
+import type { Authorizer, AuthorizerConfig } from './authorizer';
+
+/**
+ * Continues to the next middleware, or to the error handler with an error
+ */
+export type NextFunction = (error?: unknown) => void;
+
+/**
+ * Express/Connect-style middleware
+ */
+export type RequestMiddleware<TRequest> = (req: TRequest, res: unknown, next: NextFunction) => void;
+
+/**
+ * A request `authorizeRequests` has run for
+ */
+export interface AuthorizedRequest<TUser = any> {
+  authorizer?: Authorizer<TUser>;
+}
+
+/**
+ * The user of a request, with the roles, permissions and flags they hold
+ */
+export interface RequestPermissions<TUser = any> extends PermissionData<TUser> {
+  user: TUser;
+}
+
+/**
+ * Options for `authorizeRequests`
+ */
+export interface AuthorizeRequestsOptions<TUser = any, TRequest = any>
+  extends Omit<AuthorizerConfig<TUser>, 'user'> {
+  /**
+   * Reads the user, roles, permissions and flags from a request (e.g. a
+   * session or decoded token); fields it omits fall back to the options
+   */
+  resolve: (req: TRequest) => RequestPermissions<TUser> | Promise<RequestPermissions<TUser>>;
+}
+
+/**
+ * Middleware attaching an authorizer for the request's user as `req.authorizer`
+ *
+ * Errors thrown by `resolve` are passed to the error handler.
+ */
+export function authorizeRequests<TUser = any, TRequest extends object = any>(
+  options: AuthorizeRequestsOptions<TUser, TRequest>
+): RequestMiddleware<TRequest & AuthorizedRequest<TUser>> {
+  const { resolve, ...config } = options;
+
+  return (req, _res, next) => {
+    Promise.resolve()
+      .then(() => resolve(req))
+      .then(({ user, roles, permissions, flags }) => {
+        req.authorizer = createAuthorizer({
+          ...config,
+          user,
+          roles: roles ?? config.roles,
+          permissions: permissions ?? config.permissions,
+          flags: flags ?? config.flags,
+        });
+      })
+      .then(() => next(), next);
+  };
+}
+
+/**
+ * Options for `requirePermission`
+ */
+export interface RequirePermissionOptions<TResource = any, TRequest = any> {
+  /** Reads (or loads) the resource to check from the request */
+  resource?: (req: TRequest) => TResource | Promise<TResource>;
+  /** Evaluation mode for arrays: 'any' (OR) or 'all' (AND) */
+  mode?: 'any' | 'all';
+}
+
+/**
+ * Middleware continuing only when a check is allowed for the request's
+ * user; otherwise the error handler receives a `ForbiddenError`
+ *
+ * Requires `authorizeRequests` to run first.
+ */
+export function requirePermission<TUser = any, TResource = any, TRequest extends object = any>(
+  check: PermissionCheck<TUser, TResource>,
+  options: RequirePermissionOptions<TResource, TRequest> = {}
+): RequestMiddleware<TRequest & AuthorizedRequest<TUser>> {
+  const { resource, mode } = options;
+
+  return (req, _res, next) => {
+    const { authorizer } = req;
+
+    if (!authorizer) {
+      next(new Error('requirePermission needs authorizeRequests to run before it'));
+      return;
+    }
+
+    Promise.resolve()
+      .then(() => resource?.(req))
+      .then((loaded) => authorizer.assert(check, loaded, mode))
+      .then(() => next(), next);
+  };
+}
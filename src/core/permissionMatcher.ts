@@ -0,0 +1,274 @@
+/**
+ * Permission Matcher
+ *
+ * Segment-aware wildcard matching for granted permissions.
+ * A granted permission such as `post.*` or `billing:**` is compiled once
+ * into a trie so lookups cost O(segments) instead of scanning every grant.
+ * Grants prefixed with `!` (e.g. `!post.delete`) are explicit denies.
+ */
+
+/**
+ * Options controlling how permission strings are split into segments
+ */
+export interface PermissionMatchOptions {
+  /**
+   * Segment separator(s). Defaults to both `.` and `:`,
+   * so `post.edit` and `billing:invoice:read` are both segmented.
+   */
+  separator?: string | string[];
+}
+
+/**
+ * The first granted permission (in array order) covering a permission
+ */
+export interface PermissionGrantMatch {
+  /** The granted entry as written, including a leading `!` for denies */
+  grant: string;
+  /** Whether the entry grants or denies */
+  effect: 'allow' | 'deny';
+}
+
+/**
+ * Precompiled matcher for a set of granted permissions
+ */
+export interface PermissionMatcher {
+  /** Granted permissions the matcher was compiled from */
+  readonly granted: readonly string[];
+  /** Returns true if the permission is covered by any (non-negated) granted permission */
+  matches(permission: string): boolean;
+  /** Returns the first negated grant (`!…`) covering the permission, if any */
+  deniedBy(permission: string): string | undefined;
+  /** Returns the first grant, allow or deny, covering the permission */
+  firstMatch(permission: string): PermissionGrantMatch | undefined;
+}
+
+/** Matches exactly one segment */
+const SINGLE_WILDCARD = '*';
+
+/** Matches zero or more segments */
+const MULTI_WILDCARD = '**';
+
+/** Prefix marking a granted permission as an explicit deny */
+const DENY_PREFIX = '!';
+
+const DEFAULT_SEPARATORS = ['.', ':'];
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  /** Lowest grant index terminating at this node (Infinity if none) */
+  index: number;
+}
+
+/**
+ * Exact grants plus a wildcard trie, each entry remembering its grant index
+ */
+interface GrantIndex {
+  exact: Map<string, number>;
+  root: TrieNode;
+  hasPatterns: boolean;
+}
+
+function createNode(): TrieNode {
+  return { children: new Map(), index: Infinity };
+}
+
+function createGrantIndex(): GrantIndex {
+  return { exact: new Map(), root: createNode(), hasPatterns: false };
+}
+
+/**
+ * Builds a function that splits a permission string into segments
+ */
+function createSplitter(separator: string | string[] | undefined): (value: string) => string[] {
+  const separators = separator === undefined
+    ? DEFAULT_SEPARATORS
+    : Array.isArray(separator)
+    ? separator
+    : [separator];
+
+  if (separators.length === 1) {
+    const single = separators[0];
+    return (value) => value.split(single);
+  }
+
+  const pattern = new RegExp(
+    separators.map((s) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')
+  );
+
+  return (value) => value.split(pattern);
+}
+
+function isWildcardSegment(segment: string): boolean {
+  return segment === SINGLE_WILDCARD || segment === MULTI_WILDCARD;
+}
+
+function insert(index: GrantIndex, permission: string, segments: string[], position: number) {
+  if (!segments.some(isWildcardSegment)) {
+    if (!index.exact.has(permission)) {
+      index.exact.set(permission, position);
+    }
+    return;
+  }
+
+  index.hasPatterns = true;
+  let node = index.root;
+  for (const segment of segments) {
+    let child = node.children.get(segment);
+    if (!child) {
+      child = createNode();
+      node.children.set(segment, child);
+    }
+    node = child;
+  }
+  node.index = Math.min(node.index, position);
+}
+
+/**
+ * Walks the trie, consuming segments from `index` onwards, and returns the
+ * lowest grant index among all matching patterns (Infinity if none match)
+ */
+function walk(node: TrieNode, segments: string[], index: number): number {
+  let best = index === segments.length ? node.index : Infinity;
+
+  // `**` may consume any number of segments, including none
+  const multi = node.children.get(MULTI_WILDCARD);
+  if (multi) {
+    for (let next = index; next <= segments.length; next++) {
+      best = Math.min(best, walk(multi, segments, next));
+    }
+  }
+
+  if (index === segments.length) {
+    return best;
+  }
+
+  const exact = node.children.get(segments[index]);
+  if (exact) {
+    best = Math.min(best, walk(exact, segments, index + 1));
+  }
+
+  const single = node.children.get(SINGLE_WILDCARD);
+  if (single) {
+    best = Math.min(best, walk(single, segments, index + 1));
+  }
+
+  return best;
+}
+
+/**
+ * Returns the lowest grant index covering the permission (Infinity if none)
+ */
+function lookup(
+  index: GrantIndex,
+  permission: string,
+  split: (value: string) => string[]
+): number {
+  const exact = index.exact.get(permission) ?? Infinity;
+
+  if (!index.hasPatterns) {
+    return exact;
+  }
+
+  return Math.min(exact, walk(index.root, split(permission), 0));
+}
+
+/**
+ * Compiles granted permissions into a reusable matcher
+ *
+ * Grants without wildcards are stored in a Map for O(1) lookups; grants with
+ * `*` (one segment) or `**` (any depth) are inserted into a segment trie.
+ * Grants prefixed with `!` are compiled separately as explicit denies.
+ *
+ * @example
+ * ```ts
+ * const matcher = compilePermissionMatcher(['post.*', 'billing:**', '!post.delete']);
+ * matcher.matches('post.edit');             // true
+ * matcher.matches('post.comment.edit');     // false
+ * matcher.matches('billing:invoice:read');  // true
+ * matcher.deniedBy('post.delete');          // '!post.delete'
+ * ```
+ */
+export function compilePermissionMatcher(
+  granted: readonly string[],
+  options: PermissionMatchOptions = {}
+): PermissionMatcher {
+  const split = createSplitter(options.separator);
+  const allow = createGrantIndex();
+  const deny = createGrantIndex();
+
+  granted.forEach((entry, position) => {
+    if (entry.startsWith(DENY_PREFIX)) {
+      const permission = entry.slice(DENY_PREFIX.length);
+      insert(deny, permission, split(permission), position);
+    } else {
+      insert(allow, entry, split(entry), position);
+    }
+  });
+
+  return {
+    granted,
+    matches(permission: string): boolean {
+      return lookup(allow, permission, split) !== Infinity;
+    },
+    deniedBy(permission: string): string | undefined {
+      const position = lookup(deny, permission, split);
+      return position === Infinity ? undefined : granted[position];
+    },
+    firstMatch(permission: string): PermissionGrantMatch | undefined {
+      const allowPosition = lookup(allow, permission, split);
+      const denyPosition = lookup(deny, permission, split);
+      const position = Math.min(allowPosition, denyPosition);
+
+      if (position === Infinity) {
+        return undefined;
+      }
+
+      return {
+        grant: granted[position],
+        effect: position === denyPosition ? 'deny' : 'allow',
+      };
+    },
+  };
+}
+
+/**
+ * Checks a single permission against a single (possibly wildcard) pattern
+ */
+export function matchPermission(
+  pattern: string,
+  permission: string,
+  options: PermissionMatchOptions = {}
+): boolean {
+  return compilePermissionMatcher([pattern], options).matches(permission);
+}
+
+// Matchers are cached per granted array so that repeated checks against the
+// same provider state reuse one compiled trie
+const matcherCache = new WeakMap<readonly string[], Map<string, PermissionMatcher>>();
+
+/**
+ * Returns a cached matcher for the granted permissions array
+ *
+ * The cache is keyed by array identity, so callers should keep the
+ * array reference stable (PermissionsProvider does).
+ */
+export function getPermissionMatcher(
+  granted: readonly string[],
+  options: PermissionMatchOptions = {}
+): PermissionMatcher {
+  const separatorKey = JSON.stringify(options.separator ?? DEFAULT_SEPARATORS);
+  let bySeparator = matcherCache.get(granted);
+
+  if (!bySeparator) {
+    bySeparator = new Map();
+    matcherCache.set(granted, bySeparator);
+  }
+
+  let matcher = bySeparator.get(separatorKey);
+  if (!matcher) {
+    matcher = compilePermissionMatcher(granted, options);
+    bySeparator.set(separatorKey, matcher);
+  }
+
+  return matcher;
+}
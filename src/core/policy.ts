@@ -0,0 +1,382 @@
+/**
+ * Declarative Policies
+ *
+ * Compiles a serializable JSON policy document into a PermissionRulesMap,
+ * so authorization policy can be owned by a backend and loaded at runtime.
+ *
+ * @example
+ * ```json
+ * {
+ *   "version": 1,
+ *   "rules": {
+ *     "post.edit": {
+ *       "any": [
+ *         { "role": "admin" },
+ *         { "all": [
+ *           { "path": "resource.ownerId", "op": "eq", "ref": "user.id" },
+ *           { "path": "resource.status", "op": "in", "value": ["draft", "review"] }
+ *         ] }
+ *       ]
+ *     },
+ *     "post.publish": { "all": [{ "rule": "post.edit" }, { "flag": "publishing" }] }
+ *   }
+ * }
+ * ```
+ */
+
+import type { PermissionContext, PermissionRule, PermissionRulesMap } from './types';
+import { and, or, not, ifFlag, hasRole, hasPermission, ref, named } from './combinators';
+
+/**
+ * Comparison operators available in policy conditions
+ */
+export type PolicyOperator =
+  | 'eq'
+  | 'ne'
+  | 'in'
+  | 'contains'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'exists';
+
+/**
+ * A policy condition
+ *
+ * Paths start at one of `user`, `resource`, `roles`, `permissions` or `flags`
+ * (e.g. `resource.ownerId`). A comparison takes either a literal `value` or
+ * a `ref` to another path; `exists` takes an optional boolean `value`.
+ * `permission` conditions resolve like string checks, so `!permission`
+ * grants deny them.
+ */
+export type PolicyCondition =
+  | { all: PolicyCondition[] }
+  | { any: PolicyCondition[] }
+  | { not: PolicyCondition }
+  | { role: string }
+  | { permission: string }
+  | { flag: string }
+  | { rule: string }
+  | { path: string; op: PolicyOperator; value?: unknown; ref?: string };
+
+/**
+ * Serializable policy document
+ */
+export interface PolicyDocument {
+  /** Policy format version (currently 1) */
+  version?: 1;
+  /** Rule key to condition */
+  rules: Record<string, PolicyCondition>;
+}
+
+/**
+ * A single problem found while validating a policy
+ */
+export interface PolicyIssue {
+  /** Location of the problem, e.g. `rules["post.edit"].any[1].op` */
+  path: string;
+  /** Description of the problem */
+  message: string;
+}
+
+/**
+ * Thrown when a policy document is malformed
+ */
+export class PolicyValidationError extends Error {
+  /** Every problem found in the document */
+  readonly issues: PolicyIssue[];
+
+  constructor(issues: PolicyIssue[]) {
+    super(
+      `Invalid permission policy:\n${issues
+        .map((issue) => `  - ${issue.path}: ${issue.message}`)
+        .join('\n')}`
+    );
+    this.name = 'PolicyValidationError';
+    this.issues = issues;
+  }
+}
+
+const OPERATORS: PolicyOperator[] = ['eq', 'ne', 'in', 'contains', 'gt', 'gte', 'lt', 'lte', 'exists'];
+
+const PATH_ROOTS = ['user', 'resource', 'roles', 'permissions', 'flags'];
+
+const CONDITION_KINDS = ['all', 'any', 'not', 'role', 'permission', 'flag', 'rule', 'path'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validatePath(value: unknown, location: string, issues: PolicyIssue[]) {
+  if (typeof value !== 'string' || value.length === 0) {
+    issues.push({ path: location, message: 'must be a non-empty path string' });
+    return;
+  }
+
+  const root = value.split('.')[0];
+  if (!PATH_ROOTS.includes(root)) {
+    issues.push({
+      path: location,
+      message: `must start with one of ${PATH_ROOTS.join(', ')} (got "${root}")`,
+    });
+  }
+}
+
+function validateCondition(condition: unknown, location: string, issues: PolicyIssue[]) {
+  if (!isPlainObject(condition)) {
+    issues.push({ path: location, message: 'must be a condition object' });
+    return;
+  }
+
+  const kinds = Object.keys(condition).filter((key) => CONDITION_KINDS.includes(key));
+  if (kinds.length !== 1) {
+    issues.push({
+      path: location,
+      message:
+        kinds.length === 0
+          ? `must contain one of ${CONDITION_KINDS.join(', ')}`
+          : `must contain only one of ${kinds.join(', ')}`,
+    });
+    return;
+  }
+
+  const [kind] = kinds;
+  const allowedKeys = kind === 'path' ? ['path', 'op', 'value', 'ref'] : [kind];
+  Object.keys(condition)
+    .filter((key) => !allowedKeys.includes(key))
+    .forEach((key) => issues.push({ path: `${location}.${key}`, message: 'is not allowed here' }));
+
+  switch (kind) {
+    case 'all':
+    case 'any': {
+      const operands = condition[kind];
+      if (!Array.isArray(operands) || operands.length === 0) {
+        issues.push({ path: `${location}.${kind}`, message: 'must be a non-empty array' });
+        return;
+      }
+      operands.forEach((operand, index) =>
+        validateCondition(operand, `${location}.${kind}[${index}]`, issues)
+      );
+      return;
+    }
+
+    case 'not':
+      validateCondition(condition.not, `${location}.not`, issues);
+      return;
+
+    case 'role':
+    case 'permission':
+    case 'flag':
+    case 'rule':
+      if (typeof condition[kind] !== 'string' || condition[kind] === '') {
+        issues.push({ path: `${location}.${kind}`, message: 'must be a non-empty string' });
+      }
+      return;
+
+    case 'path': {
+      validatePath(condition.path, `${location}.path`, issues);
+
+      const op = condition.op;
+      if (!OPERATORS.includes(op as PolicyOperator)) {
+        issues.push({
+          path: `${location}.op`,
+          message: `must be one of ${OPERATORS.join(', ')}`,
+        });
+        return;
+      }
+
+      const hasValue = 'value' in condition;
+      const hasRef = 'ref' in condition;
+
+      if (op === 'exists') {
+        if (hasRef) {
+          issues.push({ path: `${location}.ref`, message: 'is not allowed with "exists"' });
+        }
+        if (hasValue && typeof condition.value !== 'boolean') {
+          issues.push({ path: `${location}.value`, message: 'must be a boolean for "exists"' });
+        }
+        return;
+      }
+
+      if (hasValue === hasRef) {
+        issues.push({ path: location, message: 'must have exactly one of "value" or "ref"' });
+        return;
+      }
+
+      if (hasRef) {
+        validatePath(condition.ref, `${location}.ref`, issues);
+      } else if (op === 'in' && !Array.isArray(condition.value)) {
+        issues.push({ path: `${location}.value`, message: 'must be an array for "in"' });
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Validates a policy document and returns every issue found
+ */
+export function validatePolicy(document: unknown): PolicyIssue[] {
+  const issues: PolicyIssue[] = [];
+
+  if (!isPlainObject(document)) {
+    return [{ path: '$', message: 'policy must be an object' }];
+  }
+
+  if (document.version !== undefined && document.version !== 1) {
+    issues.push({ path: 'version', message: `unsupported version ${JSON.stringify(document.version)}` });
+  }
+
+  if (!isPlainObject(document.rules)) {
+    issues.push({ path: 'rules', message: 'must be an object mapping rule keys to conditions' });
+    return issues;
+  }
+
+  Object.entries(document.rules).forEach(([key, condition]) =>
+    validateCondition(condition, `rules[${JSON.stringify(key)}]`, issues)
+  );
+
+  return issues;
+}
+
+/**
+ * Resolves a dotted path against the permission context
+ */
+export function resolvePolicyPath(path: string, ctx: PermissionContext<any, any>): unknown {
+  const [root, ...segments] = path.split('.');
+  let value: unknown = (ctx as unknown as Record<string, unknown>)[root];
+
+  for (const segment of segments) {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+
+  return value;
+}
+
+function compare(op: PolicyOperator, left: unknown, right: unknown): boolean {
+  switch (op) {
+    case 'eq':
+      return left === right;
+    case 'ne':
+      return left !== right;
+    case 'in':
+      return Array.isArray(right) && right.includes(left);
+    case 'contains':
+      if (Array.isArray(left)) {
+        return left.includes(right);
+      }
+      return typeof left === 'string' && typeof right === 'string' && left.includes(right);
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const comparable =
+        (typeof left === 'number' && typeof right === 'number') ||
+        (typeof left === 'string' && typeof right === 'string');
+      if (!comparable) {
+        return false;
+      }
+      const a = left as number | string;
+      const b = right as number | string;
+      return op === 'gt' ? a > b : op === 'gte' ? a >= b : op === 'lt' ? a < b : a <= b;
+    }
+    case 'exists':
+      return left !== undefined && left !== null;
+  }
+}
+
+function compileCondition(condition: PolicyCondition): PermissionRule {
+  if ('all' in condition) {
+    return and(...condition.all.map(compileCondition));
+  }
+  if ('any' in condition) {
+    return or(...condition.any.map(compileCondition));
+  }
+  if ('not' in condition) {
+    return not(compileCondition(condition.not));
+  }
+  if ('role' in condition) {
+    return hasRole(condition.role);
+  }
+  if ('permission' in condition) {
+    return hasPermission(condition.permission);
+  }
+  if ('flag' in condition) {
+    return ifFlag(condition.flag);
+  }
+  if ('rule' in condition) {
+    return ref(condition.rule);
+  }
+
+  const { path, op } = condition;
+
+  if (op === 'exists') {
+    const expected = condition.value !== false;
+    return named(`${path} ${expected ? 'exists' : 'not exists'}`, (ctx) =>
+      compare('exists', resolvePolicyPath(path, ctx), undefined) === expected
+    );
+  }
+
+  if (condition.ref !== undefined) {
+    const refPath = condition.ref;
+    return named(`${path} ${op} ${refPath}`, (ctx) =>
+      compare(op, resolvePolicyPath(path, ctx), resolvePolicyPath(refPath, ctx))
+    );
+  }
+
+  const value = condition.value;
+  return named(`${path} ${op} ${JSON.stringify(value)}`, (ctx) =>
+    compare(op, resolvePolicyPath(path, ctx), value)
+  );
+}
+
+/**
+ * Compiles a policy document (object or JSON string) into a rules map
+ *
+ * Compiled rules are built from the rule combinators, so evaluation
+ * results show which condition of a policy passed or failed.
+ *
+ * @throws PolicyValidationError if the document is malformed
+ *
+ * @example
+ * ```ts
+ * const policy = await fetch('/api/policy').then((res) => res.json());
+ * const rules = compilePolicy(policy);
+ *
+ * <PermissionsRoot user={user} rules={rules}>...</PermissionsRoot>
+ * ```
+ */
+export function compilePolicy<TUser = any, TResource = any>(
+  policy: PolicyDocument | string
+): PermissionRulesMap<TUser, TResource> {
+  let document: unknown = policy;
+
+  if (typeof policy === 'string') {
+    try {
+      document = JSON.parse(policy);
+    } catch (error) {
+      throw new PolicyValidationError([
+        {
+          path: '$',
+          message: `invalid JSON (${error instanceof Error ? error.message : String(error)})`,
+        },
+      ]);
+    }
+  }
+
+  const issues = validatePolicy(document);
+  if (issues.length > 0) {
+    throw new PolicyValidationError(issues);
+  }
+
+  const rules: PermissionRulesMap<TUser, TResource> = {};
+  Object.entries((document as PolicyDocument).rules).forEach(([key, condition]) => {
+    rules[key] = compileCondition(condition);
+  });
+
+  return rules;
+}
@@ -0,0 +1,287 @@
+/**
+ * Relationship-Based Access Control
+ *
+ * Zanzibar-style relationship tuples ("user:alice is editor of folder:docs",
+ * "folder:docs is parent of document:readme") with userset rewrites, so
+ * sharing models can be checked through the relationship graph.
+ *
+ * Objects and subjects are `type:id` strings. A subject may also be a
+ * userset such as `group:eng#member` (every member of group eng).
+ *
+ * @example
+ * ```ts
+ * const store = new InMemoryRelationshipStore([
+ *   { subject: 'user:alice', relation: 'editor', object: 'folder:docs' },
+ *   { subject: 'folder:docs', relation: 'parent', object: 'document:readme' },
+ * ]);
+ *
+ * const schema = {
+ *   folder: { viewer: { includes: ['editor'] } },
+ *   document: {
+ *     viewer: { includes: ['editor'], inherit: [{ via: 'parent', relation: 'viewer' }] },
+ *     editor: { inherit: [{ via: 'parent', relation: 'editor' }] },
+ *   },
+ * };
+ *
+ * const rules = {
+ *   'document.view': hasRelation('viewer', { store, schema }),
+ * };
+ * ```
+ */
+
+import type { PermissionRule } from './types';
+import { named } from './combinators';
+import { detectSubjectType } from './ability';
+
+/**
+ * A relationship tuple: `subject` has `relation` on `object`
+ */
+export interface RelationTuple {
+  /** Subject (`user:alice`) or userset (`group:eng#member`) */
+  subject: string;
+  /** Relation name (e.g. `editor`) */
+  relation: string;
+  /** Object (`document:readme`) */
+  object: string;
+}
+
+/**
+ * Source of relationship tuples
+ */
+export interface RelationshipStore {
+  /** Returns the tuples for a relation on an object */
+  read(object: string, relation: string): RelationTuple[] | Promise<RelationTuple[]>;
+}
+
+/**
+ * Userset rewrite for one relation of an object type
+ */
+export interface RelationDefinition {
+  /** Relations on the same object that imply this one ("viewer includes editor") */
+  includes?: string[];
+  /** Relations inherited from related objects ("viewer of the parent folder") */
+  inherit?: Array<{
+    /** Relation on this object pointing at the related objects (e.g. `parent`) */
+    via: string;
+    /** Relation to check on each related object */
+    relation: string;
+  }>;
+}
+
+/**
+ * Userset rewrites keyed by object type, then relation
+ */
+export type RelationSchema = Record<string, Record<string, RelationDefinition>>;
+
+/**
+ * Options for relationship checks
+ */
+export interface RelationCheckOptions {
+  /** Userset rewrites (direct tuples only when omitted) */
+  schema?: RelationSchema;
+  /** Maximum traversal depth (defaults to 25) */
+  maxDepth?: number;
+}
+
+/**
+ * Thrown when a relationship check exceeds the depth limit
+ */
+export class RelationDepthError extends Error {
+  /** Depth limit that was exceeded */
+  readonly maxDepth: number;
+
+  constructor(maxDepth: number, object: string, relation: string) {
+    super(
+      `Relationship check exceeded max depth of ${maxDepth} at ${object}#${relation}`
+    );
+    this.name = 'RelationDepthError';
+    this.maxDepth = maxDepth;
+  }
+}
+
+const DEFAULT_MAX_DEPTH = 25;
+
+function objectType(object: string): string {
+  const index = object.indexOf(':');
+  return index === -1 ? object : object.slice(0, index);
+}
+
+/**
+ * In-memory relationship store
+ */
+export class InMemoryRelationshipStore implements RelationshipStore {
+  private index = new Map<string, RelationTuple[]>();
+
+  constructor(tuples: RelationTuple[] = []) {
+    tuples.forEach((tuple) => this.write(tuple));
+  }
+
+  private static key(object: string, relation: string): string {
+    return `${object}#${relation}`;
+  }
+
+  read(object: string, relation: string): RelationTuple[] {
+    return [...(this.index.get(InMemoryRelationshipStore.key(object, relation)) ?? [])];
+  }
+
+  /**
+   * Adds a tuple (no-op if it already exists)
+   */
+  write(tuple: RelationTuple): void {
+    const key = InMemoryRelationshipStore.key(tuple.object, tuple.relation);
+    const tuples = this.index.get(key) ?? [];
+
+    if (!tuples.some((existing) => existing.subject === tuple.subject)) {
+      this.index.set(key, [...tuples, tuple]);
+    }
+  }
+
+  /**
+   * Removes a tuple
+   */
+  delete(tuple: RelationTuple): void {
+    const key = InMemoryRelationshipStore.key(tuple.object, tuple.relation);
+    const tuples = (this.index.get(key) ?? []).filter(
+      (existing) => existing.subject !== tuple.subject
+    );
+
+    if (tuples.length > 0) {
+      this.index.set(key, tuples);
+    } else {
+      this.index.delete(key);
+    }
+  }
+
+  /**
+   * Returns every stored tuple
+   */
+  tuples(): RelationTuple[] {
+    return Array.from(this.index.values()).flat();
+  }
+}
+
+/**
+ * Checks whether a subject has a relation on an object
+ *
+ * Direct tuples, usersets, `includes` and `inherit` rewrites are followed
+ * depth-first and stop at the first match. Cycles in the data are skipped.
+ *
+ * @throws RelationDepthError if the traversal exceeds `maxDepth`
+ */
+export async function checkRelation(
+  store: RelationshipStore,
+  tuple: RelationTuple,
+  options: RelationCheckOptions = {}
+): Promise<boolean> {
+  const { schema = {}, maxDepth = DEFAULT_MAX_DEPTH } = options;
+  const visiting = new Set<string>();
+
+  async function visit(object: string, relation: string, depth: number): Promise<boolean> {
+    if (depth > maxDepth) {
+      throw new RelationDepthError(maxDepth, object, relation);
+    }
+
+    const key = `${object}#${relation}`;
+    if (visiting.has(key)) {
+      return false;
+    }
+    visiting.add(key);
+
+    try {
+      for (const direct of await store.read(object, relation)) {
+        if (direct.subject === tuple.subject) {
+          return true;
+        }
+
+        const hash = direct.subject.indexOf('#');
+        if (
+          hash !== -1 &&
+          (await visit(direct.subject.slice(0, hash), direct.subject.slice(hash + 1), depth + 1))
+        ) {
+          return true;
+        }
+      }
+
+      const definition = schema[objectType(object)]?.[relation];
+
+      for (const implied of definition?.includes ?? []) {
+        if (await visit(object, implied, depth + 1)) {
+          return true;
+        }
+      }
+
+      for (const { via, relation: inherited } of definition?.inherit ?? []) {
+        for (const related of await store.read(object, via)) {
+          if (await visit(related.subject, inherited, depth + 1)) {
+            return true;
+          }
+        }
+      }
+
+      return false;
+    } finally {
+      visiting.delete(key);
+    }
+  }
+
+  return visit(tuple.object, tuple.relation, 0);
+}
+
+/**
+ * Configuration for `hasRelation`
+ */
+export interface RelationRuleConfig<TUser = any, TResource = any> extends RelationCheckOptions {
+  /** Tuple store to read from */
+  store: RelationshipStore;
+  /** Maps the user to a subject (defaults to `user:<id>`) */
+  subject?: (user: TUser) => string | undefined;
+  /**
+   * Maps the resource to an object
+   * (defaults to `<type>:<id>` using the detected subject type, lower-cased)
+   */
+  object?: (resource: TResource) => string | undefined;
+}
+
+function defaultSubject(user: any): string | undefined {
+  return user?.id !== undefined ? `user:${user.id}` : undefined;
+}
+
+function defaultObject(resource: any): string | undefined {
+  const type = detectSubjectType(resource);
+  return type && resource.id !== undefined ? `${type.toLowerCase()}:${resource.id}` : undefined;
+}
+
+/**
+ * Passes when the user has the relation on the resource
+ *
+ * Denies when the user or resource cannot be mapped to a tuple string.
+ *
+ * @example
+ * ```ts
+ * const rules = {
+ *   'document.view': hasRelation('viewer', { store, schema }),
+ *   'document.edit': hasRelation('editor', {
+ *     store,
+ *     schema,
+ *     object: (doc) => `document:${doc.slug}`,
+ *   }),
+ * };
+ * ```
+ */
+export function hasRelation<TUser = any, TResource = any>(
+  relation: string,
+  config: RelationRuleConfig<TUser, TResource>
+): PermissionRule<TUser, TResource> {
+  const { store, subject = defaultSubject, object = defaultObject, ...options } = config;
+
+  return named(`hasRelation(${relation})`, async (ctx) => {
+    const subjectId = subject(ctx.user);
+    const objectId = ctx.resource === undefined ? undefined : object(ctx.resource);
+
+    if (!subjectId || !objectId) {
+      return false;
+    }
+
+    return checkRelation(store, { subject: subjectId, relation, object: objectId }, options);
+  });
+}
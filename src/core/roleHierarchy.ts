@@ -0,0 +1,111 @@
+/**
+ * Role Hierarchy
+ *
+ * Expands assigned roles through role definitions (inheritance and
+ * role-carried permissions) into the effective roles and permissions
+ * that the rule engine evaluates against.
+ */
+
+import type { RoleDefinitionsMap } from './types';
+
+/**
+ * Thrown when role definitions contain an inheritance cycle
+ */
+export class RoleHierarchyError extends Error {
+  /** Roles forming the cycle, with the first role repeated at the end */
+  readonly cycle: string[];
+
+  constructor(cycle: string[]) {
+    super(`Circular role inheritance detected: ${cycle.join(' -> ')}`);
+    this.name = 'RoleHierarchyError';
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * Validates role definitions, throwing on the first inheritance cycle found
+ *
+ * Roles referenced in `inherits` but not defined are treated as leaf roles.
+ *
+ * @throws RoleHierarchyError
+ */
+export function validateRoleDefinitions(definitions: RoleDefinitionsMap): void {
+  const visited = new Set<string>();
+
+  const visit = (role: string, path: string[]) => {
+    const cycleStart = path.indexOf(role);
+    if (cycleStart > -1) {
+      throw new RoleHierarchyError([...path.slice(cycleStart), role]);
+    }
+
+    if (visited.has(role)) {
+      return;
+    }
+
+    const inherits = definitions[role]?.inherits ?? [];
+    for (const parent of inherits) {
+      visit(parent, [...path, role]);
+    }
+
+    visited.add(role);
+  };
+
+  Object.keys(definitions).forEach((role) => visit(role, []));
+}
+
+/**
+ * Expands assigned roles and permissions through role definitions
+ *
+ * Each assigned role contributes itself, every role it (transitively)
+ * inherits, and all permissions carried by those roles. Directly granted
+ * permissions are preserved. Results are de-duplicated and keep the order
+ * in which they were first reached.
+ *
+ * @example
+ * ```ts
+ * expandRoles(['admin'], [], {
+ *   admin: { inherits: ['editor'], permissions: ['user.manage'] },
+ *   editor: { inherits: ['viewer'], permissions: ['post.edit'] },
+ *   viewer: { permissions: ['post.view'] },
+ * });
+ * // => {
+ * //   roles: ['admin', 'editor', 'viewer'],
+ * //   permissions: ['user.manage', 'post.edit', 'post.view'],
+ * // }
+ * ```
+ *
+ * @throws RoleHierarchyError if the definitions contain a cycle
+ */
+export function expandRoles(
+  roles: string[],
+  permissions: string[],
+  definitions: RoleDefinitionsMap
+): { roles: string[]; permissions: string[] } {
+  validateRoleDefinitions(definitions);
+
+  const effectiveRoles = new Set<string>();
+  const effectivePermissions = new Set<string>(permissions);
+
+  const visit = (role: string) => {
+    if (effectiveRoles.has(role)) {
+      return;
+    }
+
+    effectiveRoles.add(role);
+
+    const definition = definitions[role];
+    if (!definition) {
+      return;
+    }
+
+    definition.permissions?.forEach((permission) => effectivePermissions.add(permission));
+    definition.inherits?.forEach(visit);
+  };
+
+  roles.forEach(visit);
+
+  return {
+    roles: Array.from(effectiveRoles),
+    permissions: Array.from(effectivePermissions),
+  };
+}
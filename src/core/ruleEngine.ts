@@ -11,38 +11,179 @@ import type {
   PermissionRulesMap,
   PermissionCheck,
   RuleEvaluationResult,
+  RuleOutcome,
+  RuleReturn,
+  PermissionDecision,
+  EvaluationOptions,
+  FlagValue,
 } from './types';
+import { getPermissionMatcher } from './permissionMatcher';
+import {
+  parsePermissionExpression,
+  formatPermissionExpression,
+  isPermissionExpression,
+} from './expression';
+import type { PermissionExpression } from './expression';
+import { getRuleMeta, getRuleLabel } from './combinators';
+import { isAbilityCheck, resolveAbility } from './ability';
+import { flagMatches } from './flags';
+import {
+  explainDecision,
+  explanationOf,
+  hasExplanation,
+  isAllowed,
+  isPermissionDecision,
+} from './decisions';
+
+/**
+ * A value that is only wrapped in a promise when some rule was async
+ */
+type MaybePromise<T> = T | Promise<T>;
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return (
+    value !== null &&
+    (typeof value === 'object' || typeof value === 'function') &&
+    typeof (value as PromiseLike<T>).then === 'function'
+  );
+}
+
+/**
+ * Applies `fn` to a value, synchronously unless the value is a promise
+ */
+function after<T, R>(value: MaybePromise<T>, fn: (value: T) => MaybePromise<R>): MaybePromise<R> {
+  return isPromiseLike<T>(value) ? Promise.resolve(value).then(fn) : fn(value);
+}
+
+/**
+ * Like `Promise.all`, but synchronous when no value is a promise
+ */
+function allOf<T>(values: MaybePromise<T>[]): MaybePromise<T[]> {
+  return values.some((value) => isPromiseLike(value)) ? Promise.all(values) : (values as T[]);
+}
+
+/**
+ * Outcome of a permission check, with the explanation of the decision
+ */
+type PermissionResult = PermissionDecision & { ruleResults: RuleEvaluationResult[] };
+
+type RuleRun = Omit<RuleEvaluationResult, 'rule' | 'deniedBy' | 'children'>;
 
 /**
  * Evaluates a single permission rule
  * 
+ * The rule is cut short, resolving to `false` with an `outcome`, when
+ * `context.signal` aborts or the timeout elapses. On timeout the rule's
+ * own `ctx.signal` is aborted so it can cancel pending work.
+ * 
  * @param rule - The rule function to evaluate
  * @param context - The permission context
+ * @param timeout - Optional timeout in ms
  * @returns Promise resolving to rule result and evaluation metadata
  */
 export async function evaluateRule<TUser = any, TResource = any>(
   rule: PermissionRule<TUser, TResource>,
-  context: PermissionContext<TUser, TResource>
-): Promise<{ result: boolean; duration: number; error?: string }> {
+  context: PermissionContext<TUser, TResource>,
+  timeout?: number
+): Promise<RuleRun> {
+  return runRule(rule, context, timeout);
+}
+
+/**
+ * `evaluateRule`, returning synchronously when the rule does
+ */
+function runRule<TUser, TResource>(
+  rule: PermissionRule<TUser, TResource>,
+  context: PermissionContext<TUser, TResource>,
+  timeout?: number
+): MaybePromise<RuleRun> {
   const startTime = performance.now();
+  const parentSignal = context.signal;
+  
+  const interrupt = (outcome: RuleOutcome): RuleRun => ({
+    result: false,
+    duration: performance.now() - startTime,
+    error: outcome === 'timeout' ? `Rule timed out after ${timeout}ms` : 'Evaluation aborted',
+    outcome,
+  });
+  
+  const settle = (returned: RuleReturn): RuleRun => ({
+    result: isAllowed(returned),
+    duration: performance.now() - startTime,
+    ...(isPermissionDecision(returned) && explanationOf(returned)),
+  });
+  
+  const fail = (error: unknown): RuleRun => ({
+    result: false,
+    duration: performance.now() - startTime,
+    error: error instanceof Error ? error.message : String(error),
+  });
+  
+  if (parentSignal?.aborted) {
+    return interrupt('aborted');
+  }
+  
+  // A rule with a timeout gets its own signal, aborted on timeout or with the parent
+  const controller = timeout !== undefined ? new AbortController() : undefined;
+  const ruleContext = controller ? { ...context, signal: controller.signal } : context;
+  let returned: RuleReturn | Promise<RuleReturn>;
   
   try {
-    const result = await Promise.resolve(rule(context));
-    const duration = performance.now() - startTime;
-    
-    return {
-      result: Boolean(result),
-      duration,
-    };
+    returned = rule(ruleContext);
   } catch (error) {
-    const duration = performance.now() - startTime;
+    return fail(error);
+  }
+  
+  // Synchronous rules finish before any timeout or abort could apply
+  if (!isPromiseLike<RuleReturn>(returned)) {
+    return settle(returned);
+  }
+  
+  const pending = Promise.resolve(returned);
+  
+  if (!controller && !parentSignal) {
+    return pending.then(settle, fail);
+  }
+  
+  let cleanup = () => {};
+  const interrupted = new Promise<RuleOutcome>((resolve) => {
+    const onAbort = () => resolve('aborted');
+    const timer =
+      timeout !== undefined ? setTimeout(() => resolve('timeout'), timeout) : undefined;
     
-    return {
-      result: false,
-      duration,
-      error: error instanceof Error ? error.message : String(error),
+    parentSignal?.addEventListener('abort', onAbort);
+    cleanup = () => {
+      parentSignal?.removeEventListener('abort', onAbort);
+      clearTimeout(timer);
     };
+  });
+  
+  return Promise.race([
+    pending.then((result) => ({ result })),
+    interrupted.then((outcome) => ({ outcome })),
+  ])
+    .then((settled) => {
+      if ('outcome' in settled) {
+        controller?.abort();
+        return interrupt(settled.outcome);
+      }
+      
+      return settle(settled.result);
+    }, fail)
+    .finally(() => cleanup());
+}
+
+/**
+ * Timeout for a rule key or label: `ruleTimeouts[key]`, else `timeout`
+ */
+function timeoutFor(key: string, options: EvaluationOptions): number | undefined {
+  const { ruleTimeouts } = options;
+  
+  if (ruleTimeouts && Object.prototype.hasOwnProperty.call(ruleTimeouts, key)) {
+    return ruleTimeouts[key];
   }
+  
+  return options.timeout;
 }
 
 /**
@@ -50,14 +191,16 @@ export async function evaluateRule<TUser = any, TResource = any>(
  * 
  * Strategy:
  * 1. Check if it exists in the rules map
- * 2. Check if it's in the permissions array (direct permission grant)
+ * 2. Check if it's matched by the permissions array (direct or wildcard grant,
+ *    e.g. `post.*` covers `post.edit`, `billing:**` covers `billing:invoice:read`)
  * 3. Check if it's in the roles array (role-based grant)
  * 4. Otherwise deny
  */
 export function resolveStringRule<TUser = any, TResource = any>(
   permissionKey: string,
   rulesMap: PermissionRulesMap<TUser, TResource>,
-  context: PermissionContext<TUser, TResource>
+  context: PermissionContext<TUser, TResource>,
+  options: EvaluationOptions = {}
 ): PermissionRule<TUser, TResource> {
   // If a custom rule exists for this key, use it
   if (rulesMap[permissionKey]) {
@@ -66,93 +209,889 @@ export function resolveStringRule<TUser = any, TResource = any>(
   
   // Otherwise, check if the permission/role is directly granted
   return (ctx: PermissionContext<TUser, TResource>) => {
-    return ctx.permissions.includes(permissionKey) || ctx.roles.includes(permissionKey);
+    const matcher = getPermissionMatcher(ctx.permissions, {
+      separator: options.permissionSeparator,
+    });
+    
+    return matcher.matches(permissionKey) || ctx.roles.includes(permissionKey);
+  };
+}
+
+/**
+ * Resolves a permission against the granted permissions alone (no rules),
+ * honouring `!permission` grants per the combining algorithm
+ */
+function resolveGrant(
+  permission: string,
+  permissions: string[],
+  options: EvaluationOptions
+): { result: boolean; deniedBy?: string } {
+  const algorithm = options.combiningAlgorithm ?? 'deny-overrides';
+  const matcher = getPermissionMatcher(permissions, { separator: options.permissionSeparator });
+  
+  if (algorithm === 'first-applicable') {
+    const first = matcher.firstMatch(permission);
+    return first?.effect === 'deny'
+      ? { result: false, deniedBy: first.grant }
+      : { result: first !== undefined };
+  }
+  
+  if (algorithm === 'allow-overrides' && matcher.matches(permission)) {
+    return { result: true };
+  }
+  
+  const deniedBy = matcher.deniedBy(permission);
+  return deniedBy ? { result: false, deniedBy } : { result: matcher.matches(permission) };
+}
+
+/**
+ * Deny statement that applied to a key
+ */
+interface DenyMatch {
+  deniedBy: string;
+  error?: string;
+  outcome?: RuleOutcome;
+  /** Explanation from a deny rule that returned a decision */
+  reason?: string;
+  code?: string;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * Outcome of a key's allow statement
+ */
+interface AllowMatch {
+  result: boolean;
+  error?: string;
+  outcome?: RuleOutcome;
+  reason?: string;
+  code?: string;
+  meta?: Record<string, unknown>;
+  children?: RuleEvaluationResult[];
+}
+
+/**
+ * Thrown (inside the calling rule) when rules reference each other in a cycle
+ */
+export class RuleCycleError extends Error {
+  /** Rule keys forming the cycle, with the first key repeated at the end */
+  readonly cycle: string[];
+  
+  constructor(cycle: string[]) {
+    super(`Circular rule reference detected: ${cycle.join(' -> ')}`);
+    this.name = 'RuleCycleError';
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * Per-evaluation state shared by every rule reached from one
+ * `evaluatePermission` call: memoized key results and the graph of which
+ * key is waiting on which (used to detect reference cycles)
+ */
+class EvaluationScope {
+  readonly memo = new Map<string, MaybePromise<RuleEvaluationResult>>();
+  private readonly edges = new Map<string, Set<string>>();
+  private readonly keys = new Map<string, string>();
+  private readonly resourceIds = new WeakMap<object, number>();
+  private nextResourceId = 0;
+  
+  constructor(
+    readonly rulesMap: PermissionRulesMap<any, any>,
+    readonly options: EvaluationOptions
+  ) {}
+  
+  /**
+   * Identifies a (key, resource) pair; objects are compared by identity
+   */
+  node(key: string, resource: unknown): string {
+    let resourceId: string;
+    
+    if (resource !== null && (typeof resource === 'object' || typeof resource === 'function')) {
+      let id = this.resourceIds.get(resource as object);
+      if (id === undefined) {
+        id = this.nextResourceId++;
+        this.resourceIds.set(resource as object, id);
+      }
+      resourceId = `#${id}`;
+    } else {
+      resourceId = `${typeof resource}:${String(resource)}`;
+    }
+    
+    const node = `${key}\u0000${resourceId}`;
+    this.keys.set(node, key);
+    return node;
+  }
+  
+  /**
+   * Records that `from` waits on `to`, throwing if that closes a cycle
+   */
+  link(from: string, to: string) {
+    const path = this.findPath(to, from);
+    if (path) {
+      throw new RuleCycleError([from, ...path].map((node) => this.keys.get(node) ?? node));
+    }
+    
+    let targets = this.edges.get(from);
+    if (!targets) {
+      targets = new Set();
+      this.edges.set(from, targets);
+    }
+    targets.add(to);
+  }
+  
+  private findPath(from: string, to: string, seen = new Set<string>()): string[] | undefined {
+    if (from === to) {
+      return [from];
+    }
+    
+    seen.add(from);
+    for (const next of this.edges.get(from) ?? []) {
+      if (!seen.has(next)) {
+        const rest = this.findPath(next, to, seen);
+        if (rest) {
+          return [from, ...rest];
+        }
+      }
+    }
+    
+    return undefined;
+  }
+}
+
+/**
+ * Associates a rule-facing context with its scope and the key it belongs to
+ */
+interface ScopeBinding {
+  scope: EvaluationScope;
+  /** Node of the key whose rule receives this context (undefined at the root) */
+  node?: string;
+  /** Results of `ctx.check` calls made through this context */
+  checks: RuleEvaluationResult[];
+}
+
+const scopeBindings = new WeakMap<PermissionContext<any, any>, ScopeBinding>();
+
+/**
+ * Creates a context bound to a scope node, with a `check` capability
+ * that evaluates other keys within the same scope
+ */
+function bindContext<TUser, TResource>(
+  context: PermissionContext<TUser, TResource>,
+  scope: EvaluationScope,
+  node: string | undefined
+): PermissionContext<TUser, TResource> {
+  const binding: ScopeBinding = { scope, node, checks: [] };
+  
+  const bound: PermissionContext<TUser, TResource> = {
+    ...context,
+    check: async (key: string, resource?: TResource) => {
+      const target = bindContext(
+        { ...context, resource: resource === undefined ? context.resource : resource },
+        scope,
+        node
+      );
+      const result = await runStringCheck(key, scope.rulesMap, target, scope.options);
+      binding.checks.push(result);
+      
+      // Errors in a checked rule (including cycles) propagate to the caller
+      if (result.error !== undefined) {
+        throw new Error(result.error);
+      }
+      
+      return result.result;
+    },
   };
+  
+  scopeBindings.set(bound, binding);
+  return bound;
+}
+
+/**
+ * Returns the binding for a context, or a fresh root binding for
+ * contexts that did not come from the engine
+ */
+function resolveBinding(
+  context: PermissionContext<any, any>,
+  rulesMap: PermissionRulesMap<any, any>,
+  options: EvaluationOptions
+): ScopeBinding {
+  return (
+    scopeBindings.get(context) ?? {
+      scope: new EvaluationScope(rulesMap, options),
+      checks: [],
+    }
+  );
 }
 
 /**
- * Evaluates a permission check (string, array, or function)
+ * Evaluates a single string key, combining its allow statement (custom rule
+ * or grant) with deny statements (`denyRules` and `!permission` grants)
+ * according to the configured combining algorithm
  * 
- * @param check - The permission check to evaluate
- * @param context - The permission context
+ * Rules receive `ctx.check(key, resource?)` to build on other rules.
+ * Within one evaluation, results are memoized per (key, resource), and
+ * reference cycles fail with a RuleCycleError. Results of `ctx.check`
+ * calls are recorded in `children`; errors in checked rules propagate.
+ *
+ * @param permissionKey - The rule or permission key to evaluate
  * @param rulesMap - Map of named rules
- * @param mode - Evaluation mode: 'any' (OR) or 'all' (AND)
- * @returns Promise resolving to evaluation result and metadata
+ * @param context - The permission context
+ * @param options - Engine options (deny rules, combining algorithm, etc.)
+ * @returns Promise resolving to the rule evaluation result
  */
-export async function evaluatePermission<TUser = any, TResource = any>(
-  check: PermissionCheck<TUser, TResource>,
+export async function evaluateStringRule<TUser = any, TResource = any>(
+  permissionKey: string,
+  rulesMap: PermissionRulesMap<TUser, TResource>,
   context: PermissionContext<TUser, TResource>,
+  options: EvaluationOptions = {}
+): Promise<RuleEvaluationResult> {
+  return runStringRule(permissionKey, rulesMap, context, options);
+}
+
+/**
+ * `evaluateStringRule`, returning synchronously when every rule reached does
+ * (a reference cycle is thrown)
+ */
+function runStringRule<TUser, TResource>(
+  permissionKey: string,
   rulesMap: PermissionRulesMap<TUser, TResource>,
-  mode: 'any' | 'all' = 'any'
-): Promise<{
-  allowed: boolean;
-  ruleResults: RuleEvaluationResult[];
-}> {
-  const ruleResults: RuleEvaluationResult[] = [];
-  
-  // Case 1: Inline function rule
-  if (typeof check === 'function') {
-    const evaluation = await evaluateRule(check, context);
+  context: PermissionContext<TUser, TResource>,
+  options: EvaluationOptions
+): MaybePromise<RuleEvaluationResult> {
+  const { scope, node: caller } = resolveBinding(context, rulesMap, options);
+  const node = scope.node(permissionKey, context.resource);
+  
+  if (caller !== undefined) {
+    scope.link(caller, node);
+  }
+  
+  const memoized = scope.memo.get(node);
+  if (memoized) {
+    return memoized;
+  }
+  
+  const ruleContext = bindContext(context, scope, node);
+  const evaluation = after(
+    runKey(permissionKey, rulesMap, ruleContext, options),
+    (result): RuleEvaluationResult => {
+      const { checks } = scopeBindings.get(ruleContext)!;
+      
+      if (checks.length === 0) {
+        return result;
+      }
+      
+      return { ...result, children: [...(result.children ?? []), ...checks] };
+    }
+  );
+  
+  scope.memo.set(node, evaluation);
+  return evaluation;
+}
+
+/**
+ * Evaluates a key's allow and deny statements against a context that is
+ * already bound to the key's evaluation scope
+ */
+function runKey<TUser, TResource>(
+  permissionKey: string,
+  rulesMap: PermissionRulesMap<TUser, TResource>,
+  context: PermissionContext<TUser, TResource>,
+  options: EvaluationOptions
+): MaybePromise<RuleEvaluationResult> {
+  const startTime = performance.now();
+  const algorithm = options.combiningAlgorithm ?? 'deny-overrides';
+  const matcher = getPermissionMatcher(context.permissions, {
+    separator: options.permissionSeparator,
+  });
+  
+  const finish = (
+    result: boolean,
+    details: {
+      error?: string;
+      outcome?: RuleOutcome;
+      deniedBy?: string;
+      reason?: string;
+      code?: string;
+      meta?: Record<string, unknown>;
+      children?: RuleEvaluationResult[];
+    } = {}
+  ): RuleEvaluationResult => ({
+    rule: permissionKey,
+    result,
+    duration: performance.now() - startTime,
+    ...(details.error !== undefined && { error: details.error }),
+    ...(details.outcome !== undefined && { outcome: details.outcome }),
+    ...(details.deniedBy !== undefined && { deniedBy: details.deniedBy }),
+    ...explanationOf(details),
+    ...(details.children !== undefined && { children: details.children }),
+  });
+  
+  // Deny rule for this key; a deny rule that throws fails closed
+  const evaluateDenyRule = (): MaybePromise<DenyMatch | undefined> => {
+    const denyRule = options.denyRules?.[permissionKey];
+    if (!denyRule) {
+      return undefined;
+    }
+    
+    return after(runRule(denyRule, context, timeoutFor(permissionKey, options)), (evaluation) => {
+      if (!evaluation.result && evaluation.error === undefined) {
+        return undefined;
+      }
+      
+      return {
+        deniedBy: `denyRules['${permissionKey}']`,
+        error: evaluation.error,
+        outcome: evaluation.outcome,
+        ...explanationOf(evaluation),
+      };
+    });
+  };
+  
+  const findDeny = (): MaybePromise<DenyMatch | undefined> =>
+    after(evaluateDenyRule(), (denyRuleMatch) => {
+      if (denyRuleMatch) {
+        return denyRuleMatch;
+      }
+      
+      const grant = matcher.deniedBy(permissionKey);
+      return grant ? { deniedBy: grant } : undefined;
+    });
+  
+  // Composed custom rules are walked so each branch is recorded
+  const evaluateAllow = (): MaybePromise<AllowMatch> => {
+    const customRule = rulesMap[permissionKey];
     
-    ruleResults.push({
-      rule: 'inline',
-      result: evaluation.result,
-      duration: evaluation.duration,
-      error: evaluation.error,
+    if (customRule && getRuleMeta(customRule)) {
+      return after(
+        runComposedRule(customRule, permissionKey, rulesMap, context, options),
+        ({ result, error, outcome, children }) => ({ result, error, outcome, children })
+      );
+    }
+    
+    return runRule(
+      resolveStringRule(permissionKey, rulesMap, context, options),
+      context,
+      timeoutFor(permissionKey, options)
+    );
+  };
+  
+  if (algorithm === 'allow-overrides') {
+    return after(evaluateAllow(), (allow) => {
+      if (allow.result) {
+        return finish(true, { ...explanationOf(allow), children: allow.children });
+      }
+      
+      return after(findDeny(), (deny) =>
+        finish(false, {
+          error: allow.error ?? deny?.error,
+          outcome: allow.outcome ?? deny?.outcome,
+          deniedBy: deny?.deniedBy,
+          ...explanationOf(deny && hasExplanation(deny) ? deny : allow),
+          children: allow.children,
+        })
+      );
+    });
+  }
+  
+  if (algorithm === 'first-applicable') {
+    return after(evaluateDenyRule(), (denyRuleMatch) => {
+      if (denyRuleMatch) {
+        return finish(false, denyRuleMatch);
+      }
+      
+      // A custom rule is the only allow statement for its key
+      if (rulesMap[permissionKey]) {
+        return after(evaluateAllow(), (allow) => finish(allow.result, allow));
+      }
+      
+      const first = matcher.firstMatch(permissionKey);
+      if (first) {
+        return first.effect === 'deny'
+          ? finish(false, { deniedBy: first.grant })
+          : finish(true);
+      }
+      
+      return finish(context.roles.includes(permissionKey));
     });
+  }
+  
+  // deny-overrides
+  return after(findDeny(), (deny) => {
+    if (deny) {
+      return finish(false, deny);
+    }
     
+    return after(evaluateAllow(), (allow) => finish(allow.result, allow));
+  });
+}
+
+/**
+ * Combines operand results for a logical operator into a parent result
+ * 
+ * A `not` over an operand that errored stays denied (fail closed).
+ */
+function combineResults(
+  rule: string,
+  operator: 'and' | 'or' | 'not',
+  children: RuleEvaluationResult[],
+  startTime: number
+): RuleEvaluationResult {
+  let result: boolean;
+  
+  if (operator === 'not') {
+    result = children[0].error === undefined && !children[0].result;
+  } else if (operator === 'and') {
+    result = children.every((child) => child.result);
+  } else {
+    result = children.some((child) => child.result);
+  }
+  
+  return {
+    rule,
+    result,
+    duration: performance.now() - startTime,
+    children,
+  };
+}
+
+/**
+ * Evaluates a rule, walking combinator metadata (see `and`, `or`, `ref`, ...)
+ * so each branch of a composed rule is recorded in `children`
+ * 
+ * @param rule - The rule function to evaluate
+ * @param label - Label for the result (rule key, or the combinator label)
+ * @param rulesMap - Map of named rules (used to resolve `ref`)
+ * @param context - The permission context
+ * @param options - Engine options
+ */
+export async function evaluateComposedRule<TUser = any, TResource = any>(
+  rule: PermissionRule<TUser, TResource>,
+  label: string,
+  rulesMap: PermissionRulesMap<TUser, TResource>,
+  context: PermissionContext<TUser, TResource>,
+  options: EvaluationOptions = {}
+): Promise<RuleEvaluationResult> {
+  return runComposedRule(rule, label, rulesMap, context, options);
+}
+
+/**
+ * `evaluateComposedRule`, returning synchronously when every branch does
+ */
+function runComposedRule<TUser, TResource>(
+  rule: PermissionRule<TUser, TResource>,
+  label: string,
+  rulesMap: PermissionRulesMap<TUser, TResource>,
+  context: PermissionContext<TUser, TResource>,
+  options: EvaluationOptions
+): MaybePromise<RuleEvaluationResult> {
+  const startTime = performance.now();
+  const meta = getRuleMeta(rule);
+  const operator = meta?.operator;
+  const operands = meta?.operands;
+  
+  if (meta?.ref !== undefined) {
+    let reference: MaybePromise<RuleEvaluationResult>;
+    
+    try {
+      reference = runStringCheck(meta.ref, rulesMap, context, options);
+    } catch (error) {
+      // Cycles made of ref() rules alone are recorded like ctx.check cycles
+      reference = {
+        rule: meta.ref,
+        result: false,
+        duration: 0,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    
+    return after(reference, (target) => ({
+      rule: label,
+      result: target.result,
+      duration: performance.now() - startTime,
+      ...(target.error !== undefined && { error: target.error }),
+      ...(target.outcome !== undefined && { outcome: target.outcome }),
+      children: [target],
+    }));
+  }
+  
+  if (meta?.permission !== undefined) {
+    const { result, deniedBy } = resolveGrant(meta.permission, context.permissions, options);
     return {
-      allowed: evaluation.result,
-      ruleResults,
+      rule: label,
+      result,
+      duration: performance.now() - startTime,
+      ...(deniedBy !== undefined && { deniedBy }),
     };
   }
   
-  // Case 2: Single string permission
-  if (typeof check === 'string') {
-    const rule = resolveStringRule(check, rulesMap, context);
-    const evaluation = await evaluateRule(rule, context);
+  if (operator && operands) {
+    return after(
+      allOf(
+        operands.map((operand) =>
+          runComposedRule(operand, getRuleLabel(operand), rulesMap, context, options)
+        )
+      ),
+      (children) => combineResults(label, operator, children, startTime)
+    );
+  }
+  
+  return after(runRule(rule, context, timeoutFor(label, options)), (evaluation) => ({
+    rule: label,
+    result: evaluation.result,
+    duration: evaluation.duration,
+    ...(evaluation.error !== undefined && { error: evaluation.error }),
+    ...(evaluation.outcome !== undefined && { outcome: evaluation.outcome }),
+    ...explanationOf(evaluation),
+  }));
+}
+
+/**
+ * Evaluates a parsed permission expression
+ * 
+ * Operands are evaluated in parallel and every subexpression is recorded
+ * in `children`, so the whole tree can be inspected in dev tools.
+ */
+export async function evaluateExpression<TUser = any, TResource = any>(
+  expression: PermissionExpression,
+  rulesMap: PermissionRulesMap<TUser, TResource>,
+  context: PermissionContext<TUser, TResource>,
+  options: EvaluationOptions = {}
+): Promise<RuleEvaluationResult> {
+  return runExpression(expression, rulesMap, context, options);
+}
+
+/**
+ * `evaluateExpression`, returning synchronously when every rule reached does
+ */
+function runExpression<TUser, TResource>(
+  expression: PermissionExpression,
+  rulesMap: PermissionRulesMap<TUser, TResource>,
+  context: PermissionContext<TUser, TResource>,
+  options: EvaluationOptions
+): MaybePromise<RuleEvaluationResult> {
+  const startTime = performance.now();
+  const rule = formatPermissionExpression(expression);
+  
+  switch (expression.type) {
+    case 'ref':
+      return runStringRule(expression.key, rulesMap, context, options);
+      
+    case 'flag':
+      return {
+        rule,
+        result: flagMatches(context, expression.name, expression.variant),
+        duration: performance.now() - startTime,
+      };
+      
+    case 'not':
+      return after(runExpression(expression.operand, rulesMap, context, options), (operand) =>
+        combineResults(rule, 'not', [operand], startTime)
+      );
     
-    ruleResults.push({
+    case 'and':
+    case 'or': {
+      const operator = expression.type;
+      return after(
+        allOf(
+          expression.operands.map((operand) => runExpression(operand, rulesMap, context, options))
+        ),
+        (children) => combineResults(rule, operator, children, startTime)
+      );
+    }
+  }
+}
+
+/**
+ * Whether a string is a key in its own right: a named rule or deny rule,
+ * a granted (or denied) permission, or a role
+ */
+function isExactKey(
+  key: string,
+  rulesMap: PermissionRulesMap<any, any>,
+  context: PermissionContext<any, any>,
+  options: EvaluationOptions
+): boolean {
+  const has = (map: object | undefined) =>
+    map !== undefined && Object.prototype.hasOwnProperty.call(map, key);
+  
+  return (
+    has(rulesMap) ||
+    has(options.denyRules) ||
+    context.roles.includes(key) ||
+    getPermissionMatcher(context.permissions, {
+      separator: options.permissionSeparator,
+    }).firstMatch(key) !== undefined
+  );
+}
+
+/**
+ * Evaluates a string check, which may be a plain key or an expression
+ * such as `(admin or owner) and not archived`
+ * 
+ * Strings without expression syntax, and exact keys that happen to look
+ * like expressions (e.g. a `flag:beta` rule), are evaluated as keys.
+ */
+function runStringCheck<TUser, TResource>(
+  check: string,
+  rulesMap: PermissionRulesMap<TUser, TResource>,
+  context: PermissionContext<TUser, TResource>,
+  options: EvaluationOptions
+): MaybePromise<RuleEvaluationResult> {
+  if (!isPermissionExpression(check) || isExactKey(check, rulesMap, context, options)) {
+    return runStringRule(check, rulesMap, context, options);
+  }
+  
+  let expression: PermissionExpression;
+  
+  try {
+    expression = parsePermissionExpression(check);
+  } catch (error) {
+    return {
       rule: check,
-      result: evaluation.result,
-      duration: evaluation.duration,
-      error: evaluation.error,
-    });
+      result: false,
+      duration: 0,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  
+  return runExpression(expression, rulesMap, context, options);
+}
+
+/**
+ * Result for an array key that was not needed to decide the check
+ */
+function skippedResult(key: string): RuleEvaluationResult {
+  return { rule: key, result: false, duration: 0, outcome: 'skipped' };
+}
+
+/**
+ * Evaluates the keys of an array check, short-circuiting per
+ * `options.shortCircuit` once the mode's outcome is decided
+ * (any: a key passes; all: a key fails)
+ */
+function runArrayCheck<TUser, TResource>(
+  keys: string[],
+  mode: 'any' | 'all',
+  context: PermissionContext<TUser, TResource>,
+  scope: EvaluationScope,
+  options: EvaluationOptions
+): MaybePromise<RuleEvaluationResult[]> {
+  const decides = (evaluation: RuleEvaluationResult) =>
+    mode === 'all' ? !evaluation.result : evaluation.result;
+  
+  if (options.shortCircuit === 'sequential') {
+    const evaluations: RuleEvaluationResult[] = [];
     
-    return {
-      allowed: evaluation.result,
-      ruleResults,
+    const step = (index: number): MaybePromise<RuleEvaluationResult[]> => {
+      if (index === keys.length) {
+        return evaluations;
+      }
+      
+      return after(runStringCheck(keys[index], scope.rulesMap, context, options), (evaluation) => {
+        evaluations.push(evaluation);
+        
+        return decides(evaluation)
+          ? [...evaluations, ...keys.slice(index + 1).map(skippedResult)]
+          : step(index + 1);
+      });
+    };
+    
+    return step(0);
+  }
+  
+  if (options.shortCircuit === 'race') {
+    // Keys still running once the outcome is decided are aborted
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (context.signal?.aborted) {
+      abort();
+    }
+    context.signal?.addEventListener('abort', abort);
+    
+    const release = () => {
+      context.signal?.removeEventListener('abort', abort);
+      controller.abort();
     };
+    
+    const raceContext = bindContext({ ...context, signal: controller.signal }, scope, undefined);
+    const pending = keys.map((key) => runStringCheck(key, scope.rulesMap, raceContext, options));
+    const evaluations = pending.map((evaluation) =>
+      isPromiseLike<RuleEvaluationResult>(evaluation) ? undefined : evaluation
+    );
+    const results = () =>
+      evaluations.map((evaluation, index) => evaluation ?? skippedResult(keys[index]));
+    
+    if (evaluations.every((evaluation) => evaluation === undefined || !decides(evaluation))) {
+      const running = pending.filter((evaluation) => isPromiseLike(evaluation));
+      
+      if (running.length > 0) {
+        return new Promise<void>((resolve) => {
+          let remaining = running.length;
+          
+          pending.forEach((evaluation, index) => {
+            if (!isPromiseLike<RuleEvaluationResult>(evaluation)) {
+              return;
+            }
+            
+            evaluation.then((settled) => {
+              evaluations[index] = settled;
+              remaining--;
+              
+              if (decides(settled) || remaining === 0) {
+                resolve();
+              }
+            });
+          });
+        })
+          .then(results)
+          .finally(release);
+      }
+    }
+    
+    release();
+    return results();
   }
   
-  // Case 3: Array of permission strings
-  if (Array.isArray(check)) {
-    const evaluations = await Promise.all(
-      check.map(async (key) => {
-        const rule = resolveStringRule(key, rulesMap, context);
-        const evaluation = await evaluateRule(rule, context);
+  return allOf(keys.map((key) => runStringCheck(key, scope.rulesMap, context, options)));
+}
+
+/**
+ * Evaluates a permission check (string, array, function, or ability)
+ * 
+ * @param check - The permission check to evaluate
+ * @param context - The permission context
+ * @param rulesMap - Map of named rules
+ * @param mode - Evaluation mode: 'any' (OR) or 'all' (AND)
+ * @param options - Engine options (wildcard separators, deny rules, etc.)
+ * @returns Promise resolving to evaluation result and metadata
+ */
+export async function evaluatePermission<TUser = any, TResource = any>(
+  check: PermissionCheck<TUser, TResource>,
+  context: PermissionContext<TUser, TResource>,
+  rulesMap: PermissionRulesMap<TUser, TResource>,
+  mode: 'any' | 'all' = 'any',
+  options: EvaluationOptions = {}
+): Promise<PermissionResult> {
+  return evaluatePermissionEager(check, context, rulesMap, mode, options);
+}
+
+/**
+ * Evaluates a permission check, returning the result synchronously when
+ * every rule reached returns synchronously (no promise), and a promise
+ * otherwise
+ * 
+ * Lets callers decide sync checks without waiting a tick; rules that
+ * use `ctx.check` are always async.
+ * 
+ * @example
+ * ```ts
+ * const result = evaluatePermissionEager('post.edit', context, rules);
+ * if (!(result instanceof Promise)) {
+ *   render(result.allowed);
+ * }
+ * ```
+ */
+export function evaluatePermissionEager<TUser = any, TResource = any>(
+  check: PermissionCheck<TUser, TResource>,
+  context: PermissionContext<TUser, TResource>,
+  rulesMap: PermissionRulesMap<TUser, TResource>,
+  mode: 'any' | 'all' = 'any',
+  options: EvaluationOptions = {}
+): PermissionResult | Promise<PermissionResult> {
+  try {
+    return after(
+      runPermission(check, context, rulesMap, mode, options),
+      ({ allowed, ruleResults }) => ({ ...explainDecision(allowed, ruleResults), ruleResults })
+    );
+  } catch (error) {
+    // Reference cycles are recorded on the rule that closes them; anything else rejects
+    return Promise.reject(error);
+  }
+}
+
+function runPermission<TUser, TResource>(
+  check: PermissionCheck<TUser, TResource>,
+  context: PermissionContext<TUser, TResource>,
+  rulesMap: PermissionRulesMap<TUser, TResource>,
+  mode: 'any' | 'all',
+  options: EvaluationOptions
+): MaybePromise<{ allowed: boolean; ruleResults: RuleEvaluationResult[] }> {
+  // One scope per evaluation: memoizes keys reached through ctx.check
+  const scope = new EvaluationScope(rulesMap, options);
+  const rootContext = bindContext(context, scope, undefined);
+  
+  // Case 1: Inline function rule (plain or composed)
+  if (typeof check === 'function') {
+    return after(
+      runComposedRule(check, getRuleLabel(check), rulesMap, rootContext, options),
+      (composed) => {
+        const { checks } = scopeBindings.get(rootContext)!;
+        const evaluation =
+          checks.length === 0
+            ? composed
+            : { ...composed, children: [...(composed.children ?? []), ...checks] };
         
         return {
-          rule: key,
-          result: evaluation.result,
-          duration: evaluation.duration,
-          error: evaluation.error,
+          allowed: evaluation.result,
+          ruleResults: [evaluation],
         };
-      })
+      }
     );
+  }
+  
+  // Case 2: Single string permission or expression
+  if (typeof check === 'string') {
+    return after(runStringCheck(check, rulesMap, rootContext, options), (evaluation) => ({
+      allowed: evaluation.result,
+      ruleResults: [evaluation],
+    }));
+  }
+  
+  // Case 3: Array of permission strings
+  if (Array.isArray(check)) {
+    return after(runArrayCheck(check, mode, rootContext, scope, options), (evaluations) => {
+      // Apply mode logic
+      const allowed =
+        mode === 'all'
+          ? evaluations.every((e) => e.result)
+          : evaluations.some((e) => e.result);
+      
+      return {
+        allowed,
+        ruleResults: evaluations,
+      };
+    });
+  }
+  
+  // Case 4: Action/subject ability mapped onto a string rule key
+  if (isAbilityCheck(check)) {
+    let resolved;
     
-    ruleResults.push(...evaluations);
-    
-    // Apply mode logic
-    const allowed =
-      mode === 'all'
-        ? evaluations.every((e) => e.result)
-        : evaluations.some((e) => e.result);
+    try {
+      resolved = resolveAbility(check, context.resource, options);
+    } catch (error) {
+      return {
+        allowed: false,
+        ruleResults: [
+          {
+            rule: describeCheck(check, options) as string,
+            result: false,
+            duration: 0,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        ],
+      };
+    }
     
-    return {
-      allowed,
-      ruleResults,
-    };
+    const abilityContext =
+      resolved.resource === context.resource
+        ? rootContext
+        : bindContext({ ...context, resource: resolved.resource }, scope, undefined);
+    return after(runStringRule(resolved.key, rulesMap, abilityContext, options), (evaluation) => ({
+      allowed: evaluation.result,
+      ruleResults: [evaluation],
+    }));
   }
   
   // Invalid check type
@@ -169,6 +1108,31 @@ export async function evaluatePermission<TUser = any, TResource = any>(
   };
 }
 
+/**
+ * Describes a permission check for evaluation records and dev tools
+ * 
+ * Inline functions are described by their combinator label (or 'inline');
+ * ability checks by the rule key they map to.
+ */
+export function describeCheck<TUser = any, TResource = any>(
+  check: PermissionCheck<TUser, TResource>,
+  options: EvaluationOptions = {}
+): string | string[] {
+  if (typeof check === 'function') {
+    return getRuleLabel(check);
+  }
+  
+  if (isAbilityCheck(check)) {
+    try {
+      return resolveAbility(check, undefined, options).key;
+    } catch {
+      return `${check.action} (unknown subject)`;
+    }
+  }
+  
+  return check;
+}
+
 /**
  * Creates a permission context from configuration values
  */
@@ -177,7 +1141,9 @@ export function createPermissionContext<TUser = any, TResource = any>(
   resource: TResource | undefined,
   roles: string[],
   permissions: string[],
-  flags: Record<string, boolean>
+  flags: Record<string, FlagValue>,
+  signal?: AbortSignal,
+  flagVariants?: Record<string, string>
 ): PermissionContext<TUser, TResource> {
   return {
     user,
@@ -185,5 +1151,7 @@ export function createPermissionContext<TUser = any, TResource = any>(
     roles,
     permissions,
     flags,
+    ...(flagVariants && { flagVariants }),
+    ...(signal && { signal }),
   };
 }
@@ -0,0 +1,101 @@
+/**
+ * Decision Snapshots
+ *
+ * Server-side rendering support: pre-evaluate the checks a page renders,
+ * embed the decisions in the HTML and pass them to the provider's
+ * `initialDecisions` prop, so the first client render matches the server
+ * output instead of flipping from denied to allowed.
+ *
+ * @example
+ * ```tsx
+ * // Server
+ * const snapshot = await createDecisionSnapshot(config, [
+ *   'admin',
+ *   { check: 'post.edit', resource: post },
+ * ]);
+ * const html = renderToString(
+ *   <PermissionsProvider {...config} initialDecisions={snapshot}><App /></PermissionsProvider>
+ * );
+ * // <script>window.__PERMISSIONS__ = ${serializeDecisionSnapshot(snapshot)}</script>
+ *
+ * // Client
+ * hydrateRoot(
+ *   root,
+ *   <PermissionsProvider {...config} initialDecisions={window.__PERMISSIONS__}>
+ *     <App />
+ *   </PermissionsProvider>
+ * );
+ * ```
+ */
+
+import type { DecisionSnapshot, PermissionCheck, PermissionsConfig } from './types';
+import { decisionKey, isIdentityKeyed } from './decisionCache';
+import { createConfigEvaluator } from './configEvaluation';
+import { describeCheck } from './ruleEngine';
+
+/**
+ * A check to pre-evaluate, on a resource and in a mode
+ */
+export interface SnapshotCheck<TUser = any, TResource = any> {
+  check: PermissionCheck<TUser, TResource>;
+  resource?: TResource;
+  mode?: 'any' | 'all';
+}
+
+function isSnapshotCheck<TUser>(
+  value: PermissionCheck<TUser> | SnapshotCheck<TUser>
+): value is SnapshotCheck<TUser> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && 'check' in value;
+}
+
+/**
+ * Pre-evaluates checks for a config, as the provider would on the client
+ *
+ * Checks are keyed like the provider's decisions, so they must not depend
+ * on object identity: function checks can't be snapshotted, and object
+ * resources need a `resourceKey` in the config's `cache` options (which
+ * the client provider must use too).
+ *
+ * @param config - The provider config the page renders with
+ * @param checks - Checks to pre-evaluate: plain checks, or `{ check, resource, mode }`
+ * @throws Error for checks keyed by object identity
+ */
+export async function createDecisionSnapshot<TUser = any>(
+  config: PermissionsConfig<TUser>,
+  checks: Array<PermissionCheck<TUser> | SnapshotCheck<TUser>>
+): Promise<DecisionSnapshot> {
+  const evaluator = createConfigEvaluator(config);
+  const resourceKey = typeof config.cache === 'object' ? config.cache.resourceKey : undefined;
+
+  const requests = checks.map((entry) => {
+    const request: SnapshotCheck<TUser> = isSnapshotCheck(entry) ? entry : { check: entry };
+    const { check, resource, mode = 'any' } = request;
+
+    if (isIdentityKeyed(check, resource, resourceKey)) {
+      throw new Error(
+        `Cannot snapshot ${JSON.stringify(describeCheck(check))}: function checks and ` +
+          'object resources without a cache resourceKey are keyed by identity'
+      );
+    }
+
+    return { key: decisionKey(check, resource, mode, resourceKey), check, resource, mode };
+  });
+
+  const decisions = await Promise.all(
+    requests.map(({ check, resource, mode }) => evaluator.evaluate(check, resource, mode))
+  );
+
+  return {
+    decisions: Object.fromEntries(requests.map(({ key }, index) => [key, decisions[index]])),
+  };
+}
+
+/**
+ * Serializes a snapshot as JSON that is safe to inline in a `<script>` tag
+ */
+export function serializeDecisionSnapshot(snapshot: DecisionSnapshot): string {
+  return JSON.stringify(snapshot)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
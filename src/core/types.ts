@@ -17,17 +17,71 @@ export interface PermissionContext<TUser = any, TResource = any> {
   roles: string[];
   /** Array of permission strings granted to the user */
   permissions: string[];
-  /** Feature flags map */
-  flags: Record<string, boolean>;
+  /** Feature flag values, resolved for the current user */
+  flags: Record<string, FlagValue>;
+  /** Variant served for each flag defined with `FlagDefinition` */
+  flagVariants?: Record<string, string>;
+  /**
+   * Evaluates another rule key (or expression) within the same evaluation.
+   * Provided by the rule engine; results are memoized per key and resource,
+   * and circular references reject with a RuleCycleError.
+   * 
+   * @example
+   * ```ts
+   * 'post.edit': async (ctx) => (await ctx.check('post.view')) && ctx.user.canWrite
+   * ```
+   */
+  check?: (key: string, resource?: TResource) => Promise<boolean>;
+  /**
+   * Aborted when the evaluation is no longer needed (unmount, dependency
+   * change) or the rule times out. Pass it to `fetch` and similar APIs.
+   * 
+   * @example
+   * ```ts
+   * 'post.edit': async ({ resource, signal }) =>
+   *   (await fetch(`/api/posts/${resource.id}/can-edit`, { signal })).ok
+   * ```
+   */
+  signal?: AbortSignal;
 }
 
+/**
+ * Structured decision, explaining why access was allowed or denied
+ * 
+ * Rules may return one instead of a boolean; the explanation is
+ * propagated to `usePermission`, `Permissioned` and gate fallbacks.
+ * 
+ * @example
+ * ```ts
+ * 'post.edit': ({ user, resource }) =>
+ *   resource.locked
+ *     ? { allowed: false, reason: 'This post is locked', code: 'POST_LOCKED' }
+ *     : user.id === resource.authorId
+ * ```
+ */
+export interface PermissionDecision {
+  /** Whether access is allowed */
+  allowed: boolean;
+  /** Human-readable explanation */
+  reason?: string;
+  /** Machine-readable code, e.g. 'NOT_OWNER' or 'PLAN_LIMIT' */
+  code?: string;
+  /** Extra data for rendering the explanation (e.g. the required plan) */
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * Value a rule returns: a boolean or a structured decision
+ */
+export type RuleReturn = boolean | PermissionDecision;
+
 /**
  * Permission rule function signature
- * Can return boolean synchronously or Promise<boolean> for async checks
+ * Can return a boolean or decision synchronously, or a Promise of one for async checks
  */
 export type PermissionRule<TUser = any, TResource = any> = (
   ctx: PermissionContext<TUser, TResource>
-) => boolean | Promise<boolean>;
+) => RuleReturn | Promise<RuleReturn>;
 
 /**
  * Map of named permission rules
@@ -39,17 +93,379 @@ export type PermissionRulesMap<TUser = any, TResource = any> = Record<
 
 /**
  * Permission check input - can be a rule key, array of keys, or inline function
+ * 
+ * String checks may also be boolean expressions over rule keys, roles,
+ * permissions and flags, e.g. `(admin or owner) and not archived` or
+ * `post.edit and flag:newEditor`.
  */
 export type PermissionCheck<TUser = any, TResource = any> =
   | string
   | string[]
+  | PermissionRule<TUser, TResource>
+  | AbilityCheck<TResource>;
+
+/**
+ * Action/subject check, e.g. `{ action: 'update', subject: 'Invoice' }`
+ * 
+ * The subject is either a subject type name or a resource whose type is
+ * detected (and which is then used as the resource). The pair maps to a
+ * string rule key, `invoice.update` by default.
+ */
+export interface AbilityCheck<TResource = any> {
+  /** Action to perform (e.g. 'update') */
+  action: string;
+  /** Subject type name or resource instance */
+  subject: string | TResource;
+}
+
+/**
+ * Field-level rule: a constant, a string check (key or expression), or a rule function
+ */
+export type FieldRule<TUser = any, TResource = any> =
+  | boolean
+  | string
   | PermissionRule<TUser, TResource>;
 
+/**
+ * Field rules keyed by ability rule key (e.g. `employee.read`), then by field name
+ * 
+ * @example
+ * ```ts
+ * const fieldRules = {
+ *   'employee.read': { salary: 'hr or manager', ssn: false },
+ *   'employee.update': { salary: ({ roles }) => roles.includes('hr') },
+ * };
+ * ```
+ */
+export type FieldRulesMap<TUser = any> = Record<
+  string,
+  Record<string, FieldRule<TUser, any>>
+>;
+
+/**
+ * Decision cache configuration
+ */
+export interface DecisionCacheOptions<TResource = any> {
+  /** Default time-to-live in ms (entries never expire when omitted) */
+  ttl?: number;
+  /**
+   * Time-to-live per rule key in ms. An entry uses the shortest TTL of the
+   * rules involved in its evaluation; `0` disables caching for a rule.
+   */
+  ruleTtl?: Record<string, number>;
+  /**
+   * Stable key for a resource (e.g. its id). Resources are keyed by object
+   * identity when omitted or when this returns undefined.
+   */
+  resourceKey?: (resource: TResource) => string | undefined;
+  /** Maximum number of cached decisions (defaults to 500) */
+  maxEntries?: number;
+}
+
+/**
+ * What to decide when a denied evaluation contains rule errors or timeouts
+ * 
+ * - `'deny'`: keep the denial (default)
+ * - `'allow'`: allow instead
+ * - `'last-known'`: use the last error-free decision for the same check,
+ *   denying if there is none
+ * - `{ retry }`: re-run the evaluation up to `retry` times, waiting
+ *   `backoff * 2^(attempt - 1)` ms between attempts (default 100), then
+ *   apply `then` (default `'deny'`)
+ */
+export type RuleErrorPolicy =
+  | 'deny'
+  | 'allow'
+  | 'last-known'
+  | { retry: number; backoff?: number; then?: 'deny' | 'allow' | 'last-known' };
+
+/**
+ * A rule that failed during an evaluation attempt
+ */
+export interface RuleFailure {
+  /** Rule key or label that failed */
+  rule: string;
+  /** Error message */
+  error: string;
+  /** Set when the rule timed out */
+  outcome?: RuleOutcome;
+  /** Evaluation attempt (1 for the first try) */
+  attempt: number;
+}
+
+/**
+ * Rule failure reported to `onRuleError`
+ */
+export interface RuleErrorEvent extends RuleFailure {
+  /** Check being evaluated */
+  check: string | string[];
+  /** Resource involved (if any) */
+  resource?: any;
+}
+
+/**
+ * How an error policy decided an evaluation (recorded for dev tools)
+ */
+export interface ErrorPolicyResolution {
+  /** Policy that produced the decision (`'retry'` when a retry succeeded) */
+  policy: 'deny' | 'allow' | 'last-known' | 'retry';
+  /** Evaluation attempts made */
+  attempts: number;
+  /** Rule failures from the final attempt */
+  failures: RuleFailure[];
+}
+
+/**
+ * Value of a feature flag: a boolean, string, number or JSON value
+ */
+export type FlagValue =
+  | boolean
+  | string
+  | number
+  | null
+  | FlagValue[]
+  | { [key: string]: FlagValue };
+
+/**
+ * Percentage rollout over a flag's variants
+ * 
+ * Users are bucketed deterministically on a context path (hashed with the
+ * flag name), so each user keeps their variant across sessions.
+ */
+export interface FlagRollout {
+  /** Percentage (0-100) of users per variant; the rest get the default variant */
+  percentages: Record<string, number>;
+  /** Context path to bucket on (default: `'user.id'`) */
+  bucketBy?: string;
+}
+
+/**
+ * Targeting rule serving a variant to matching users. Every condition
+ * given must match.
+ */
+export interface FlagTargetingRule<TUser = any> {
+  /** Matches users with any of these roles */
+  roles?: string[];
+  /**
+   * Matches when each context path equals the value (or is one of the
+   * values, for arrays), e.g. `{ 'user.country': ['DE', 'FR'] }`
+   */
+  attributes?: Record<string, FlagValue>;
+  /** Custom condition */
+  match?: (ctx: PermissionContext<TUser>) => boolean;
+  /** Variant to serve (default: `'on'`) */
+  variant?: string;
+  /** Roll out among matching users instead of serving one variant */
+  rollout?: number | FlagRollout;
+}
+
+/**
+ * Feature flag with variants, targeting and percentage rollout
+ * 
+ * Flags without `variants` are boolean, with variants `on` (true) and
+ * `off` (false). Targeting rules are checked in order and the first match
+ * decides; otherwise the rollout applies, then the default variant.
+ * 
+ * @example
+ * ```ts
+ * const flags = {
+ *   newEditor: { rollout: 10 }, // 10% of users
+ *   checkout: {
+ *     variants: { control: 'classic', b: 'one-page' },
+ *     defaultVariant: 'control',
+ *     targeting: [{ roles: ['staff'], variant: 'b' }],
+ *     rollout: { percentages: { b: 50 } },
+ *   },
+ * };
+ * ```
+ */
+export interface FlagDefinition<TUser = any> {
+  /** Values by variant name (default: `{ on: true, off: false }`) */
+  variants?: Record<string, FlagValue>;
+  /** Variant served when nothing else applies (default: `'off'`) */
+  defaultVariant?: string;
+  /** Targeting rules, checked in order */
+  targeting?: FlagTargetingRule<TUser>[];
+  /** Percentage rollout; a number is the percentage of users served `on` */
+  rollout?: number | FlagRollout;
+}
+
+/**
+ * Flag configuration: a static value or a definition. Serve JSON objects
+ * through variants, since plain objects are read as definitions.
+ */
+export type FlagConfig<TUser = any> =
+  | boolean
+  | string
+  | number
+  | null
+  | FlagValue[]
+  | FlagDefinition<TUser>;
+
+/**
+ * Map of flag configurations by flag name
+ */
+export type FlagsConfig<TUser = any> = Record<string, FlagConfig<TUser>>;
+
+/**
+ * A flag resolved for the current user
+ */
+export interface FlagEvaluation<TValue extends FlagValue = FlagValue> {
+  /** Resolved value (undefined for unknown flags and variants) */
+  value: TValue | undefined;
+  /** Variant served, for flags configured with a `FlagDefinition` */
+  variant?: string;
+  /** Whether the value is truthy */
+  enabled: boolean;
+  /** What decided the value */
+  reason: 'static' | 'targeting' | 'rollout' | 'default' | 'unknown';
+}
+
+/**
+ * Definition of a role: the roles it inherits and the permissions it carries
+ */
+export interface RoleDefinition {
+  /** Roles implied by this role (e.g. `admin` inherits `editor`) */
+  inherits?: string[];
+  /** Permissions granted to anyone holding this role */
+  permissions?: string[];
+}
+
+/**
+ * Map of role name to role definition
+ */
+export type RoleDefinitionsMap = Record<string, RoleDefinition>;
+
+/**
+ * How allow and deny statements for the same key are combined:
+ * - 'deny-overrides': any applicable deny wins (default)
+ * - 'allow-overrides': any applicable allow wins
+ * - 'first-applicable': the first applicable statement wins, in order:
+ *   deny rule, then the custom rule or the `permissions` entries in array order, then roles
+ */
+export type CombiningAlgorithm = 'deny-overrides' | 'allow-overrides' | 'first-applicable';
+
+/**
+ * Options that tune how the rule engine evaluates a permission check
+ */
+export interface EvaluationOptions {
+  /**
+   * Segment separator(s) used when matching wildcard permission grants
+   * such as `post.*` or `billing:*:read`. Defaults to `.` and `:`.
+   */
+  permissionSeparator?: string | string[];
+  /**
+   * Deny rules keyed by permission key. A deny rule returning true
+   * (or throwing) denies the key.
+   */
+  denyRules?: PermissionRulesMap<any, any>;
+  /** Combining algorithm for allow/deny statements (defaults to 'deny-overrides') */
+  combiningAlgorithm?: CombiningAlgorithm;
+  /**
+   * Maps an ability's action and subject type to a rule key
+   * (defaults to `invoice.update` for `('update', 'Invoice')`)
+   */
+  subjectKey?: (action: string, subjectType: string) => string;
+  /** Detects the subject type of a resource used as an ability subject */
+  detectSubjectType?: (resource: any) => string | undefined;
+  /** Field-level rules used by `evaluatePermittedFields` */
+  fieldRules?: FieldRulesMap<any>;
+  /** Default timeout in ms for each rule invocation */
+  timeout?: number;
+  /** Timeouts in ms per rule key (or combinator label), overriding `timeout` */
+  ruleTimeouts?: Record<string, number>;
+  /**
+   * Stop evaluating an array check once its outcome is decided
+   * (by default every key is evaluated)
+   */
+  shortCircuit?: ShortCircuitMode;
+}
+
 /**
  * Mode for rendering behavior when permission is denied
  */
 export type PermissionMode = 'hide' | 'disable';
 
+/**
+ * Roles, permissions and flags loaded by a data adapter; fields that are
+ * omitted fall back to the provider's props
+ */
+export interface PermissionData<TUser = any> {
+  roles?: string[];
+  permissions?: string[];
+  flags?: FlagsConfig<TUser>;
+}
+
+/**
+ * Source of roles, permissions and flags for the PermissionsProvider
+ * (see `StaticDataAdapter`, `RestDataAdapter` and `LocalStorageDataAdapter`)
+ */
+export interface PermissionDataAdapter<TUser = any> {
+  /** Loads the current data */
+  load(signal?: AbortSignal): PermissionData<TUser> | Promise<PermissionData<TUser>>;
+  /**
+   * Data available without loading (static, stored or previously loaded),
+   * so the provider can decide checks on its first render
+   */
+  getSnapshot?(): PermissionData<TUser> | undefined;
+  /** Calls the listener whenever the data changes; returns an unsubscribe function */
+  subscribe?(listener: (data: PermissionData<TUser>) => void): () => void;
+  /**
+   * Reloads the data and notifies subscribers (the provider calls `load`
+   * when omitted)
+   */
+  refresh?(): Promise<PermissionData<TUser>>;
+}
+
+/**
+ * Change to a list of roles or permissions: a new list, or entries to add
+ * and remove
+ */
+export type PermissionListUpdate = string[] | { add?: string[]; remove?: string[] };
+
+/**
+ * Permission update pushed over a live channel
+ */
+export interface PermissionDiff<TUser = any> {
+  roles?: PermissionListUpdate;
+  permissions?: PermissionListUpdate;
+  /** Flags to set (static values or definitions) and flag names to remove */
+  flags?: { set?: FlagsConfig<TUser>; remove?: string[] };
+}
+
+/**
+ * Push channel delivering permission diffs to the PermissionsProvider
+ * (see `WebSocketPermissionChannel`, `EventSourcePermissionChannel`,
+ * `BroadcastPermissionChannel` and `InMemoryPermissionChannel`)
+ */
+export interface PermissionChannel<TUser = any> {
+  /** Calls the listener for every diff received; returns an unsubscribe function */
+  subscribe(listener: (diff: PermissionDiff<TUser>) => void): () => void;
+}
+
+/**
+ * Roles and permissions a live update took away
+ */
+export interface RevokedAccess {
+  roles: string[];
+  permissions: string[];
+}
+
+/**
+ * Serializable decisions for server-side rendering, keyed by check,
+ * resource and mode (see `createDecisionSnapshot`)
+ */
+export interface DecisionSnapshot {
+  decisions: Record<
+    string,
+    {
+      allowed: boolean;
+      ruleResults: RuleEvaluationResult[];
+      errorPolicy?: ErrorPolicyResolution;
+    }
+  >;
+}
+
 /**
  * Configuration for the PermissionsProvider
  */
@@ -62,8 +478,91 @@ export interface PermissionsConfig<TUser = any> {
   permissions?: string[];
   /** Named permission rules */
   rules?: PermissionRulesMap<TUser, any>;
-  /** Feature flags */
-  flags?: Record<string, boolean>;
+  /**
+   * Deny rules keyed by permission key, e.g.
+   * `{ 'post.delete': ({ user }) => user.suspended }`
+   */
+  denyRules?: PermissionRulesMap<TUser, any>;
+  /** Combining algorithm for allow/deny statements (defaults to 'deny-overrides') */
+  combiningAlgorithm?: CombiningAlgorithm;
+  /**
+   * Maps an ability's action and subject type to a rule key
+   * (defaults to `invoice.update` for `('update', 'Invoice')`)
+   */
+  subjectKey?: (action: string, subjectType: string) => string;
+  /** Detects the subject type of a resource used as an ability subject */
+  detectSubjectType?: (resource: any) => string | undefined;
+  /**
+   * Field-level rules keyed by ability rule key, then field name.
+   * Fields without a rule follow the ability itself.
+   */
+  fieldRules?: FieldRulesMap<TUser>;
+  /**
+   * Role definitions used to expand `roles` into effective roles and permissions
+   * (role inheritance and role-carried permissions)
+   */
+  roleDefinitions?: RoleDefinitionsMap;
+  /**
+   * Feature flags: static values (boolean, string, number) or definitions
+   * with variants, targeting rules and percentage rollouts
+   */
+  flags?: FlagsConfig<TUser>;
+  /**
+   * Segment separator(s) for wildcard permission grants (`post.*`, `billing:**`).
+   * Defaults to `.` and `:`.
+   */
+  permissionSeparator?: string | string[];
+  /**
+   * Cache decisions by check, resource and mode (`true` for defaults).
+   * The cache is cleared when user, roles, permissions, flags or rules change.
+   * Options are compared by value, but `resourceKey` by identity: define it
+   * outside the component.
+   */
+  cache?: boolean | DecisionCacheOptions;
+  /**
+   * Default timeout in ms for each rule invocation; a rule that takes
+   * longer is denied with a `timeout` outcome
+   */
+  timeout?: number;
+  /** Timeouts in ms per rule key, overriding `timeout` */
+  ruleTimeouts?: Record<string, number>;
+  /**
+   * Short-circuit array checks: `'sequential'` (in order) or `'race'`
+   * (in parallel). Keys not needed for the decision are marked `skipped`.
+   */
+  shortCircuit?: ShortCircuitMode;
+  /**
+   * Decision for denied evaluations that contain rule errors or timeouts
+   * (defaults to 'deny')
+   */
+  onError?: RuleErrorPolicy;
+  /** Called for every rule that throws or times out, e.g. for error reporting */
+  onRuleError?: (event: RuleErrorEvent) => void;
+  /**
+   * Loads roles, permissions and flags (overriding the props of the same
+   * name) and pushes updates; checks wait for the first load
+   */
+  dataAdapter?: PermissionDataAdapter<TUser>;
+  /**
+   * Channel pushing permission diffs (e.g. a revoked role); diffs apply on
+   * top of props and adapter data until either changes
+   */
+  liveUpdates?: PermissionChannel<TUser>;
+  /** Called when a live update takes roles or permissions away */
+  onRevoked?: (revoked: RevokedAccess) => void;
+  /**
+   * Suspense mode: `usePermission`, `usePermissions` and `useFilterPermitted`
+   * suspend while async rules are pending (for the nearest `<Suspense>`
+   * boundary) instead of reporting `loading`, and throw evaluation errors to
+   * error boundaries. `usePermittedFields` still reports `loading`.
+   */
+  suspense?: boolean;
+  /**
+   * Decisions pre-evaluated on the server (see `createDecisionSnapshot`);
+   * hooks start from them, so hydration matches the server render. They
+   * apply until the user, roles, permissions, flags or rules change.
+   */
+  initialDecisions?: DecisionSnapshot;
   /** Enable dev tools panel (defaults to process.env.NODE_ENV !== 'production') */
   enableDevTools?: boolean;
 }
@@ -73,19 +572,107 @@ export interface PermissionsConfig<TUser = any> {
  */
 export interface PermissionsContextValue<TUser = any> {
   user: TUser;
+  /** Effective roles (after role definition expansion) */
   roles: string[];
+  /** Effective permissions (after role definition expansion) */
   permissions: string[];
   rules: PermissionRulesMap<TUser, any>;
-  flags: Record<string, boolean>;
+  /** Flag values resolved for the current user */
+  flags: Record<string, FlagValue>;
+  /** Resolved flags with their variant and what decided them (see `useFlag`) */
+  flagEvaluations: Record<string, FlagEvaluation>;
   enableDevTools: boolean;
+  /** Whether Suspense mode is on (see `PermissionsConfig.suspense`) */
+  suspense: boolean;
+  /** Whether the data adapter is loading */
+  dataLoading: boolean;
+  /** Error of the data adapter's last load, if it failed */
+  dataError: unknown;
+  /** Reloads the data adapter's data */
+  refreshData: () => Promise<void>;
   
   /** Internal: Evaluate a permission check */
   evaluatePermission: <TResource = any>(
+    check: PermissionCheck<TUser, TResource>,
+    resource?: TResource,
+    mode?: 'any' | 'all',
+    signal?: AbortSignal
+  ) => Promise<boolean>;
+  
+  /**
+   * Evaluates a permission check into a decision with its explanation
+   * (`reason`, `code` and `meta` from the rule that decided it)
+   */
+  evaluateDecision: <TResource = any>(
+    check: PermissionCheck<TUser, TResource>,
+    resource?: TResource,
+    mode?: 'any' | 'all',
+    signal?: AbortSignal
+  ) => Promise<PermissionDecision>;
+  
+  /**
+   * Evaluates named checks on one resource together, registering a single
+   * dev tools record (see `usePermissions`)
+   */
+  evaluateDecisions: <TResource = any, TName extends string = string>(
+    checks: Record<TName, PermissionCheck<TUser, TResource>>,
+    resource?: TResource,
+    mode?: 'any' | 'all',
+    signal?: AbortSignal
+  ) => Promise<Record<TName, PermissionDecision>>;
+  
+  /**
+   * Internal: Decides a check during render when every rule it reaches is
+   * synchronous (or the decision is cached); `undefined` when it must wait
+   */
+  evaluateDecisionSync: <TResource = any>(
     check: PermissionCheck<TUser, TResource>,
     resource?: TResource,
     mode?: 'any' | 'all'
+  ) => PermissionDecision | undefined;
+  
+  /**
+   * Internal: Suspense form of evaluateDecision; throws a promise while
+   * async rules are pending and throws evaluation errors
+   */
+  readDecision: <TResource = any>(
+    check: PermissionCheck<TUser, TResource>,
+    resource?: TResource,
+    mode?: 'any' | 'all'
+  ) => PermissionDecision;
+  
+  /**
+   * Checks whether the user can perform an action on a subject type or resource
+   * 
+   * @example
+   * ```ts
+   * await can('update', 'Invoice', invoice);
+   * await can('update', invoice); // subject type detected from the resource
+   * ```
+   */
+  can: <TResource = any>(
+    action: string,
+    subject: string | TResource,
+    resource?: TResource
   ) => Promise<boolean>;
   
+  /**
+   * Evaluates which fields of a resource the user may access for an action
+   * (see `usePermittedFields`)
+   */
+  evaluatePermittedFields: <TResource = any>(
+    action: string,
+    resource: TResource,
+    subjectType?: string,
+    signal?: AbortSignal
+  ) => Promise<string[]>;
+  
+  /**
+   * Drops cached decisions involving a rule key (all decisions when omitted)
+   * and re-runs mounted permission checks
+   */
+  invalidate: (key?: string) => void;
+  
   /** Internal: Register permission evaluation for dev tools */
   registerEvaluation?: (evaluation: PermissionEvaluation) => void;
 }
@@ -110,8 +697,31 @@ export interface PermissionEvaluation {
   component?: string;
   /** Evaluation mode (any/all) */
   mode?: 'any' | 'all';
+  /** True if the decision was served from the decision cache */
+  cached?: boolean;
+  /** Set when rule errors were present and the error policy was consulted */
+  errorPolicy?: ErrorPolicyResolution;
+  /** Explanation of the decision, if a rule gave one */
+  reason?: string;
+  /** Code of the decision, if a rule gave one */
+  code?: string;
 }
 
+/**
+ * Why a rule was cut short: it exceeded its timeout, the evaluation was
+ * aborted through its signal, or it was skipped because the outcome of an
+ * array check was already decided
+ */
+export type RuleOutcome = 'timeout' | 'aborted' | 'skipped';
+
+/**
+ * Short-circuit strategy for array checks
+ * 
+ * - `'sequential'`: evaluate keys in order, stopping once the outcome is decided
+ * - `'race'`: evaluate keys in parallel, resolving as soon as the outcome is decided
+ */
+export type ShortCircuitMode = 'sequential' | 'race';
+
 /**
  * Result of evaluating a single rule
  */
@@ -124,6 +734,18 @@ export interface RuleEvaluationResult {
   duration: number;
   /** Error if rule threw */
   error?: string;
+  /** Set when the rule was cut short (the result is then `false`) */
+  outcome?: RuleOutcome;
+  /** Deny statement that denied the key (a `!permission` grant or `denyRules[...]`) */
+  deniedBy?: string;
+  /** Explanation from a rule that returned a PermissionDecision */
+  reason?: string;
+  /** Code from a rule that returned a PermissionDecision */
+  code?: string;
+  /** Meta from a rule that returned a PermissionDecision */
+  meta?: Record<string, unknown>;
+  /** Results of nested subexpressions (for composite checks) */
+  children?: RuleEvaluationResult[];
 }
 
 /**
@@ -141,5 +763,5 @@ export interface DevToolsState {
   /** Override permissions for testing */
   overridePermissions?: string[];
   /** Override flags for testing */
-  overrideFlags?: Record<string, boolean>;
+  overrideFlags?: FlagsConfig;
 }
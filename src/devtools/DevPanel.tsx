@@ -9,7 +9,7 @@ import React, { useState, useMemo } from 'react';
 import { devStore } from './DevStore';
 import { useDevToolsState } from './useDevRegister';
 import { usePermissionsContext } from '../react/PermissionsProvider';
-import type { PermissionEvaluation } from '../core/types';
+import type { FlagValue, PermissionEvaluation, RuleEvaluationResult } from '../core/types';
 
 const PANEL_STYLES = {
   container: {
@@ -97,6 +97,11 @@ const PANEL_STYLES = {
     marginRight: '4px',
     marginTop: '4px',
   },
+  ruleChildren: {
+    marginLeft: '12px',
+    paddingLeft: '6px',
+    borderLeft: '1px dashed #3e3e3e',
+  },
   successBadge: {
     backgroundColor: '#4caf50',
     color: '#fff',
@@ -105,6 +110,10 @@ const PANEL_STYLES = {
     backgroundColor: '#f44336',
     color: '#fff',
   },
+  skippedBadge: {
+    backgroundColor: '#555',
+    color: '#ccc',
+  },
   toggle: {
     position: 'fixed' as const,
     bottom: '10px',
@@ -171,7 +180,8 @@ export function DevPanel() {
   // Apply overrides to current context
   const effectiveRoles = state.overrideRoles || context.roles;
   const effectivePermissions = state.overridePermissions || context.permissions;
-  const effectiveFlags = state.overrideFlags || context.flags;
+  // Flags are resolved by the provider, which already receives the overrides
+  const effectiveFlags = context.flags;
   
   return (
     <>
@@ -303,20 +313,24 @@ function EvaluationsTab({ evaluations }: { evaluations: PermissionEvaluation[] }
           <div style={PANEL_STYLES.timestamp}>
             {new Date(evaluation.timestamp).toLocaleTimeString()}
             {evaluation.mode && ` • mode: ${evaluation.mode}`}
+            {evaluation.cached && ' • cached'}
+            {evaluation.errorPolicy &&
+              ` • on error: ${evaluation.errorPolicy.policy} (${evaluation.errorPolicy.attempts} ${
+                evaluation.errorPolicy.attempts === 1 ? 'attempt' : 'attempts'
+              })`}
           </div>
           
+          {(evaluation.reason || evaluation.code) && (
+            <div style={{ marginTop: '4px', color: '#d4d4d4' }}>
+              {evaluation.code && <code>{evaluation.code}</code>}
+              {evaluation.code && evaluation.reason && ' '}
+              {evaluation.reason}
+            </div>
+          )}
+          
           <div style={{ marginTop: '6px' }}>
             {evaluation.ruleResults.map((result, idx) => (
-              <span
-                key={idx}
-                style={{
-                  ...PANEL_STYLES.badge,
-                  ...(result.result ? PANEL_STYLES.successBadge : PANEL_STYLES.errorBadge),
-                }}
-                title={`${result.duration.toFixed(2)}ms${result.error ? ` - ${result.error}` : ''}`}
-              >
-                {result.rule}: {result.result ? '✓' : '✗'}
-              </span>
+              <RuleResultTree key={idx} result={result} />
             ))}
           </div>
           
@@ -331,6 +345,45 @@ function EvaluationsTab({ evaluations }: { evaluations: PermissionEvaluation[] }
   );
 }
 
+/**
+ * Rule result badge, with nested subexpression results indented below it
+ */
+function RuleResultTree({ result }: { result: RuleEvaluationResult }) {
+  const badge = (
+    <span
+      style={{
+        ...PANEL_STYLES.badge,
+        ...(result.outcome === 'skipped'
+          ? PANEL_STYLES.skippedBadge
+          : result.result
+          ? PANEL_STYLES.successBadge
+          : PANEL_STYLES.errorBadge),
+      }}
+      title={`${result.duration.toFixed(2)}ms${result.error ? ` - ${result.error}` : ''}${
+        result.deniedBy ? ` - denied by ${result.deniedBy}` : ''
+      }${result.code ? ` - ${result.code}` : ''}${result.reason ? ` - ${result.reason}` : ''}`}
+    >
+      {result.rule}: {result.outcome === 'skipped' ? '–' : result.result ? '✓' : '✗'}
+      {result.outcome && ` (${result.outcome})`}
+    </span>
+  );
+  
+  if (!result.children || result.children.length === 0) {
+    return badge;
+  }
+  
+  return (
+    <div>
+      {badge}
+      <div style={PANEL_STYLES.ruleChildren}>
+        {result.children.map((child, idx) => (
+          <RuleResultTree key={idx} result={child} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
 /**
  * Overrides tab content
  */
@@ -344,10 +397,10 @@ function OverridesTab({
 }: {
   roles: string[];
   permissions: string[];
-  flags: Record<string, boolean>;
+  flags: Record<string, FlagValue>;
   effectiveRoles: string[];
   effectivePermissions: string[];
-  effectiveFlags: Record<string, boolean>;
+  effectiveFlags: Record<string, FlagValue>;
 }) {
   const [newRole, setNewRole] = useState('');
   const [newPermission, setNewPermission] = useState('');
@@ -444,10 +497,11 @@ function OverridesTab({
             <input
               type="checkbox"
               style={PANEL_STYLES.checkbox}
-              checked={value}
+              checked={Boolean(value)}
               onChange={() => devStore.toggleFlag(flag, flags)}
             />
             {flag}
+            {typeof value !== 'boolean' && ` = ${JSON.stringify(value)}`}
           </label>
         ))}
         <input
@@ -480,7 +534,7 @@ function ContextTab({
   user: any;
   roles: string[];
   permissions: string[];
-  flags: Record<string, boolean>;
+  flags: Record<string, FlagValue>;
 }) {
   return (
     <div>
@@ -5,7 +5,7 @@
  * Tracks all permission evaluations and provides override capabilities.
  */
 
-import type { PermissionEvaluation, DevToolsState } from '../core/types';
+import type { PermissionEvaluation, DevToolsState, FlagValue, FlagsConfig } from '../core/types';
 
 /**
  * Dev tools store
@@ -109,7 +109,7 @@ export class DevStore {
   /**
    * Set override flags for testing
    */
-  setOverrideFlags(flags: Record<string, boolean> | undefined) {
+  setOverrideFlags(flags: FlagsConfig | undefined) {
     this.state.overrideFlags = flags;
     this.notify();
   }
@@ -118,7 +118,7 @@ export class DevStore {
    * Toggle a specific role
    */
   toggleRole(role: string, currentRoles: string[]) {
-    const overrideRoles = this.state.overrideRoles || [...currentRoles];
+    const overrideRoles = [...(this.state.overrideRoles || currentRoles)];
     const index = overrideRoles.indexOf(role);
     
     if (index > -1) {
@@ -134,7 +134,8 @@ export class DevStore {
    * Toggle a specific permission
    */
   togglePermission(permission: string, currentPermissions: string[]) {
-    const overridePermissions = this.state.overridePermissions || [...currentPermissions];
+    // Copy rather than mutate: compiled permission matchers are cached by array identity
+    const overridePermissions = [...(this.state.overridePermissions || currentPermissions)];
     const index = overridePermissions.indexOf(permission);
     
     if (index > -1) {
@@ -147,11 +148,13 @@ export class DevStore {
   }
   
   /**
-   * Toggle a feature flag
+   * Toggle a feature flag (non-boolean values toggle to `false`)
+   *
+   * @param currentFlags - Resolved flag values, so overrides are always static
    */
-  toggleFlag(flag: string, currentFlags: Record<string, boolean>) {
-    const overrideFlags = this.state.overrideFlags || { ...currentFlags };
-    overrideFlags[flag] = !overrideFlags[flag];
+  toggleFlag(flag: string, currentFlags: Record<string, FlagValue>) {
+    const overrideFlags: FlagsConfig = { ...(this.state.overrideFlags || currentFlags) };
+    overrideFlags[flag] = !currentFlags[flag];
     
     this.setOverrideFlags(overrideFlags);
   }
@@ -63,6 +63,7 @@ export function PermissionsRoot<TUser = any>(props: PermissionsRootProps<TUser>)
       permissions={effectivePermissions}
       flags={effectiveFlags}
       onEvaluationRegister={registerEvaluation}
+      devOverrides={devState}
     >
       {props.children}
       <DevPanel />
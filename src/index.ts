@@ -13,12 +13,42 @@ export type {
   PermissionRule,
   PermissionRulesMap,
   PermissionCheck,
+  PermissionDecision,
+  RuleReturn,
   PermissionMode,
   PermissionsConfig,
   PermissionsContextValue,
   PermissionEvaluation,
   RuleEvaluationResult,
   DevToolsState,
+  EvaluationOptions,
+  AbilityCheck,
+  RoleDefinition,
+  RoleDefinitionsMap,
+  CombiningAlgorithm,
+  FieldRule,
+  FieldRulesMap,
+  DecisionCacheOptions,
+  RuleOutcome,
+  ShortCircuitMode,
+  RuleErrorPolicy,
+  RuleFailure,
+  RuleErrorEvent,
+  ErrorPolicyResolution,
+  FlagValue,
+  FlagConfig,
+  FlagsConfig,
+  FlagDefinition,
+  FlagTargetingRule,
+  FlagRollout,
+  FlagEvaluation,
+  PermissionData,
+  PermissionDataAdapter,
+  PermissionDiff,
+  PermissionListUpdate,
+  PermissionChannel,
+  RevokedAccess,
+  DecisionSnapshot,
 } from './core/types';
 
 // React components
@@ -29,9 +59,18 @@ export { Permissioned } from './react/Permissioned';
 export type { PermissionedProps } from './react/Permissioned';
 export { ProtectedRoute } from './react/ProtectedRoute';
 export type { ProtectedRouteProps } from './react/ProtectedRoute';
+export { Can } from './react/Can';
+export type { CanProps } from './react/Can';
+export { FeatureGate } from './react/FeatureGate';
+export type { FeatureGateProps } from './react/FeatureGate';
 
 // Hooks
 export { usePermission, usePermissionValue } from './react/usePermission';
+export { usePermissions } from './react/usePermissions';
+export { useCan } from './react/useCan';
+export { useFilterPermitted } from './react/useFilterPermitted';
+export { usePermittedFields } from './react/usePermittedFields';
+export { useFlag } from './react/useFlag';
 
 // Dev tools (auto-integrated root)
 export { PermissionsRoot } from './devtools/PermissionsRoot';
@@ -41,7 +80,164 @@ export { devStore } from './devtools/DevStore';
 // Core utilities (advanced usage)
 export {
   evaluatePermission,
+  evaluatePermissionEager,
   evaluateRule,
+  evaluateStringRule,
+  evaluateExpression,
+  evaluateComposedRule,
   resolveStringRule,
   createPermissionContext,
+  describeCheck,
+  RuleCycleError,
 } from './core/ruleEngine';
+export {
+  compilePermissionMatcher,
+  matchPermission,
+  getPermissionMatcher,
+} from './core/permissionMatcher';
+export type {
+  PermissionMatcher,
+  PermissionMatchOptions,
+  PermissionGrantMatch,
+} from './core/permissionMatcher';
+export {
+  expandRoles,
+  validateRoleDefinitions,
+  RoleHierarchyError,
+} from './core/roleHierarchy';
+export {
+  parsePermissionExpression,
+  formatPermissionExpression,
+  PermissionExpressionError,
+} from './core/expression';
+export type { PermissionExpression } from './core/expression';
+
+// Rule combinators
+export {
+  and,
+  or,
+  not,
+  ifFlag,
+  hasRole,
+  hasPermission,
+  isOwner,
+  ref,
+  named,
+  getRuleMeta,
+  getRuleLabel,
+} from './core/combinators';
+export type { RuleMeta } from './core/combinators';
+
+// Declarative policies
+export {
+  compilePolicy,
+  validatePolicy,
+  resolvePolicyPath,
+  PolicyValidationError,
+} from './core/policy';
+export type {
+  PolicyDocument,
+  PolicyCondition,
+  PolicyOperator,
+  PolicyIssue,
+} from './core/policy';
+
+// Ability model
+export {
+  isAbilityCheck,
+  detectSubjectType,
+  defaultSubjectKey,
+  resolveAbility,
+} from './core/ability';
+export type { ResolvedAbility } from './core/ability';
+
+// Field-level permissions
+export { evaluatePermittedFields, pickPermitted } from './core/fieldPermissions';
+export type { FieldPermissionsResult } from './core/fieldPermissions';
+
+// Relationship-based access control
+export {
+  InMemoryRelationshipStore,
+  checkRelation,
+  hasRelation,
+  RelationDepthError,
+} from './core/relationships';
+export type {
+  RelationTuple,
+  RelationshipStore,
+  RelationDefinition,
+  RelationSchema,
+  RelationCheckOptions,
+  RelationRuleConfig,
+} from './core/relationships';
+
+// Decision cache
+export { DecisionCache, decisionKey } from './core/decisionCache';
+export type { CachedDecision } from './core/decisionCache';
+
+// Batched rules
+export { batched } from './core/batching';
+export type { BatchLoader, BatchOptions } from './core/batching';
+
+// Error policy
+export { applyErrorPolicy, collectRuleFailures } from './core/errorPolicy';
+export type { PolicyDecision, ErrorPolicyOptions } from './core/errorPolicy';
+
+// Decision explanations
+export { explainDecision, isPermissionDecision } from './core/decisions';
+
+// Feature flags
+export {
+  resolveFlag,
+  resolveFlags,
+  flagBucket,
+  flagMatches,
+  isFlagDefinition,
+} from './core/flags';
+export type { ResolvedFlags } from './core/flags';
+
+// Data adapters
+export {
+  StaticDataAdapter,
+  RestDataAdapter,
+  LocalStorageDataAdapter,
+  DataAdapterError,
+} from './core/dataAdapters';
+export type {
+  RestDataAdapterOptions,
+  LocalStorageDataAdapterOptions,
+} from './core/dataAdapters';
+
+// Live updates
+export {
+  applyPermissionDiff,
+  revokedAccess,
+  WebSocketPermissionChannel,
+  EventSourcePermissionChannel,
+  BroadcastPermissionChannel,
+  InMemoryPermissionChannel,
+} from './core/liveUpdates';
+export type {
+  ChannelMessageOptions,
+  WebSocketChannelOptions,
+  EventSourceChannelOptions,
+} from './core/liveUpdates';
+
+// Server-side rendering
+export { createConfigEvaluator, evaluationOptionsOf } from './core/configEvaluation';
+export type { ConfigEvaluator } from './core/configEvaluation';
+export { createDecisionSnapshot, serializeDecisionSnapshot } from './core/snapshot';
+export type { SnapshotCheck } from './core/snapshot';
+
+// Server-side authorization (also available React-free from 'react-auth-gate/server')
+export { createAuthorizer, ForbiddenError } from './core/authorizer';
+export type { Authorizer, AuthorizerConfig } from './core/authorizer';
+export { authorizeRequests, requirePermission } from './core/middleware';
+export type {
+  AuthorizedRequest,
+  AuthorizeRequestsOptions,
+  RequestPermissions,
+  RequirePermissionOptions,
+  RequestMiddleware,
+  NextFunction,
+} from './core/middleware';
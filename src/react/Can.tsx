@@ -0,0 +1,83 @@
+/**
+ * Can Component
+ * 
+ * Action/subject flavour of PermissionsGate.
+ * Maps `action` + `subject` onto the same string rules (e.g. `invoice.update`).
+ */
+
+import React, { ReactNode, useMemo } from 'react';
+import { PermissionsGate } from './PermissionsGate';
+import type { AbilityCheck, PermissionDecision, PermissionMode } from '../core/types';
+
+export interface CanProps<TResource = any> {
+  /**
+   * Action to perform (e.g. 'update')
+   */
+  action: string;
+  
+  /**
+   * Subject type name (e.g. 'Invoice') or a resource whose type is detected
+   */
+  subject: string | TResource;
+  
+  /**
+   * Resource to check against when `subject` is a type name
+   */
+  resource?: TResource;
+  
+  /**
+   * Fallback content to render when permission is denied
+   * A function receives the decision, to render its `reason`.
+   */
+  fallback?: ReactNode | ((decision: PermissionDecision) => ReactNode);
+  
+  /**
+   * How to handle denied permissions ('hide' by default, or 'disable')
+   */
+  mode?: PermissionMode;
+  
+  /**
+   * Children to protect with permission check
+   */
+  children: ReactNode;
+}
+
+/**
+ * Can Component
+ * 
+ * @example
+ * ```tsx
+ * <Can action="update" subject="Invoice" resource={invoice}>
+ *   <EditInvoiceButton />
+ * </Can>
+ * 
+ * // Subject type detected from the resource (__typename or static modelName)
+ * <Can action="delete" subject={invoice} mode="disable">
+ *   <DeleteButton />
+ * </Can>
+ * 
+ * // Fallback explaining the denial
+ * <Can action="refund" subject={invoice} fallback={({ reason }) => <Hint text={reason} />}>
+ *   <RefundButton />
+ * </Can>
+ * ```
+ */
+export function Can<TResource = any>({
+  action,
+  subject,
+  resource,
+  fallback,
+  mode,
+  children,
+}: CanProps<TResource>) {
+  const ability = useMemo<AbilityCheck<TResource>>(
+    () => ({ action, subject }),
+    [action, subject]
+  );
+  
+  return (
+    <PermissionsGate allow={ability} resource={resource} fallback={fallback} mode={mode}>
+      {children}
+    </PermissionsGate>
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * FeatureGate Component
+ * 
+ * Renders children when a feature flag is on, or serves one of the given
+ * variants.
+ */
+
+import React, { ReactNode } from 'react';
+import { useFlag } from './useFlag';
+
+export interface FeatureGateProps {
+  /**
+   * Flag name
+   */
+  flag: string;
+  
+  /**
+   * Variant (or any of several variants) the flag must serve
+   * If not provided, the flag's value must be truthy.
+   */
+  variant?: string | string[];
+  
+  /**
+   * Fallback content to render when the flag does not match
+   */
+  fallback?: ReactNode;
+  
+  /**
+   * Children to render when the flag matches
+   */
+  children: ReactNode;
+}
+
+/**
+ * FeatureGate Component
+ * 
+ * Static flags match a variant by their value (`theme: 'dark'` matches `"dark"`).
+ * 
+ * @example
+ * ```tsx
+ * <FeatureGate flag="newEditor">
+ *   <NewEditor />
+ * </FeatureGate>
+ * 
+ * <FeatureGate flag="checkout" variant="b" fallback={<ClassicCheckout />}>
+ *   <OnePageCheckout />
+ * </FeatureGate>
+ * ```
+ */
+export function FeatureGate({ flag, variant, fallback = null, children }: FeatureGateProps) {
+  const evaluation = useFlag(flag);
+  
+  let matches: boolean;
+  if (variant === undefined) {
+    matches = evaluation.enabled;
+  } else {
+    const served = evaluation.variant ?? staticVariant(evaluation.value);
+    matches = served !== undefined && (Array.isArray(variant) ? variant : [variant]).includes(served);
+  }
+  
+  return <>{matches ? children : fallback}</>;
+}
+
+/**
+ * Variant name of a static primitive flag value
+ */
+function staticVariant(value: unknown): string | undefined {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+    ? String(value)
+    : undefined;
+}
@@ -7,7 +7,7 @@
 
 import React, { ReactNode } from 'react';
 import { usePermission } from './usePermission';
-import type { PermissionCheck } from '../core/types';
+import type { PermissionCheck, PermissionDecision } from '../core/types';
 
 export interface PermissionedProps<TUser = any, TResource = any> {
   /**
@@ -21,9 +21,10 @@ export interface PermissionedProps<TUser = any, TResource = any> {
   resource?: TResource;
   
   /**
-   * Render function that receives permission result
+   * Render function that receives permission result, plus the decision
+   * with its explanation (`reason`, `code`, `meta`) if a rule gave one
    */
-  children: (allowed: boolean, loading: boolean) => ReactNode;
+  children: (allowed: boolean, loading: boolean, decision: PermissionDecision) => ReactNode;
 }
 
 /**
@@ -41,6 +42,15 @@ export interface PermissionedProps<TUser = any, TResource = any> {
  *     </button>
  *   )}
  * </Permissioned>
+ * 
+ * // Explaining a denial
+ * <Permissioned allow="post.publish" resource={post}>
+ *   {(allowed, loading, { reason }) => (
+ *     <button disabled={!allowed || loading} title={reason}>
+ *       Publish
+ *     </button>
+ *   )}
+ * </Permissioned>
  * ```
  */
 export function Permissioned<TUser = any, TResource = any>({
@@ -48,7 +58,7 @@ export function Permissioned<TUser = any, TResource = any>({
   resource,
   children,
 }: PermissionedProps<TUser, TResource>) {
-  const { allowed, loading } = usePermission(allow, resource);
+  const { loading, ...decision } = usePermission(allow, resource);
   
-  return <>{children(allowed, loading)}</>;
+  return <>{children(decision.allowed, loading, decision)}</>;
 }
@@ -7,12 +7,12 @@
 
 import React, { ReactNode, ReactElement, cloneElement } from 'react';
 import { usePermission } from './usePermission';
-import type { PermissionCheck, PermissionMode } from '../core/types';
+import type { PermissionCheck, PermissionDecision, PermissionMode } from '../core/types';
 
 export interface PermissionsGateProps<TUser = any, TResource = any> {
   /**
    * Primary permission check
-   * Can be a string, array of strings, or inline rule function
+   * Can be a string (key or expression), array of strings, or inline rule function
    */
   allow?: PermissionCheck<TUser, TResource>;
   
@@ -35,9 +35,10 @@ export interface PermissionsGateProps<TUser = any, TResource = any> {
   
   /**
    * Fallback content to render when permission is denied
-   * If not provided and mode is 'hide', nothing is rendered
+   * If not provided and mode is 'hide', nothing is rendered.
+   * A function receives the decision, to render its `reason`.
    */
-  fallback?: ReactNode;
+  fallback?: ReactNode | ((decision: PermissionDecision) => ReactNode);
   
   /**
    * How to handle denied permissions:
@@ -74,6 +75,11 @@ export interface PermissionsGateProps<TUser = any, TResource = any> {
  *   <AdminPanel />
  * </PermissionsGate>
  * 
+ * // Boolean expression over rules, roles, permissions and flags
+ * <PermissionsGate allow="(admin or post.owner) and not post.archived" resource={post}>
+ *   <ArchiveButton />
+ * </PermissionsGate>
+ * 
  * // Check multiple permissions (all)
  * <PermissionsGate all={["post.edit", "post.publish"]}>
  *   <PublishButton />
@@ -83,6 +89,16 @@ export interface PermissionsGateProps<TUser = any, TResource = any> {
  * <PermissionsGate allow="premium.feature" fallback={<UpgradePrompt />}>
  *   <PremiumFeature />
  * </PermissionsGate>
+ * 
+ * // Fallback explaining the denial
+ * <PermissionsGate
+ *   allow="project.create"
+ *   fallback={({ reason, code }) =>
+ *     code === 'PLAN_LIMIT' ? <UpgradePrompt /> : <p>{reason}</p>
+ *   }
+ * >
+ *   <NewProjectButton />
+ * </PermissionsGate>
  * ```
  */
 export function PermissionsGate<TUser = any, TResource = any>({
@@ -112,10 +128,10 @@ export function PermissionsGate<TUser = any, TResource = any>({
     console.warn(
       'PermissionsGate: No permission check specified (allow, any, or all). Denying access.'
     );
-    return fallback ? <>{fallback}</> : null;
+    return fallback ? <>{renderFallback(fallback, { allowed: false })}</> : null;
   }
   
-  const { allowed, loading } = usePermission(check, resource, evalMode);
+  const { loading, ...decision } = usePermission(check, resource, evalMode);
   
   // While loading, optionally show loading state
   // For now, we treat loading as "not allowed" for security
@@ -124,9 +140,9 @@ export function PermissionsGate<TUser = any, TResource = any>({
   }
   
   // Permission denied
-  if (!allowed) {
+  if (!decision.allowed) {
     if (mode === 'hide') {
-      return fallback ? <>{fallback}</> : null;
+      return fallback ? <>{renderFallback(fallback, decision)}</> : null;
     }
     
     // mode === 'disable'
@@ -138,6 +154,16 @@ export function PermissionsGate<TUser = any, TResource = any>({
   return <>{children}</>;
 }
 
+/**
+ * Renders a fallback, passing the decision to fallback functions
+ */
+function renderFallback(
+  fallback: NonNullable<PermissionsGateProps['fallback']>,
+  decision: PermissionDecision
+): ReactNode {
+  return typeof fallback === 'function' ? fallback(decision) : fallback;
+}
+
 /**
  * Helper function to add disabled prop to React elements
  */
@@ -5,17 +5,339 @@
  * Manages user, roles, permissions, rules, and feature flags.
  */
 
-import React, { createContext, useContext, useMemo, useCallback, ReactNode } from 'react';
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useCallback,
+  useRef,
+  useState,
+  ReactNode,
+} from 'react';
 import type {
   PermissionsConfig,
   PermissionsContextValue,
   PermissionCheck,
+  PermissionDecision,
   PermissionEvaluation,
+  EvaluationOptions,
+  PermissionRulesMap,
+  FlagsConfig,
+  PermissionData,
+  PermissionDataAdapter,
+  PermissionChannel,
+  RevokedAccess,
+  DevToolsState,
 } from '../core/types';
 import {
   evaluatePermission as evaluatePermissionCore,
+  evaluatePermissionEager,
   createPermissionContext,
+  describeCheck,
 } from '../core/ruleEngine';
+import { expandRoles } from '../core/roleHierarchy';
+import { evaluatePermittedFields as evaluatePermittedFieldsCore } from '../core/fieldPermissions';
+import { DecisionCache, decisionKey, involvesRule } from '../core/decisionCache';
+import { applyErrorPolicy, collectRuleFailures } from '../core/errorPolicy';
+import { explainDecision } from '../core/decisions';
+import { resolveFlags } from '../core/flags';
+import { applyPermissionDiff, revokedAccess } from '../core/liveUpdates';
+import type { PolicyDecision } from '../core/errorPolicy';
+
+// Stable defaults, so omitted props don't invalidate memoized values every render
+const NO_ROLES: string[] = [];
+const NO_PERMISSIONS: string[] = [];
+const NO_RULES: PermissionRulesMap = {};
+const NO_FLAGS: FlagsConfig = {};
+
+// Settled Suspense reads kept for re-renders; pending reads are never evicted
+const MAX_SUSPENDED_DECISIONS = 500;
+
+/**
+ * An evaluation shared by identical concurrent checks; aborted once every
+ * consumer that passed a signal has aborted
+ */
+interface InFlightEvaluation {
+  promise: Promise<PolicyDecision>;
+  controller: AbortController;
+  consumers: number;
+}
+
+/**
+ * A decision read in Suspense mode; the promise is thrown while pending
+ */
+interface SuspendedDecision {
+  promise: Promise<void>;
+  decision?: PermissionDecision;
+  error?: unknown;
+  failed?: boolean;
+}
+
+/**
+ * Drops the least recently read settled decisions while the map is full
+ */
+function evictSettled(suspended: Map<string, SuspendedDecision>): void {
+  for (const [key, entry] of suspended) {
+    if (suspended.size < MAX_SUSPENDED_DECISIONS) {
+      return;
+    }
+    if (entry.decision || entry.failed) {
+      suspended.delete(key);
+    }
+  }
+}
+
+/**
+ * Data adapter state; `ready` settles once the first load does
+ */
+interface AdapterDataState<TUser> {
+  adapter?: PermissionDataAdapter<TUser>;
+  data?: PermissionData<TUser>;
+  loading: boolean;
+  error?: unknown;
+  ready?: { promise: Promise<void>; resolve: () => void };
+}
+
+function initialDataState<TUser>(
+  adapter: PermissionDataAdapter<TUser> | undefined
+): AdapterDataState<TUser> {
+  if (!adapter) {
+    return { loading: false };
+  }
+  
+  const data = adapter.getSnapshot?.();
+  if (data !== undefined) {
+    return { adapter, data, loading: true };
+  }
+  
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  
+  return { adapter, loading: true, ready: { promise, resolve } };
+}
+
+/**
+ * Loads a data adapter's data and follows its updates
+ * 
+ * Returns `ready` while the first load is pending (and there is no
+ * snapshot), so checks can wait for the data instead of deciding on props.
+ */
+function useAdapterData<TUser>(adapter: PermissionDataAdapter<TUser> | undefined) {
+  const [state, setState] = useState(() => initialDataState(adapter));
+  
+  // A new adapter starts over
+  let current = state;
+  if (state.adapter !== adapter) {
+    current = initialDataState(adapter);
+    setState(current);
+  }
+  
+  const receive = useCallback(
+    (data: PermissionData<TUser>) =>
+      setState((previous) =>
+        previous.adapter === adapter
+          ? { ...previous, data, loading: false, error: undefined }
+          : previous
+      ),
+    [adapter]
+  );
+  
+  const fail = useCallback(
+    (error: unknown) =>
+      setState((previous) =>
+        previous.adapter === adapter ? { ...previous, loading: false, error } : previous
+      ),
+    [adapter]
+  );
+  
+  useEffect(() => {
+    if (!adapter) {
+      return;
+    }
+    
+    const controller = new AbortController();
+    const onData = (data: PermissionData<TUser>) => {
+      if (!controller.signal.aborted) {
+        receive(data);
+      }
+    };
+    
+    // Revalidates the snapshot too; a sync throw becomes a failed load
+    new Promise<PermissionData<TUser>>((resolve) => resolve(adapter.load(controller.signal)))
+      .then(onData, (error) => {
+        if (!controller.signal.aborted) {
+          fail(error);
+        }
+      });
+    const unsubscribe = adapter.subscribe?.(onData);
+    
+    return () => {
+      controller.abort();
+      unsubscribe?.();
+    };
+  }, [adapter, receive, fail]);
+  
+  // Checks waiting for the first load resume once its data is rendered
+  useEffect(() => {
+    if (state.data !== undefined || state.error !== undefined) {
+      state.ready?.resolve();
+    }
+  }, [state]);
+  
+  const refresh = useCallback(async () => {
+    if (!adapter) {
+      return;
+    }
+    
+    setState((previous) =>
+      previous.adapter === adapter ? { ...previous, loading: true } : previous
+    );
+    
+    try {
+      receive(await (adapter.refresh ? adapter.refresh() : adapter.load()));
+    } catch (error) {
+      fail(error);
+    }
+  }, [adapter, receive, fail]);
+  
+  const waiting = current.data === undefined && current.error === undefined;
+  
+  return {
+    data: current.data,
+    loading: current.loading,
+    error: current.error,
+    ready: waiting ? current.ready?.promise : undefined,
+    refresh,
+  };
+}
+
+function isSameList(a: readonly unknown[], b: readonly unknown[]): boolean {
+  return a === b || (a.length === b.length && a.every((item, index) => item === b[index]));
+}
+
+function isSameRecord(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  if (a === b) {
+    return true;
+  }
+  
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length && keys.every((key) => key in b && a[key] === b[key])
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Structural equality for option objects: arrays and plain objects compare
+ * by content, functions and everything else by identity
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isSameValue(item, b[index]));
+  }
+  
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isSameValue(a[key], b[key]))
+    );
+  }
+  
+  return false;
+}
+
+/**
+ * Returns the previous value while it is structurally unchanged, so inline
+ * option objects like `cache={{ ttl: 5000 }}` keep the decision cache
+ */
+function useStableValue<T>(value: T): T {
+  const ref = useRef(value);
+  
+  if (!isSameValue(ref.current, value)) {
+    ref.current = value;
+  }
+  
+  return ref.current;
+}
+
+/**
+ * Shallow equality for permission data, so inline `roles={[...]}` props
+ * don't count as a change on every render
+ */
+function isSameData<TUser>(
+  a: Required<PermissionData<TUser>>,
+  b: Required<PermissionData<TUser>>
+): boolean {
+  return (
+    isSameList(a.roles, b.roles) &&
+    isSameList(a.permissions, b.permissions) &&
+    isSameRecord(a.flags, b.flags)
+  );
+}
+
+/**
+ * Applies diffs pushed over a live channel on top of the base data (props
+ * or adapter data), until the base data changes by value
+ */
+function useLiveUpdates<TUser>(
+  channel: PermissionChannel<TUser> | undefined,
+  nextBase: Required<PermissionData<TUser>>,
+  onRevoked: ((revoked: RevokedAccess) => void) | undefined
+): Required<PermissionData<TUser>> {
+  const stableBase = useRef(nextBase);
+  if (!isSameData(stableBase.current, nextBase)) {
+    stableBase.current = nextBase;
+  }
+  const base = stableBase.current;
+  
+  const [live, setLive] = useState<{
+    base: Required<PermissionData<TUser>>;
+    data: Required<PermissionData<TUser>>;
+  }>();
+  const data = live?.base === base ? live.data : base;
+  
+  // Read by the subscription, which outlives renders
+  const latest = useRef({ base, data, onRevoked });
+  latest.current = { base, data, onRevoked };
+  
+  useEffect(() => {
+    if (!channel) {
+      return;
+    }
+    
+    return channel.subscribe((diff) => {
+      const { base: current, data: previous, onRevoked: report } = latest.current;
+      const next = applyPermissionDiff(previous, diff);
+      
+      // Diffs arriving before the next render build on this one
+      latest.current = { ...latest.current, data: next };
+      setLive({ base: current, data: next });
+      
+      const revoked = revokedAccess(previous, next);
+      if (revoked) {
+        report?.(revoked);
+      }
+    });
+  }, [channel]);
+  
+  return data;
+}
 
 // Create the context
 const PermissionsContext = createContext<PermissionsContextValue | null>(null);
@@ -40,6 +362,8 @@ interface PermissionsProviderProps<TUser = any> extends PermissionsConfig<TUser>
   children: ReactNode;
   /** Internal: Dev tools registration callback */
   onEvaluationRegister?: (evaluation: PermissionEvaluation) => void;
+  /** Internal: Dev tools overrides, applied over the data adapter's data */
+  devOverrides?: Pick<DevToolsState, 'overrideRoles' | 'overridePermissions' | 'overrideFlags'>;
 }
 
 /**
@@ -62,13 +386,32 @@ interface PermissionsProviderProps<TUser = any> extends PermissionsConfig<TUser>
  */
 export function PermissionsProvider<TUser = any>({
   user,
-  roles = [],
-  permissions = [],
-  rules = {},
-  flags = {},
+  roles: rolesProp = NO_ROLES,
+  permissions: permissionsProp = NO_PERMISSIONS,
+  rules = NO_RULES,
+  denyRules: denyRulesProp,
+  combiningAlgorithm,
+  roleDefinitions,
+  flags: flagsProp = NO_FLAGS,
+  permissionSeparator,
+  subjectKey,
+  detectSubjectType,
+  fieldRules: fieldRulesProp,
+  cache: cacheProp,
+  timeout,
+  ruleTimeouts: ruleTimeoutsProp,
+  shortCircuit,
+  onError,
+  onRuleError,
+  dataAdapter,
+  liveUpdates,
+  onRevoked,
+  suspense = false,
+  initialDecisions,
   enableDevTools,
   children,
   onEvaluationRegister,
+  devOverrides,
 }: PermissionsProviderProps<TUser>) {
   // Auto-enable dev tools in development unless explicitly disabled
   const devToolsEnabled = useMemo(() => {
@@ -81,46 +424,643 @@ export function PermissionsProvider<TUser = any>({
   }, [enableDevTools]);
   
   /**
-   * Core permission evaluation function
-   * Used by all permission-checking components and hooks
+   * Roles, permissions and flags from the data adapter take precedence over
+   * props; checks made before its first load wait for it
    */
-  const evaluatePermission = useCallback(
-    async <TResource = any>(
+  const {
+    data: adapterData,
+    loading: dataLoading,
+    error: dataError,
+    ready: dataReady,
+    refresh: refreshData,
+  } = useAdapterData(dataAdapter);
+  
+  const baseData = useMemo(
+    () => ({
+      roles: adapterData?.roles ?? rolesProp,
+      permissions: adapterData?.permissions ?? permissionsProp,
+      flags: adapterData?.flags ?? flagsProp,
+    }),
+    [adapterData, rolesProp, permissionsProp, flagsProp]
+  );
+  
+  // Live diffs apply on top, then dev tools overrides
+  const liveData = useLiveUpdates(liveUpdates, baseData, onRevoked);
+  
+  const assignedRoles = devOverrides?.overrideRoles ?? liveData.roles;
+  const grantedPermissions = devOverrides?.overridePermissions ?? liveData.permissions;
+  const flagsConfig = devOverrides?.overrideFlags ?? liveData.flags;
+  
+  /**
+   * Effective roles and permissions after expanding role definitions
+   * Throws RoleHierarchyError on mount if the definitions contain a cycle
+   */
+  const { roles, permissions } = useMemo(() => {
+    if (!roleDefinitions) {
+      return { roles: assignedRoles, permissions: grantedPermissions };
+    }
+    
+    return expandRoles(assignedRoles, grantedPermissions, roleDefinitions);
+  }, [assignedRoles, grantedPermissions, roleDefinitions]);
+  
+  /**
+   * Flags resolved for the current user: variants, targeting and rollouts
+   */
+  const {
+    values: flags,
+    variants: flagVariants,
+    evaluations: flagEvaluations,
+  } = useMemo(
+    () =>
+      resolveFlags(flagsConfig, createPermissionContext(user, undefined, roles, permissions, {})),
+    [flagsConfig, user, roles, permissions]
+  );
+  
+  // Option objects compare by value; the functions in them must keep their identity
+  const denyRules = useStableValue(denyRulesProp);
+  const fieldRules = useStableValue(fieldRulesProp);
+  const ruleTimeouts = useStableValue(ruleTimeoutsProp);
+  const cache = useStableValue(cacheProp);
+  
+  // Rule engine options derived from provider configuration
+  const evaluationOptions = useMemo<EvaluationOptions>(
+    () => ({
+      permissionSeparator,
+      denyRules,
+      combiningAlgorithm,
+      subjectKey,
+      detectSubjectType,
+      fieldRules,
+      timeout,
+      ruleTimeouts,
+      shortCircuit,
+    }),
+    [
+      permissionSeparator,
+      denyRules,
+      combiningAlgorithm,
+      subjectKey,
+      detectSubjectType,
+      fieldRules,
+      timeout,
+      ruleTimeouts,
+      shortCircuit,
+    ]
+  );
+  
+  const cacheOptions = typeof cache === 'object' ? cache : undefined;
+  
+  // Server decisions were reached for the first render's inputs, and only seed those
+  const initialInputs = useRef([user, roles, permissions, rules, flags, flagVariants]);
+  
+  /**
+   * Decision cache, in-flight evaluations, last known decisions and
+   * decisions reached during render (awaiting dev tools registration),
+   * recreated (and so emptied) whenever an input to evaluation changes
+   */
+  const { decisionCache, inFlight, lastKnown, settled } = useMemo(() => {
+    const bundle = {
+      decisionCache: cache ? new DecisionCache(cacheOptions) : null,
+      inFlight: new Map<string, InFlightEvaluation>(),
+      lastKnown: new Map<string, boolean>(),
+      settled: new Map<string, PolicyDecision>(),
+    };
+    
+    const inputs = [user, roles, permissions, rules, flags, flagVariants];
+    if (
+      initialDecisions &&
+      inputs.every((input, index) => input === initialInputs.current[index])
+    ) {
+      for (const [key, decision] of Object.entries(initialDecisions.decisions)) {
+        bundle.decisionCache?.set(key, decision);
+        bundle.lastKnown.set(key, decision.allowed);
+        bundle.settled.set(key, decision);
+      }
+    }
+    
+    return bundle;
+  }, [cache, cacheOptions, user, roles, permissions, rules, flags, flagVariants, evaluationOptions]);
+  
+  // Error handling config is read at evaluation time, so inline values don't re-run checks
+  const errorHandling = useRef({ onError, onRuleError });
+  errorHandling.current = { onError, onRuleError };
+  
+  // Bumped by invalidate() so mounted checks re-run
+  const [cacheVersion, setCacheVersion] = useState(0);
+  
+  const invalidate = useCallback(
+    (key?: string) => {
+      decisionCache?.invalidate(key);
+      
+      // Decisions reached during render would otherwise be read back first
+      settled.forEach((decision, settledKey) => {
+        if (key === undefined || involvesRule(decision, key)) {
+          settled.delete(settledKey);
+        }
+      });
+      
+      setCacheVersion((version) => version + 1);
+    },
+    [decisionCache, settled]
+  );
+  
+  /**
+   * Starts an evaluation shared by identical concurrent checks, applying
+   * the error policy. `firstAttempt` is an attempt already under way
+   * (started during render by evaluatePermissionSync).
+   */
+  const startEvaluation = useCallback(
+    <TResource = any>(
+      key: string,
       check: PermissionCheck<TUser, TResource>,
-      resource?: TResource,
-      mode: 'any' | 'all' = 'any'
-    ): Promise<boolean> => {
+      resource: TResource | undefined,
+      mode: 'any' | 'all',
+      controller: AbortController,
+      firstAttempt?: Promise<PolicyDecision>
+    ): InFlightEvaluation => {
       const context = createPermissionContext(
         user,
         resource,
         roles,
         permissions,
-        flags
+        flags,
+        controller.signal,
+        flagVariants
       );
       
-      const startTime = performance.now();
-      const result = await evaluatePermissionCore(check, context, rules, mode);
+      const { onError: policy, onRuleError: report } = errorHandling.current;
+      
+      const decide = async (): Promise<PolicyDecision> => {
+        const decision = await applyErrorPolicy(
+          (attempt) =>
+            attempt === 1 && firstAttempt
+              ? firstAttempt
+              : evaluatePermissionCore(check, context, rules, mode, evaluationOptions),
+          policy,
+          {
+            lastKnown: lastKnown.get(key),
+            signal: controller.signal,
+            onRuleError: (failure) =>
+              report?.({
+                ...failure,
+                check: describeCheck(check, evaluationOptions),
+                resource,
+              }),
+          }
+        );
+        
+        // Remember error-free decisions for the 'last-known' policy
+        const failed = collectRuleFailures(decision.ruleResults, 0).length > 0;
+        if (!failed && !controller.signal.aborted) {
+          lastKnown.set(key, decision.allowed);
+        }
+        
+        return decision;
+      };
       
-      // Register with dev tools if enabled
-      if (devToolsEnabled && onEvaluationRegister) {
+      const entry: InFlightEvaluation = {
+        promise: decide().finally(() => {
+          if (inFlight.get(key) === entry) {
+            inFlight.delete(key);
+          }
+        }),
+        controller,
+        consumers: 0,
+      };
+      inFlight.set(key, entry);
+      
+      return entry;
+    },
+    [user, roles, permissions, rules, flags, flagVariants, evaluationOptions, inFlight, lastKnown]
+  );
+  
+  /**
+   * Reaches the policy decision for a check: settled during render, cached,
+   * or from an evaluation shared by identical concurrent checks
+   */
+  const resolveDecision = useCallback(
+    async <TResource = any>(
+      check: PermissionCheck<TUser, TResource>,
+      resource: TResource | undefined,
+      mode: 'any' | 'all',
+      signal?: AbortSignal
+    ): Promise<{ result: PolicyDecision; cached: boolean }> => {
+      const key = decisionKey(check, resource, mode, cacheOptions?.resourceKey);
+      
+      // A decision reached during render is registered by the caller, once
+      let result: PolicyDecision | undefined = settled.get(key);
+      settled.delete(key);
+      
+      let cached = false;
+      if (!result) {
+        result = decisionCache?.get(key);
+        cached = result !== undefined;
+      }
+      
+      if (!result) {
+        // Identical checks already running share one evaluation
+        const shared =
+          inFlight.get(key) ?? startEvaluation(key, check, resource, mode, new AbortController());
+        shared.consumers++;
+        
+        const release = () => {
+          shared.consumers--;
+          if (shared.consumers === 0) {
+            if (inFlight.get(key) === shared) {
+              inFlight.delete(key);
+            }
+            shared.controller.abort();
+          }
+        };
+        signal?.addEventListener('abort', release, { once: true });
+        
+        try {
+          result = await shared.promise;
+        } finally {
+          signal?.removeEventListener('abort', release);
+        }
+        
+        decisionCache?.set(key, result);
+      }
+      
+      return { result, cached };
+    },
+    [cacheOptions, decisionCache, inFlight, settled, startEvaluation]
+  );
+  
+  /**
+   * Core permission evaluation function
+   * Used by all permission-checking components and hooks
+   */
+  const evaluateDecision = useCallback(
+    async <TResource = any>(
+      check: PermissionCheck<TUser, TResource>,
+      resource?: TResource,
+      mode: 'any' | 'all' = 'any',
+      signal?: AbortSignal
+    ): Promise<PermissionDecision> => {
+      if (signal?.aborted) {
+        return { allowed: false };
+      }
+      
+      if (dataReady) {
+        await dataReady;
+        return signal?.aborted
+          ? { allowed: false }
+          : latest.current.evaluateDecision(check, resource, mode, signal);
+      }
+      
+      const { result, cached } = await resolveDecision(check, resource, mode, signal);
+      const decision = explainDecision(result.allowed, result.ruleResults);
+      
+      // Register with dev tools if enabled (skipped for abandoned checks)
+      if (devToolsEnabled && onEvaluationRegister && !signal?.aborted) {
         const evaluation: PermissionEvaluation = {
           id: `eval-${Date.now()}-${Math.random()}`,
           timestamp: Date.now(),
-          check: typeof check === 'function' ? 'inline' : check,
+          check: describeCheck(check, evaluationOptions),
           resource,
           allowed: result.allowed,
           ruleResults: result.ruleResults,
           mode,
+          cached,
+          ...(result.errorPolicy && { errorPolicy: result.errorPolicy }),
+          ...(decision.reason !== undefined && { reason: decision.reason }),
+          ...(decision.code !== undefined && { code: decision.code }),
         };
         
         onEvaluationRegister(evaluation);
       }
       
-      return result.allowed;
+      return decision;
+    },
+    [
+      evaluationOptions,
+      resolveDecision,
+      dataReady,
+      // A new version gives a new function identity, re-running mounted checks
+      cacheVersion,
+      devToolsEnabled,
+      onEvaluationRegister,
+    ]
+  );
+  
+  /**
+   * Evaluates named checks on one resource together, registering a single
+   * dev tools record with one entry per name
+   */
+  const evaluateDecisions = useCallback(
+    async <TResource = any, TName extends string = string>(
+      checks: Record<TName, PermissionCheck<TUser, TResource>>,
+      resource?: TResource,
+      mode: 'any' | 'all' = 'any',
+      signal?: AbortSignal
+    ): Promise<Record<TName, PermissionDecision>> => {
+      const names = Object.keys(checks) as TName[];
+      const denied = () =>
+        Object.fromEntries(names.map((name) => [name, { allowed: false }])) as Record<
+          TName,
+          PermissionDecision
+        >;
+      
+      if (signal?.aborted) {
+        return denied();
+      }
+      
+      if (dataReady) {
+        await dataReady;
+        return signal?.aborted
+          ? denied()
+          : latest.current.evaluateDecisions(checks, resource, mode, signal);
+      }
+      
+      const resolved = await Promise.all(
+        names.map((name) => resolveDecision(checks[name], resource, mode, signal))
+      );
+      const decisions = Object.fromEntries(
+        names.map((name, index) => [
+          name,
+          explainDecision(resolved[index].result.allowed, resolved[index].result.ruleResults),
+        ])
+      ) as Record<TName, PermissionDecision>;
+      
+      if (devToolsEnabled && onEvaluationRegister && !signal?.aborted) {
+        const described = names.map((name) => {
+          const check = describeCheck(checks[name], evaluationOptions);
+          return `${name}: ${Array.isArray(check) ? check.join(', ') : check}`;
+        });
+        
+        onEvaluationRegister({
+          id: `eval-${Date.now()}-${Math.random()}`,
+          timestamp: Date.now(),
+          check: described,
+          resource,
+          allowed: resolved.every(({ result }) => result.allowed),
+          ruleResults: resolved.map(({ result }, index) => ({
+            rule: described[index],
+            result: result.allowed,
+            duration: result.ruleResults.reduce((total, child) => total + child.duration, 0),
+            ...(decisions[names[index]].reason !== undefined && {
+              reason: decisions[names[index]].reason,
+            }),
+            children: result.ruleResults,
+          })),
+          mode,
+          cached: resolved.every(({ cached }) => cached),
+        });
+      }
+      
+      return decisions;
+    },
+    [
+      evaluationOptions,
+      resolveDecision,
+      dataReady,
+      cacheVersion,
+      devToolsEnabled,
+      onEvaluationRegister,
+    ]
+  );
+  
+  /**
+   * Boolean form of evaluateDecision
+   */
+  const evaluatePermission = useCallback(
+    <TResource = any>(
+      check: PermissionCheck<TUser, TResource>,
+      resource?: TResource,
+      mode: 'any' | 'all' = 'any',
+      signal?: AbortSignal
+    ): Promise<boolean> =>
+      evaluateDecision(check, resource, mode, signal).then((decision) => decision.allowed),
+    [evaluateDecision]
+  );
+  
+  /**
+   * Synchronous fast path for evaluateDecision, called during render
+   * 
+   * Returns the decision when it is cached or every rule reached returns
+   * synchronously. Otherwise the evaluation already started continues as
+   * the shared in-flight evaluation (so rules don't run twice) and
+   * `undefined` is returned.
+   */
+  const evaluateDecisionSync = useCallback(
+    <TResource = any>(
+      check: PermissionCheck<TUser, TResource>,
+      resource?: TResource,
+      mode: 'any' | 'all' = 'any'
+    ): PermissionDecision | undefined => {
+      if (dataReady) {
+        return undefined;
+      }
+      
+      const key = decisionKey(check, resource, mode, cacheOptions?.resourceKey);
+      const cachedDecision = settled.get(key) ?? decisionCache?.get(key);
+      
+      if (cachedDecision) {
+        return explainDecision(cachedDecision.allowed, cachedDecision.ruleResults);
+      }
+      
+      if (inFlight.has(key)) {
+        return undefined;
+      }
+      
+      const controller = new AbortController();
+      const context = createPermissionContext(
+        user,
+        resource,
+        roles,
+        permissions,
+        flags,
+        controller.signal,
+        flagVariants
+      );
+      const decision = evaluatePermissionEager(check, context, rules, mode, evaluationOptions);
+      
+      if (decision instanceof Promise) {
+        startEvaluation(key, check, resource, mode, controller, decision);
+        return undefined;
+      }
+      
+      // Rule errors go through the error policy on the async path
+      if (collectRuleFailures(decision.ruleResults, 0).length > 0) {
+        startEvaluation(key, check, resource, mode, controller, Promise.resolve(decision));
+        return undefined;
+      }
+      
+      lastKnown.set(key, decision.allowed);
+      decisionCache?.set(key, decision);
+      settled.set(key, decision);
+      
+      return explainDecision(decision.allowed, decision.ruleResults);
     },
-    [user, roles, permissions, rules, flags, devToolsEnabled, onEvaluationRegister]
+    [
+      user,
+      roles,
+      permissions,
+      rules,
+      flags,
+      flagVariants,
+      evaluationOptions,
+      cacheOptions,
+      decisionCache,
+      inFlight,
+      lastKnown,
+      settled,
+      startEvaluation,
+      cacheVersion,
+      dataReady,
+    ]
+  );
+  
+  /**
+   * Decisions read in Suspense mode, kept until evaluation inputs change or
+   * invalidate() is called; beyond MAX_SUSPENDED_DECISIONS the least
+   * recently read settled ones are dropped (identity-keyed resources would
+   * otherwise accumulate)
+   */
+  const suspended = useMemo(
+    () => new Map<string, SuspendedDecision>(),
+    [inFlight, cacheVersion]
   );
   
+  /**
+   * Suspense form of evaluateDecision: returns the decision once reached,
+   * throws a promise while async rules are pending (for the nearest
+   * <Suspense> boundary) and throws evaluation errors (for error boundaries)
+   */
+  const readDecision = useCallback(
+    <TResource = any>(
+      check: PermissionCheck<TUser, TResource>,
+      resource?: TResource,
+      mode: 'any' | 'all' = 'any'
+    ): PermissionDecision => {
+      const key = decisionKey(check, resource, mode, cacheOptions?.resourceKey);
+      let entry = suspended.get(key);
+      
+      if (entry) {
+        // Most recently read last
+        suspended.delete(key);
+        suspended.set(key, entry);
+      } else {
+        evictSettled(suspended);
+        
+        const decision = evaluateDecisionSync(check, resource, mode);
+        if (decision) {
+          // Registers the settled decision with dev tools (after render)
+          evaluateDecision(check, resource, mode);
+          suspended.set(key, { promise: Promise.resolve(), decision });
+          return decision;
+        }
+        
+        const pending: SuspendedDecision = {
+          promise: evaluateDecision(check, resource, mode).then(
+            (reached) => {
+              pending.decision = reached;
+            },
+            (error) => {
+              pending.error = error;
+              pending.failed = true;
+            }
+          ),
+        };
+        suspended.set(key, pending);
+        entry = pending;
+      }
+      
+      if (entry.failed) {
+        throw entry.error;
+      }
+      
+      if (!entry.decision) {
+        throw entry.promise;
+      }
+      
+      return entry.decision;
+    },
+    [cacheOptions, suspended, evaluateDecisionSync, evaluateDecision]
+  );
+  
+  /**
+   * Action/subject check built on evaluatePermission
+   */
+  const can = useCallback(
+    <TResource = any>(
+      action: string,
+      subject: string | TResource,
+      resource?: TResource
+    ): Promise<boolean> => evaluatePermission<TResource>({ action, subject }, resource),
+    [evaluatePermission]
+  );
+  
+  /**
+   * Field-level evaluation for an action on a resource
+   * Registers a single dev tools record covering the ability and every field rule
+   */
+  const evaluatePermittedFields = useCallback(
+    async <TResource = any>(
+      action: string,
+      resource: TResource,
+      subjectType?: string,
+      signal?: AbortSignal
+    ): Promise<string[]> => {
+      if (dataReady) {
+        await dataReady;
+        return signal?.aborted
+          ? []
+          : latest.current.evaluatePermittedFields(action, resource, subjectType, signal);
+      }
+      
+      const ability = { action, subject: subjectType ?? resource };
+      const context = createPermissionContext(
+        user,
+        resource,
+        roles,
+        permissions,
+        flags,
+        signal,
+        flagVariants
+      );
+      
+      const result = await evaluatePermittedFieldsCore(
+        ability,
+        context,
+        rules,
+        evaluationOptions
+      );
+      
+      if (devToolsEnabled && onEvaluationRegister && !signal?.aborted) {
+        onEvaluationRegister({
+          id: `eval-${Date.now()}-${Math.random()}`,
+          timestamp: Date.now(),
+          check: `fields(${describeCheck(ability, evaluationOptions)})`,
+          resource,
+          allowed: result.allowed,
+          ruleResults: result.ruleResults,
+        });
+      }
+      
+      return result.fields;
+    },
+    [
+      user,
+      roles,
+      permissions,
+      rules,
+      flags,
+      flagVariants,
+      evaluationOptions,
+      cacheVersion,
+      devToolsEnabled,
+      onEvaluationRegister,
+      dataReady,
+    ]
+  );
+  
+  // Checks waiting for adapter data resume with the latest functions
+  const latest = useRef({ evaluateDecision, evaluateDecisions, evaluatePermittedFields });
+  latest.current = { evaluateDecision, evaluateDecisions, evaluatePermittedFields };
+  
   // Memoize context value to prevent unnecessary re-renders
   const contextValue = useMemo<PermissionsContextValue<TUser>>(
     () => ({
@@ -129,8 +1069,20 @@ export function PermissionsProvider<TUser = any>({
       permissions,
       rules,
       flags,
+      flagEvaluations,
       enableDevTools: devToolsEnabled,
+      suspense,
+      dataLoading,
+      dataError,
+      refreshData,
       evaluatePermission,
+      evaluateDecision,
+      evaluateDecisions,
+      evaluateDecisionSync,
+      readDecision,
+      can,
+      evaluatePermittedFields,
+      invalidate,
       registerEvaluation: onEvaluationRegister,
     }),
     [
@@ -139,8 +1091,20 @@ export function PermissionsProvider<TUser = any>({
       permissions,
       rules,
       flags,
+      flagEvaluations,
       devToolsEnabled,
+      suspense,
+      dataLoading,
+      dataError,
+      refreshData,
       evaluatePermission,
+      evaluateDecision,
+      evaluateDecisions,
+      evaluateDecisionSync,
+      readDecision,
+      can,
+      evaluatePermittedFields,
+      invalidate,
       onEvaluationRegister,
     ]
   );
@@ -7,7 +7,7 @@
 
 import React, { ReactNode } from 'react';
 import { usePermission } from './usePermission';
-import type { PermissionCheck } from '../core/types';
+import type { PermissionCheck, PermissionDecision } from '../core/types';
 
 export interface ProtectedRouteProps<TUser = any, TResource = any> {
   /**
@@ -27,15 +27,23 @@ export interface ProtectedRouteProps<TUser = any, TResource = any> {
   
   /**
    * Content to render when permission is denied
-   * Typically a redirect or unauthorized message
+   * Typically a redirect or unauthorized message.
+   * A function receives the decision, to render its `reason`.
    */
-  fallback?: ReactNode;
+  fallback?: ReactNode | ((decision: PermissionDecision) => ReactNode);
   
   /**
-   * Optional callback when access is denied
+   * Optional callback when access is denied, receiving the decision
    * Useful for analytics, logging, or custom redirects
    */
-  onAccessDenied?: () => void;
+  onAccessDenied?: (decision: PermissionDecision) => void;
+  
+  /**
+   * Optional callback when access granted earlier is lost while mounted
+   * (e.g. a role revoked through live updates), receiving the decision
+   * Useful to navigate away from the page
+   */
+  onRevoked?: (decision: PermissionDecision) => void;
 }
 
 /**
@@ -82,24 +90,52 @@ export interface ProtectedRouteProps<TUser = any, TResource = any> {
  * >
  *   <EditPost post={post} />
  * </ProtectedRoute>
+ * 
+ * // Leave the page when access is revoked while it is open
+ * <ProtectedRoute allow="admin" onRevoked={() => navigate('/')}>
+ *   <AdminPanel />
+ * </ProtectedRoute>
+ * 
+ * // Fallback explaining the denial
+ * <ProtectedRoute
+ *   allow="billing.view"
+ *   fallback={({ reason }) => <Unauthorized message={reason} />}
+ * >
+ *   <Billing />
+ * </ProtectedRoute>
  * ```
  */
 export function ProtectedRoute<TUser = any, TResource = any>({
   allow,
   resource,
   children,
-  fallback = <DefaultUnauthorized />,
+  fallback = (decision) => <DefaultUnauthorized reason={decision.reason} />,
   onAccessDenied,
+  onRevoked,
 }: ProtectedRouteProps<TUser, TResource>) {
-  const { allowed, loading } = usePermission(allow, resource);
+  const { loading, ...decision } = usePermission(allow, resource);
+  const { allowed } = decision;
   
   // Call onAccessDenied when permission is denied (only once)
   React.useEffect(() => {
     if (!loading && !allowed && onAccessDenied) {
-      onAccessDenied();
+      onAccessDenied(decision);
     }
   }, [loading, allowed, onAccessDenied]);
   
+  // Call onRevoked when a granted access is denied on re-evaluation
+  const wasAllowed = React.useRef(false);
+  React.useEffect(() => {
+    if (loading) {
+      return;
+    }
+    
+    if (wasAllowed.current && !allowed && onRevoked) {
+      onRevoked(decision);
+    }
+    wasAllowed.current = allowed;
+  }, [loading, allowed, onRevoked]);
+  
   // While loading, show nothing or a loading indicator
   if (loading) {
     return <DefaultLoading />;
@@ -107,7 +143,7 @@ export function ProtectedRoute<TUser = any, TResource = any>({
   
   // Permission denied
   if (!allowed) {
-    return <>{fallback}</>;
+    return <>{typeof fallback === 'function' ? fallback(decision) : fallback}</>;
   }
   
   // Permission granted
@@ -126,9 +162,9 @@ function DefaultLoading() {
 }
 
 /**
- * Default unauthorized component
+ * Default unauthorized component, showing the denial reason if there is one
  */
-function DefaultUnauthorized() {
+function DefaultUnauthorized({ reason }: { reason?: string }) {
   return (
     <div
       style={{
@@ -139,7 +175,7 @@ function DefaultUnauthorized() {
       }}
     >
       <h1>Access Denied</h1>
-      <p>You do not have permission to access this resource.</p>
+      <p>{reason ?? 'You do not have permission to access this resource.'}</p>
     </div>
   );
 }
@@ -0,0 +1,89 @@
+/**
+ * useCan Hook
+ * 
+ * Imperative permission checks for event handlers, loops and callbacks,
+ * where a `usePermission` call per check isn't possible.
+ */
+
+import { useCallback, useRef } from 'react';
+import { usePermissionsContext } from './PermissionsProvider';
+import type { PermissionCheck } from '../core/types';
+
+/**
+ * Hook returning functions that check permissions on demand
+ * 
+ * Both functions keep their identity across renders and always use the
+ * provider's current roles, permissions and rules, so they are safe to
+ * pass to memoized children and effect dependencies.
+ * 
+ * - `can` resolves to whether the check is allowed.
+ * - `canSync` returns the decision when it is cached or every rule it
+ *   reaches is synchronous, and `undefined` when it needs async rules (the
+ *   evaluation then starts, so a later `can` call joins it).
+ * 
+ * @returns `{ can, canSync }`
+ * 
+ * @example
+ * ```tsx
+ * function PostRow({ post }) {
+ *   const { can, canSync } = useCan();
+ *   
+ *   const onDelete = async () => {
+ *     if (await can('post.delete', post)) {
+ *       await deletePost(post.id);
+ *     }
+ *   };
+ *   
+ *   return (
+ *     <Row onDelete={onDelete} showDelete={canSync('post.delete', post) ?? false} />
+ *   );
+ * }
+ * ```
+ */
+export function useCan<TUser = any>(): {
+  can: <TResource = any>(
+    check: PermissionCheck<TUser, TResource>,
+    resource?: TResource,
+    mode?: 'any' | 'all'
+  ) => Promise<boolean>;
+  canSync: <TResource = any>(
+    check: PermissionCheck<TUser, TResource>,
+    resource?: TResource,
+    mode?: 'any' | 'all'
+  ) => boolean | undefined;
+} {
+  const context = usePermissionsContext<TUser>();
+  
+  // Read at call time, so the functions below never change identity
+  const latest = useRef(context);
+  latest.current = context;
+  
+  const can = useCallback(
+    <TResource = any>(
+      check: PermissionCheck<TUser, TResource>,
+      resource?: TResource,
+      mode: 'any' | 'all' = 'any'
+    ): Promise<boolean> => latest.current.evaluatePermission(check, resource, mode),
+    []
+  );
+  
+  const canSync = useCallback(
+    <TResource = any>(
+      check: PermissionCheck<TUser, TResource>,
+      resource?: TResource,
+      mode: 'any' | 'all' = 'any'
+    ): boolean | undefined => {
+      const decision = latest.current.evaluateDecisionSync(check, resource, mode);
+      
+      if (decision) {
+        // Joins the decision just reached, registering it with dev tools
+        latest.current.evaluateDecision(check, resource, mode).catch(() => undefined);
+      }
+      
+      return decision?.allowed;
+    },
+    []
+  );
+  
+  return { can, canSync };
+}
@@ -0,0 +1,151 @@
+/**
+ * useFilterPermitted Hook
+ * 
+ * Filters a list down to the items the user may access, checking each
+ * item as the resource.
+ * In Suspense mode, pending checks suspend instead of reporting `loading`.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { usePermissionsContext } from './PermissionsProvider';
+import { readEach, useStableCheck } from './usePermission';
+import type { PermissionCheck } from '../core/types';
+
+/**
+ * Returns the previous items while they hold the same elements, so an
+ * inline array isn't re-checked on every render
+ */
+function useStableItems<TItem>(items: TItem[]): TItem[] {
+  const ref = useRef(items);
+  const previous = ref.current;
+  
+  const unchanged =
+    previous.length === items.length && previous.every((item, index) => item === items[index]);
+  
+  if (!unchanged) {
+    ref.current = items;
+  }
+  
+  return ref.current;
+}
+
+function permittedOf<TItem>(items: TItem[], decisions: Array<{ allowed: boolean }>): TItem[] {
+  return items.filter((_, index) => decisions[index].allowed);
+}
+
+/**
+ * Hook returning the items a check allows
+ * 
+ * When every item is decided synchronously (or cached), the filtered list
+ * is available on the first render; otherwise `items` is empty until every
+ * check resolves. The items are compared element by element, so an inline
+ * array is only re-checked when its contents change.
+ * 
+ * With the provider's `suspense` prop, the component suspends until every
+ * item is decided (so `loading` is always false) and evaluation errors are
+ * thrown to the nearest error boundary.
+ * 
+ * @param items - Items to filter; each is the resource of one check
+ * @param check - Permission check made for every item
+ * @param mode - Evaluation mode for array checks: 'any' (OR) or 'all' (AND)
+ * @returns Object with loading state and the permitted items, in order
+ * 
+ * @example
+ * ```tsx
+ * function ProjectList({ projects }) {
+ *   const { items, loading } = useFilterPermitted(projects, 'project.view');
+ *   
+ *   if (loading) return <Spinner />;
+ *   
+ *   return <List items={items} />;
+ * }
+ * ```
+ */
+export function useFilterPermitted<TItem, TUser = any>(
+  itemsProp: TItem[],
+  check: PermissionCheck<TUser, TItem>,
+  mode: 'any' | 'all' = 'any'
+): {
+  items: TItem[];
+  loading: boolean;
+} {
+  const context = usePermissionsContext<TUser>();
+  const items = useStableItems(itemsProp);
+  const stableCheck = useStableCheck(check);
+  const { suspense } = context;
+  
+  // Suspense mode: throws while pending, so every hook below still runs on committed renders
+  const suspendedItems = suspense
+    ? permittedOf(items, readEach(items, (item) => context.readDecision(stableCheck, item, mode)))
+    : undefined;
+  
+  const [state, setState] = useState<{ items: TItem[]; loading: boolean }>({
+    items: [],
+    loading: true,
+  });
+  
+  // Synchronous fast path: decided when every item is
+  const syncItems = useMemo(() => {
+    if (suspense) {
+      return undefined;
+    }
+    
+    const permitted: TItem[] = [];
+    
+    for (const item of items) {
+      const decision = context.evaluateDecisionSync(stableCheck, item, mode);
+      if (!decision) {
+        return undefined;
+      }
+      if (decision.allowed) {
+        permitted.push(item);
+      }
+    }
+    
+    return permitted;
+  }, [suspense, context.evaluateDecisionSync, items, stableCheck, mode]);
+  
+  const decided = syncItems !== undefined;
+  
+  useEffect(() => {
+    // Suspense reads register their own decisions
+    if (suspense) {
+      return;
+    }
+    
+    const controller = new AbortController();
+    
+    // Joins the decisions reached during render, registering them with dev tools
+    const evaluation = Promise.all(
+      items.map((item) => context.evaluatePermission(stableCheck, item, mode, controller.signal))
+    );
+    
+    if (decided) {
+      // Already rendered: no state to update, so no re-render
+      evaluation.catch(() => undefined);
+    } else {
+      setState({ items: [], loading: true });
+      
+      evaluation.then(
+        (allowed) => {
+          if (!controller.signal.aborted) {
+            setState({ items: items.filter((_, index) => allowed[index]), loading: false });
+          }
+        },
+        () => {
+          // A failed evaluation fails closed: no items permitted
+          if (!controller.signal.aborted) {
+            setState({ items: [], loading: false });
+          }
+        }
+      );
+    }
+    
+    return () => {
+      controller.abort();
+    };
+  }, [suspense, decided, context.evaluatePermission, items, stableCheck, mode]);
+  
+  const permitted = suspendedItems ?? syncItems;
+  return permitted ? { items: permitted, loading: false } : state;
+}
@@ -0,0 +1,40 @@
+/**
+ * useFlag Hook
+ *
+ * Reads a resolved feature flag: its value, served variant and why it was
+ * served (static value, targeting rule, rollout or default).
+ */
+
+import { usePermissionsContext } from './PermissionsProvider';
+import type { FlagEvaluation, FlagValue } from '../core/types';
+
+const UNKNOWN_FLAG: FlagEvaluation<any> = { value: undefined, enabled: false, reason: 'unknown' };
+
+/**
+ * Hook returning the evaluation of a feature flag for the current user
+ *
+ * Flags are resolved synchronously by the provider, so there is no loading
+ * state. Unknown flags resolve to `{ enabled: false, reason: 'unknown' }`.
+ *
+ * @param name - Flag name
+ * @returns The flag's value, variant, enabled state and reason
+ *
+ * @example
+ * ```tsx
+ * function Checkout() {
+ *   const { variant } = useFlag('checkout');
+ *   return variant === 'b' ? <OnePageCheckout /> : <ClassicCheckout />;
+ * }
+ *
+ * function Results() {
+ *   const { value: pageSize = 20 } = useFlag<number>('pageSize');
+ *   return <List pageSize={pageSize} />;
+ * }
+ * ```
+ */
+export function useFlag<TValue extends FlagValue = FlagValue>(
+  name: string
+): FlagEvaluation<TValue> {
+  const context = usePermissionsContext();
+  return (context.flagEvaluations[name] as FlagEvaluation<TValue> | undefined) ?? UNKNOWN_FLAG;
+}
@@ -3,19 +3,96 @@
  * 
  * Check permissions programmatically in your components.
  * Supports async rules and automatically re-evaluates when dependencies change.
+ * Checks whose rules are all synchronous are decided on the first render.
+ * In Suspense mode, pending checks suspend instead of reporting `loading`.
  */
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { usePermissionsContext } from './PermissionsProvider';
-import type { PermissionCheck } from '../core/types';
+import { isAbilityCheck } from '../core/ability';
+import type { PermissionCheck, PermissionDecision } from '../core/types';
+
+/**
+ * Structural equality for checks, so inline arrays and ability objects
+ * don't trigger a re-evaluation on every render
+ */
+export function isSameCheck(a: PermissionCheck, b: PermissionCheck): boolean {
+  if (a === b) {
+    return true;
+  }
+  
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((key, index) => key === b[index]);
+  }
+  
+  if (isAbilityCheck(a) && isAbilityCheck(b)) {
+    return a.action === b.action && a.subject === b.subject;
+  }
+  
+  return false;
+}
+
+/**
+ * Returns the previous check while it is structurally unchanged
+ */
+export function useStableCheck<TUser = any, TResource = any>(
+  check: PermissionCheck<TUser, TResource>
+): PermissionCheck<TUser, TResource> {
+  const ref = useRef(check);
+  
+  if (!isSameCheck(ref.current, check)) {
+    ref.current = check;
+  }
+  
+  return ref.current;
+}
+
+/**
+ * Reads several decisions in Suspense mode, starting every pending
+ * evaluation before suspending, so they run in parallel rather than one
+ * per retry
+ */
+export function readEach<TValue, TResult>(
+  values: TValue[],
+  read: (value: TValue) => TResult
+): TResult[] {
+  const results: TResult[] = [];
+  const pending: Promise<unknown>[] = [];
+  
+  for (const value of values) {
+    try {
+      results.push(read(value));
+    } catch (thrown) {
+      if (!(thrown instanceof Promise)) {
+        throw thrown;
+      }
+      pending.push(thrown);
+    }
+  }
+  
+  if (pending.length > 0) {
+    throw Promise.all(pending);
+  }
+  
+  return results;
+}
 
 /**
  * Hook to check if a permission is allowed
  * 
- * @param check - Permission check (string, array, or function)
+ * When every rule reached returns synchronously (or the decision is
+ * cached), the result is available on the first render with
+ * `loading: false`; otherwise it resolves after the async rules do.
+ * 
+ * With the provider's `suspense` prop, the component suspends until the
+ * async rules resolve (so `loading` is always false) and evaluation errors
+ * are thrown to the nearest error boundary.
+ * 
+ * @param check - Permission check (string, array, function, or `{ action, subject }`)
  * @param resource - Optional resource to check against
  * @param mode - Evaluation mode for arrays: 'any' (OR) or 'all' (AND)
- * @returns Object with loading state and permission result
+ * @returns Object with loading state, permission result and, when a rule
+ *   returned a structured decision, its `reason`, `code` and `meta`
  * 
  * @example
  * ```tsx
@@ -30,41 +107,76 @@ import type { PermissionCheck } from '../core/types';
  *     </button>
  *   );
  * }
+ * 
+ * // Action/subject style
+ * const { allowed } = usePermission({ action: 'update', subject: invoice });
+ * 
+ * // Explaining a denial
+ * const { allowed, reason } = usePermission('post.edit', post);
+ * if (!allowed && reason) return <Tooltip title={reason}><LockIcon /></Tooltip>;
  * ```
  */
 export function usePermission<TUser = any, TResource = any>(
   check: PermissionCheck<TUser, TResource>,
   resource?: TResource,
   mode: 'any' | 'all' = 'any'
-): {
-  allowed: boolean;
+): PermissionDecision & {
   loading: boolean;
 } {
   const context = usePermissionsContext<TUser>();
-  const [state, setState] = useState<{ allowed: boolean; loading: boolean }>({
+  const stableCheck = useStableCheck(check);
+  const { suspense } = context;
+  
+  // Suspense mode: throws while pending, so every hook below still runs on committed renders
+  const suspendedDecision = suspense
+    ? context.readDecision(stableCheck, resource, mode)
+    : undefined;
+  
+  const [state, setState] = useState<PermissionDecision & { loading: boolean }>({
     allowed: false,
     loading: true,
   });
   
+  // Synchronous fast path: no loading state for sync rules
+  const syncDecision = useMemo(
+    () => (suspense ? undefined : context.evaluateDecisionSync(stableCheck, resource, mode)),
+    [suspense, context.evaluateDecisionSync, stableCheck, resource, mode]
+  );
+  
   useEffect(() => {
-    let cancelled = false;
+    if (suspense) {
+      return;
+    }
+    
+    const controller = new AbortController();
     
-    // Start evaluation
+    // Start evaluation (joins the one started during render, if any)
     setState({ allowed: false, loading: true });
     
-    context.evaluatePermission(check, resource, mode).then((allowed) => {
-      if (!cancelled) {
-        setState({ allowed, loading: false });
-      }
-    });
+    context
+      .evaluateDecision(stableCheck, resource, mode, controller.signal)
+      .then(
+        (decision) => {
+          if (!controller.signal.aborted) {
+            setState({ ...decision, loading: false });
+          }
+        },
+        () => {
+          // Rule errors go through onError; a failed evaluation fails closed
+          if (!controller.signal.aborted) {
+            setState({ allowed: false, loading: false });
+          }
+        }
+      );
     
-    // Cleanup function to prevent state updates after unmount
+    // Abort on unmount or dependency change, cancelling rules that honour ctx.signal
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [context.evaluatePermission, check, resource, mode]);
+  }, [suspense, context.evaluateDecision, stableCheck, resource, mode]);
   
-  return state;
+  const decided = suspendedDecision ?? syncDecision;
+  return decided ? { ...decided, loading: false } : state;
 }
 
 /**
@@ -0,0 +1,181 @@
+/**
+ * usePermissions Hook
+ * 
+ * Checks several permissions on the same resource at once, e.g. every
+ * action of a toolbar, with one evaluation and one dev tools record.
+ * In Suspense mode, pending checks suspend instead of reporting `loading`.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { usePermissionsContext } from './PermissionsProvider';
+import { isSameCheck, readEach } from './usePermission';
+import type { PermissionCheck } from '../core/types';
+
+/**
+ * Returns the previous checks while they are structurally unchanged
+ */
+function useStableChecks<TName extends string, TUser, TResource>(
+  checks: Record<TName, PermissionCheck<TUser, TResource>>
+): Record<TName, PermissionCheck<TUser, TResource>> {
+  const ref = useRef(checks);
+  const previous = ref.current;
+  const names = Object.keys(checks) as TName[];
+  
+  const unchanged =
+    names.length === Object.keys(previous).length &&
+    names.every((name) => name in previous && isSameCheck(previous[name], checks[name]));
+  
+  if (!unchanged) {
+    ref.current = checks;
+  }
+  
+  return ref.current;
+}
+
+function toAllowed<TName extends string>(
+  decisions: Record<TName, { allowed: boolean }>
+): Record<TName, boolean> {
+  const allowed = {} as Record<TName, boolean>;
+  for (const name of Object.keys(decisions) as TName[]) {
+    allowed[name] = decisions[name].allowed;
+  }
+  return allowed;
+}
+
+/**
+ * Reads every named check in Suspense mode
+ */
+function readAllowed<TName extends string, TUser, TResource>(
+  checks: Record<TName, PermissionCheck<TUser, TResource>>,
+  read: (check: PermissionCheck<TUser, TResource>) => { allowed: boolean }
+): Record<TName, boolean> {
+  const names = Object.keys(checks) as TName[];
+  const decisions = readEach(names, (name) => read(checks[name]));
+  
+  const allowed = {} as Record<TName, boolean>;
+  names.forEach((name, index) => {
+    allowed[name] = decisions[index].allowed;
+  });
+  return allowed;
+}
+
+/**
+ * Hook checking named permissions on one resource together
+ * 
+ * The checks are evaluated in one batch and registered with dev tools as
+ * a single record. Like `usePermission`, the result is available on the
+ * first render when every rule reached is synchronous; until then every
+ * name is `false`. `loading` is reserved and can't be used as a name.
+ * 
+ * With the provider's `suspense` prop, the component suspends until every
+ * check is decided (so `loading` is always false) and evaluation errors are
+ * thrown to the nearest error boundary. Each check is then registered with
+ * dev tools separately.
+ * 
+ * @param checks - Permission checks keyed by the name to return them under
+ * @param resource - Optional resource every check is made against
+ * @param mode - Evaluation mode for array checks: 'any' (OR) or 'all' (AND)
+ * @returns Whether each check is allowed, plus the loading state
+ * 
+ * @example
+ * ```tsx
+ * function PostToolbar({ post }) {
+ *   const can = usePermissions(
+ *     { edit: 'post.edit', delete: 'post.delete', publish: 'post.publish', pin: 'post.pin' },
+ *     post
+ *   );
+ *   
+ *   if (can.loading) return <ToolbarSkeleton />;
+ *   
+ *   return (
+ *     <Toolbar>
+ *       {can.edit && <EditButton />}
+ *       {can.delete && <DeleteButton />}
+ *       {can.publish && <PublishButton />}
+ *       {can.pin && <PinButton />}
+ *     </Toolbar>
+ *   );
+ * }
+ * ```
+ */
+export function usePermissions<TName extends string, TUser = any, TResource = any>(
+  checks: Record<TName, PermissionCheck<TUser, TResource>>,
+  resource?: TResource,
+  mode: 'any' | 'all' = 'any'
+): Record<TName, boolean> & {
+  loading: boolean;
+} {
+  const context = usePermissionsContext<TUser>();
+  const stableChecks = useStableChecks(checks);
+  const { suspense } = context;
+  
+  // Suspense mode: throws while pending, so every hook below still runs on committed renders
+  const suspendedAllowed = suspense
+    ? readAllowed(stableChecks, (check) => context.readDecision(check, resource, mode))
+    : undefined;
+  
+  const [state, setState] = useState<{ allowed?: Record<TName, boolean>; loading: boolean }>({
+    loading: true,
+  });
+  
+  // Synchronous fast path: decided when every check is
+  const syncAllowed = useMemo(() => {
+    if (suspense) {
+      return undefined;
+    }
+    
+    const allowed = {} as Record<TName, boolean>;
+    
+    for (const name of Object.keys(stableChecks) as TName[]) {
+      const decision = context.evaluateDecisionSync(stableChecks[name], resource, mode);
+      if (!decision) {
+        return undefined;
+      }
+      allowed[name] = decision.allowed;
+    }
+    
+    return allowed;
+  }, [suspense, context.evaluateDecisionSync, stableChecks, resource, mode]);
+  
+  useEffect(() => {
+    if (suspense) {
+      return;
+    }
+    
+    const controller = new AbortController();
+    
+    setState({ loading: true });
+    
+    context
+      .evaluateDecisions(stableChecks, resource, mode, controller.signal)
+      .then(
+        (decisions) => {
+          if (!controller.signal.aborted) {
+            setState({ allowed: toAllowed(decisions), loading: false });
+          }
+        },
+        () => {
+          // A failed evaluation fails closed: every check denied
+          if (!controller.signal.aborted) {
+            setState({ loading: false });
+          }
+        }
+      );
+    
+    return () => {
+      controller.abort();
+    };
+  }, [suspense, context.evaluateDecisions, stableChecks, resource, mode]);
+  
+  const decided = suspendedAllowed ?? syncAllowed;
+  if (decided) {
+    return { ...decided, loading: false };
+  }
+  
+  const denied = {} as Record<TName, boolean>;
+  for (const name of Object.keys(stableChecks) as TName[]) {
+    denied[name] = false;
+  }
+  
+  return { ...denied, ...state.allowed, loading: state.loading };
+}
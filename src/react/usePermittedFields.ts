@@ -0,0 +1,75 @@
+/**
+ * usePermittedFields Hook
+ *
+ * Field-level permissions: which fields of a resource the user may read,
+ * update, etc. Pair with `pickPermitted` to strip hidden fields.
+ */
+
+import { useEffect, useState } from 'react';
+import { usePermissionsContext } from './PermissionsProvider';
+
+/**
+ * Hook returning the permitted fields of a resource for an action
+ *
+ * Fields are always resolved after render, also in Suspense mode: check
+ * `loading` rather than relying on a `<Suspense>` boundary.
+ *
+ * @param action - Action to perform (e.g. 'read')
+ * @param resource - Resource whose fields are checked
+ * @param subjectType - Subject type when it cannot be detected from the resource
+ * @returns Object with loading state and permitted field names
+ *
+ * @example
+ * ```tsx
+ * function EmployeeCard({ employee }) {
+ *   const { fields, loading } = usePermittedFields('read', employee);
+ *
+ *   if (loading) return <Spinner />;
+ *
+ *   const visible = pickPermitted(employee, fields);
+ *   return <Details data={visible} />;
+ * }
+ * ```
+ */
+export function usePermittedFields<TResource = any>(
+  action: string,
+  resource: TResource,
+  subjectType?: string
+): {
+  fields: string[];
+  loading: boolean;
+} {
+  const context = usePermissionsContext();
+  const [state, setState] = useState<{ fields: string[]; loading: boolean }>({
+    fields: [],
+    loading: true,
+  });
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    setState({ fields: [], loading: true });
+
+    context
+      .evaluatePermittedFields(action, resource, subjectType, controller.signal)
+      .then(
+        (fields) => {
+          if (!controller.signal.aborted) {
+            setState({ fields, loading: false });
+          }
+        },
+        () => {
+          // A failed evaluation fails closed: no fields permitted
+          if (!controller.signal.aborted) {
+            setState({ fields: [], loading: false });
+          }
+        }
+      );
+
+    return () => {
+      controller.abort();
+    };
+  }, [context.evaluatePermittedFields, action, resource, subjectType]);
+
+  return state;
+}
@@ -0,0 +1,178 @@
+/**
+ * react-auth-gate/server
+ * 
+ * React-free entry point for enforcing the same rules on the server:
+ * the rule engine, combinators, policies and flags, plus authorizers and
+ * Express/Connect-style middleware.
+ * 
+ * @packageDocumentation
+ */
+
+// Core types
+export type {
+  PermissionContext,
+  PermissionRule,
+  PermissionRulesMap,
+  PermissionCheck,
+  PermissionDecision,
+  RuleReturn,
+  PermissionMode,
+  PermissionsConfig,
+  RuleEvaluationResult,
+  EvaluationOptions,
+  AbilityCheck,
+  RoleDefinition,
+  RoleDefinitionsMap,
+  CombiningAlgorithm,
+  FieldRule,
+  FieldRulesMap,
+  RuleOutcome,
+  ShortCircuitMode,
+  RuleErrorPolicy,
+  RuleFailure,
+  RuleErrorEvent,
+  ErrorPolicyResolution,
+  FlagValue,
+  FlagConfig,
+  FlagsConfig,
+  FlagDefinition,
+  FlagTargetingRule,
+  FlagRollout,
+  FlagEvaluation,
+  PermissionData,
+  DecisionSnapshot,
+} from './core/types';
+
+// Rule engine
+export {
+  evaluatePermission,
+  evaluatePermissionEager,
+  evaluateRule,
+  evaluateStringRule,
+  evaluateExpression,
+  evaluateComposedRule,
+  resolveStringRule,
+  createPermissionContext,
+  describeCheck,
+  RuleCycleError,
+} from './core/ruleEngine';
+export {
+  compilePermissionMatcher,
+  matchPermission,
+  getPermissionMatcher,
+} from './core/permissionMatcher';
+export type {
+  PermissionMatcher,
+  PermissionMatchOptions,
+  PermissionGrantMatch,
+} from './core/permissionMatcher';
+export {
+  expandRoles,
+  validateRoleDefinitions,
+  RoleHierarchyError,
+} from './core/roleHierarchy';
+export {
+  parsePermissionExpression,
+  formatPermissionExpression,
+  PermissionExpressionError,
+} from './core/expression';
+export type { PermissionExpression } from './core/expression';
+
+// Rule combinators
+export {
+  and,
+  or,
+  not,
+  ifFlag,
+  hasRole,
+  hasPermission,
+  isOwner,
+  ref,
+  named,
+  getRuleMeta,
+  getRuleLabel,
+} from './core/combinators';
+export type { RuleMeta } from './core/combinators';
+
+// Declarative policies
+export {
+  compilePolicy,
+  validatePolicy,
+  resolvePolicyPath,
+  PolicyValidationError,
+} from './core/policy';
+export type {
+  PolicyDocument,
+  PolicyCondition,
+  PolicyOperator,
+  PolicyIssue,
+} from './core/policy';
+
+// Ability model
+export {
+  isAbilityCheck,
+  detectSubjectType,
+  defaultSubjectKey,
+  resolveAbility,
+} from './core/ability';
+export type { ResolvedAbility } from './core/ability';
+
+// Field-level permissions
+export { evaluatePermittedFields, pickPermitted } from './core/fieldPermissions';
+export type { FieldPermissionsResult } from './core/fieldPermissions';
+
+// Relationship-based access control
+export {
+  InMemoryRelationshipStore,
+  checkRelation,
+  hasRelation,
+  RelationDepthError,
+} from './core/relationships';
+export type {
+  RelationTuple,
+  RelationshipStore,
+  RelationDefinition,
+  RelationSchema,
+  RelationCheckOptions,
+  RelationRuleConfig,
+} from './core/relationships';
+
+// Batched rules
+export { batched } from './core/batching';
+export type { BatchLoader, BatchOptions } from './core/batching';
+
+// Error policy
+export { applyErrorPolicy, collectRuleFailures } from './core/errorPolicy';
+export type { PolicyDecision, ErrorPolicyOptions } from './core/errorPolicy';
+
+// Decision explanations
+export { explainDecision, isPermissionDecision } from './core/decisions';
+
+// Feature flags
+export {
+  resolveFlag,
+  resolveFlags,
+  flagBucket,
+  flagMatches,
+  isFlagDefinition,
+} from './core/flags';
+export type { ResolvedFlags } from './core/flags';
+
+// Server-side rendering
+export { createConfigEvaluator, evaluationOptionsOf } from './core/configEvaluation';
+export type { ConfigEvaluator } from './core/configEvaluation';
+export { createDecisionSnapshot, serializeDecisionSnapshot } from './core/snapshot';
+export type { SnapshotCheck } from './core/snapshot';
+
+// Authorization
+export { createAuthorizer, ForbiddenError } from './core/authorizer';
+export type { Authorizer, AuthorizerConfig } from './core/authorizer';
+export { authorizeRequests, requirePermission } from './core/middleware';
+export type {
+  AuthorizedRequest,
+  AuthorizeRequestsOptions,
+  RequestPermissions,
+  RequirePermissionOptions,
+  RequestMiddleware,
+  NextFunction,
+} from './core/middleware';
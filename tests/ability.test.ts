@@ -0,0 +1,145 @@
+/**
+ * Tests for the action/subject ability model
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  isAbilityCheck,
+  detectSubjectType,
+  resolveAbility,
+  defaultSubjectKey,
+} from '../src/core/ability';
+import {
+  evaluatePermission,
+  createPermissionContext,
+  describeCheck,
+} from '../src/core/ruleEngine';
+import type { PermissionRulesMap } from '../src/core/types';
+
+class Invoice {
+  static modelName = 'Invoice';
+
+  constructor(public ownerId: string) {}
+}
+
+describe('Ability Model', () => {
+  describe('detectSubjectType', () => {
+    it('should prefer a custom detector', () => {
+      expect(detectSubjectType({ kind: 'Report' }, { detectSubjectType: (r) => r.kind })).toBe(
+        'Report'
+      );
+    });
+
+    it('should read __typename', () => {
+      expect(detectSubjectType({ __typename: 'Invoice' })).toBe('Invoice');
+    });
+
+    it('should read a static model name', () => {
+      class t {
+        static modelName = 'Invoice';
+      }
+
+      expect(detectSubjectType(new t())).toBe('Invoice');
+    });
+
+    it('should fall back to the class name with a warning', () => {
+      class Receipt {}
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      try {
+        expect(detectSubjectType(new Receipt())).toBe('Receipt');
+        expect(detectSubjectType(new Receipt())).toBe('Receipt');
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain('static modelName');
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    it('should not detect plain objects or primitives', () => {
+      expect(detectSubjectType({ id: 1 })).toBeUndefined();
+      expect(detectSubjectType('Invoice')).toBeUndefined();
+      expect(detectSubjectType(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('resolveAbility', () => {
+    it('should map a subject type to a rule key', () => {
+      expect(resolveAbility({ action: 'update', subject: 'Invoice' })).toEqual({
+        key: 'invoice.update',
+        subjectType: 'Invoice',
+        resource: undefined,
+      });
+      expect(defaultSubjectKey('view', 'BlogPost')).toBe('blogPost.view');
+    });
+
+    it('should use an object subject as the resource', () => {
+      const invoice = new Invoice('1');
+
+      expect(resolveAbility({ action: 'delete', subject: invoice })).toEqual({
+        key: 'invoice.delete',
+        subjectType: 'Invoice',
+        resource: invoice,
+      });
+    });
+
+    it('should honour a custom key mapping', () => {
+      const resolved = resolveAbility({ action: 'update', subject: 'Invoice' }, undefined, {
+        subjectKey: (action, type) => `${type}:${action}`,
+      });
+
+      expect(resolved.key).toBe('Invoice:update');
+    });
+
+    it('should throw when the subject type is unknown', () => {
+      expect(() => resolveAbility({ action: 'update', subject: { id: 1 } })).toThrow(
+        'Cannot detect subject type for "update"'
+      );
+    });
+  });
+
+  describe('with the rule engine', () => {
+    const rules: PermissionRulesMap = {
+      'invoice.update': ({ user, resource }) => resource?.ownerId === user.id,
+    };
+
+    it('should evaluate abilities through string rules', async () => {
+      const ctx = createPermissionContext({ id: '1' }, undefined, [], [], {});
+
+      const own = await evaluatePermission({ action: 'update', subject: new Invoice('1') }, ctx, rules);
+      const other = await evaluatePermission({ action: 'update', subject: new Invoice('2') }, ctx, rules);
+
+      expect(own.allowed).toBe(true);
+      expect(own.ruleResults[0].rule).toBe('invoice.update');
+      expect(other.allowed).toBe(false);
+    });
+
+    it('should coexist with granted permissions', async () => {
+      const ctx = createPermissionContext({}, undefined, [], ['invoice.*'], {});
+
+      const result = await evaluatePermission({ action: 'read', subject: 'Invoice' }, ctx, {});
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should deny with an error when the subject type is unknown', async () => {
+      const ctx = createPermissionContext({}, undefined, [], ['invoice.*'], {});
+
+      const result = await evaluatePermission({ action: 'read', subject: { id: 1 } }, ctx, {});
+
+      expect(result.allowed).toBe(false);
+      expect(result.ruleResults[0].error).toContain('Cannot detect subject type');
+    });
+  });
+
+  describe('describeCheck', () => {
+    it('should describe every check type', () => {
+      expect(describeCheck('post.edit')).toBe('post.edit');
+      expect(describeCheck(['a', 'b'])).toEqual(['a', 'b']);
+      expect(describeCheck(() => true)).toBe('inline');
+      expect(describeCheck({ action: 'update', subject: 'Invoice' })).toBe('invoice.update');
+      expect(isAbilityCheck({ action: 'update', subject: 'Invoice' })).toBe(true);
+      expect(isAbilityCheck(['update'])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for data adapters inside the PermissionsProvider
+ */
+
+import React from 'react';
+import { describe, it, expect } from '@jest/globals';
+import { act } from 'react';
+import { render, flush, HookProbe } from './support/render';
+import { PermissionsProvider, usePermissionsContext } from '../src/react/PermissionsProvider';
+import { usePermission } from '../src/react/usePermission';
+import { StaticDataAdapter } from '../src/core/dataAdapters';
+import type { PermissionData, PermissionDataAdapter } from '../src/core/types';
+
+/**
+ * Adapter whose first load settles when the test says so
+ */
+class DeferredAdapter implements PermissionDataAdapter {
+  resolve!: (data: PermissionData) => void;
+  reject!: (error: unknown) => void;
+
+  load(): Promise<PermissionData> {
+    return new Promise((resolve, reject) => {
+      this.resolve = resolve;
+      this.reject = reject;
+    });
+  }
+}
+
+function useAdmin() {
+  const { allowed, loading } = usePermission('admin');
+  const { dataLoading, dataError } = usePermissionsContext();
+  return { allowed, loading, dataLoading, dataError };
+}
+
+type Probe = ReturnType<typeof useAdmin>;
+
+function renderProbe(adapter: PermissionDataAdapter, values: Probe[], roles: string[] = []) {
+  return render(
+    <PermissionsProvider user={{}} roles={roles} dataAdapter={adapter} enableDevTools={false}>
+      <HookProbe use={useAdmin} values={values} />
+    </PermissionsProvider>
+  );
+}
+
+describe('Data adapters in the provider', () => {
+  it('should hold checks until the first load instead of deciding on props', async () => {
+    const adapter = new DeferredAdapter();
+    const values: Probe[] = [];
+
+    await renderProbe(adapter, values, ['admin']);
+
+    expect(values[values.length - 1]).toMatchObject({ loading: true, dataLoading: true });
+
+    await act(async () => adapter.resolve({ roles: ['viewer'] }));
+    await flush();
+
+    expect(values[values.length - 1]).toEqual({
+      allowed: false,
+      loading: false,
+      dataLoading: false,
+      dataError: undefined,
+    });
+    // The props granted admin, but no render decided on them
+    expect(values.some((value) => value.allowed)).toBe(false);
+  });
+
+  it('should report a failed load and fall back to the props', async () => {
+    const adapter = new DeferredAdapter();
+    const values: Probe[] = [];
+    const error = new Error('unavailable');
+
+    await renderProbe(adapter, values, ['admin']);
+    await act(async () => adapter.reject(error));
+    await flush();
+
+    expect(values[values.length - 1]).toEqual({
+      allowed: true,
+      loading: false,
+      dataLoading: false,
+      dataError: error,
+    });
+  });
+
+  it('should re-evaluate checks when the adapter pushes data', async () => {
+    const adapter = new StaticDataAdapter({ roles: ['viewer'] });
+    const values: Probe[] = [];
+
+    await renderProbe(adapter, values);
+    await flush();
+    expect(values[values.length - 1]).toMatchObject({ allowed: false, loading: false });
+
+    await act(async () => adapter.set({ roles: ['admin'] }));
+    await flush();
+    expect(values[values.length - 1]).toMatchObject({ allowed: true, loading: false });
+
+    await act(async () => adapter.update({ roles: [] }));
+    await flush();
+    expect(values[values.length - 1]).toMatchObject({ allowed: false, loading: false });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for server-side authorizers and request middleware
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createAuthorizer, ForbiddenError } from '../src/core/authorizer';
+import { authorizeRequests, requirePermission } from '../src/core/middleware';
+import type { AuthorizedRequest } from '../src/core/middleware';
+import type { PermissionRulesMap } from '../src/core/types';
+
+interface User {
+  id: string;
+  roles: string[];
+}
+
+interface Post {
+  id: string;
+  authorId: string;
+}
+
+const rules: PermissionRulesMap<User, Post> = {
+  'post.edit': ({ user, resource }) =>
+    resource?.authorId === user.id || { allowed: false, reason: 'Only the author can edit' },
+  'post.view': ({ resource, roles }) => resource?.id !== 'draft' || roles.includes('editor'),
+};
+
+const alice: User = { id: 'alice', roles: ['author'] };
+const posts: Post[] = [
+  { id: 'p1', authorId: 'alice' },
+  { id: 'draft', authorId: 'bob' },
+  { id: 'p2', authorId: 'bob' },
+];
+
+type Request = { user?: User; params: Record<string, string> } & AuthorizedRequest<User>;
+
+/**
+ * Runs middleware to completion, resolving with what it passed to next()
+ */
+function run(
+  middleware: (req: any, res: unknown, next: (error?: unknown) => void) => void,
+  req: Request
+) {
+  return new Promise<unknown>((resolve) => middleware(req, {}, resolve));
+}
+
+describe('Authorizer', () => {
+  const authorizer = createAuthorizer<User>({
+    user: alice,
+    roles: alice.roles,
+    roleDefinitions: { author: { permissions: ['comment.create'] } },
+    rules,
+  });
+
+  it('should decide checks with the shared rules', async () => {
+    await expect(authorizer.can('post.edit', posts[0])).resolves.toBe(true);
+    await expect(authorizer.can('post.edit', posts[2])).resolves.toBe(false);
+    await expect(authorizer.can('comment.create')).resolves.toBe(true);
+    await expect(authorizer.decide('post.edit', posts[2])).resolves.toEqual({
+      allowed: false,
+      reason: 'Only the author can edit',
+    });
+  });
+
+  it('should throw a ForbiddenError when an assertion is denied', async () => {
+    await expect(authorizer.assert('post.edit', posts[0])).resolves.toBeUndefined();
+
+    const error = await authorizer.assert('post.edit', posts[2]).catch((thrown) => thrown);
+    expect(error).toBeInstanceOf(ForbiddenError);
+    expect(error).toMatchObject({
+      status: 403,
+      check: 'post.edit',
+      message: 'Only the author can edit',
+      decision: { allowed: false },
+    });
+
+    await expect(authorizer.assert(['admin', 'moderator'])).rejects.toThrow(
+      'Permission denied: admin, moderator'
+    );
+  });
+
+  it('should filter items the check allows', async () => {
+    await expect(authorizer.filter(posts, 'post.view')).resolves.toEqual([posts[0], posts[2]]);
+    await expect(authorizer.filter(posts, 'post.edit')).resolves.toEqual([posts[0]]);
+  });
+
+  it('should apply the error policy', async () => {
+    const failing = createAuthorizer<User>({
+      user: alice,
+      rules: {
+        broken: () => {
+          throw new Error('backend down');
+        },
+      },
+      onError: 'deny',
+    });
+
+    await expect(failing.can('broken')).resolves.toBe(false);
+  });
+});
+
+describe('Request Middleware', () => {
+  const authorize = authorizeRequests<User, Request>({
+    rules,
+    resolve: (req) => ({ user: req.user!, roles: req.user?.roles }),
+  });
+
+  it('should attach an authorizer for the request user', async () => {
+    const req: Request = { user: alice, params: {} };
+
+    await expect(run(authorize, req)).resolves.toBeUndefined();
+    await expect(req.authorizer?.can('post.edit', posts[0])).resolves.toBe(true);
+    expect(req.authorizer?.context().roles).toEqual(['author']);
+  });
+
+  it('should pass resolve errors to the error handler', async () => {
+    const failing = authorizeRequests({
+      rules,
+      resolve: async () => {
+        throw new Error('invalid token');
+      },
+    });
+
+    await expect(run(failing, { params: {} })).resolves.toHaveProperty('message', 'invalid token');
+  });
+
+  it('should guard routes with a check on a loaded resource', async () => {
+    const guard = requirePermission<User, Post, Request>('post.edit', {
+      resource: async (req) => posts.find((post) => post.id === req.params.id)!,
+    });
+
+    const allowed: Request = { user: alice, params: { id: 'p1' } };
+    await run(authorize, allowed);
+    await expect(run(guard, allowed)).resolves.toBeUndefined();
+
+    const denied: Request = { user: alice, params: { id: 'p2' } };
+    await run(authorize, denied);
+    const error = await run(guard, denied);
+    expect(error).toBeInstanceOf(ForbiddenError);
+    expect(error).toMatchObject({ status: 403, message: 'Only the author can edit' });
+  });
+
+  it('should require authorizeRequests to run first', async () => {
+    const error = await run(requirePermission('post.view'), { params: {} });
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toHaveProperty('message', expect.stringMatching(/authorizeRequests/));
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for batched rules
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { batched } from '../src/core/batching';
+import { evaluatePermission, createPermissionContext } from '../src/core/ruleEngine';
+import type { PermissionRulesMap } from '../src/core/types';
+
+interface Post {
+  id: number;
+  authorId: string;
+}
+
+const posts: Post[] = Array.from({ length: 5 }, (_, i) => ({
+  id: i,
+  authorId: i % 2 === 0 ? 'u1' : 'u2',
+}));
+
+// Batches are grouped by user identity, as with a provider's stable user
+const alice = { id: 'u1' };
+const bob = { id: 'u2' };
+
+function check(rules: PermissionRulesMap, resource: Post, user = alice) {
+  const context = createPermissionContext(user, resource, [], [], {});
+  return evaluatePermission('post.edit', context, rules);
+}
+
+describe('batched', () => {
+  it('should resolve checks made in the same tick with one loader call', async () => {
+    const loader = jest.fn(async (resources: Post[], { user }: any) =>
+      resources.map((post) => post.authorId === user.id)
+    );
+    const rules: PermissionRulesMap = { 'post.edit': batched(loader) };
+
+    const results = await Promise.all(posts.map((post) => check(rules, post)));
+
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(loader.mock.calls[0][0]).toHaveLength(5);
+    expect(results.map((result) => result.allowed)).toEqual([true, false, true, false, true]);
+  });
+
+  it('should share one slot for identical resource keys', async () => {
+    const loader = jest.fn(async (resources: Post[]) => resources.map(() => true));
+    const rules: PermissionRulesMap = {
+      'post.edit': batched(loader, { resourceKey: (post) => String(post.id) }),
+    };
+
+    await Promise.all([
+      check(rules, { id: 1, authorId: 'u1' }),
+      check(rules, { id: 1, authorId: 'u1' }),
+      check(rules, posts[1]),
+    ]);
+
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(loader.mock.calls[0][0]).toHaveLength(1);
+  });
+
+  it('should share in-flight loads with later checks', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const loader = jest.fn(async (resources: Post[]) => {
+      await gate;
+      return resources.map(() => true);
+    });
+    const rules: PermissionRulesMap = { 'post.edit': batched(loader) };
+
+    const first = check(rules, posts[0]);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = check(rules, posts[0]);
+    release();
+
+    expect((await first).allowed).toBe(true);
+    expect((await second).allowed).toBe(true);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should abort the load only once every waiting check has aborted', async () => {
+    let signal: AbortSignal | undefined;
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const loader = jest.fn(async (resources: Post[], context: any) => {
+      signal = context.signal;
+      await gate;
+      return resources.map(() => true);
+    });
+    const rules: PermissionRulesMap = { 'post.edit': batched(loader) };
+    const first = new AbortController();
+    const second = new AbortController();
+    const checkWith = (controller: AbortController, post: Post) =>
+      evaluatePermission(
+        'post.edit',
+        createPermissionContext(alice, post, [], [], {}, controller.signal),
+        rules
+      );
+
+    const pending = [checkWith(first, posts[0]), checkWith(second, posts[1])];
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    first.abort();
+    expect(signal?.aborted).toBe(false);
+
+    second.abort();
+    expect(signal?.aborted).toBe(true);
+
+    release();
+    await Promise.all(pending);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should split batches by maxBatchSize', async () => {
+    const loader = jest.fn(async (resources: Post[]) => resources.map(() => true));
+    const rules: PermissionRulesMap = { 'post.edit': batched(loader, { maxBatchSize: 2 }) };
+
+    await Promise.all(posts.map((post) => check(rules, post)));
+
+    expect(loader.mock.calls.map(([resources]) => resources.length)).toEqual([2, 2, 1]);
+  });
+
+  it('should reject batch sizes that would never split', () => {
+    const loader = async (resources: Post[]) => resources.map(() => true);
+
+    [0, -1, 1.5, NaN].forEach((maxBatchSize) => {
+      expect(() => batched(loader, { label: 'posts', maxBatchSize })).toThrow(
+        `posts: maxBatchSize must be an integer of at least 1, got ${maxBatchSize}`
+      );
+    });
+    expect(() => batched(loader, { maxBatchSize: 1 })).not.toThrow();
+    expect(() => batched(loader, { maxBatchSize: Infinity })).not.toThrow();
+  });
+
+  it('should batch separately per user', async () => {
+    const loader = jest.fn(async (resources: Post[]) => resources.map(() => true));
+    const rules: PermissionRulesMap = { 'post.edit': batched(loader) };
+
+    await Promise.all([check(rules, posts[0], alice), check(rules, posts[0], bob)]);
+
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail every check when the loader returns the wrong number of results', async () => {
+    const rules: PermissionRulesMap = {
+      'post.edit': batched(async () => [true], { label: 'api.canEdit' }),
+    };
+
+    const results = await Promise.all([check(rules, posts[0]), check(rules, posts[1])]);
+
+    results.forEach((result) => {
+      expect(result.allowed).toBe(false);
+      expect(result.ruleResults[0].error).toBe(
+        'api.canEdit: loader returned 1 results for 2 resources'
+      );
+    });
+  });
+
+  it('should fail every check when the loader rejects', async () => {
+    const rules: PermissionRulesMap = {
+      'post.edit': batched(async () => {
+        throw new Error('Network down');
+      }),
+    };
+
+    const results = await Promise.all([check(rules, posts[0]), check(rules, posts[1])]);
+
+    expect(results.map((result) => result.ruleResults[0].error)).toEqual([
+      'Network down',
+      'Network down',
+    ]);
+  });
+});
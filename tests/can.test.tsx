@@ -0,0 +1,41 @@
+/**
+ * Tests for the Can component
+ */
+
+import React from 'react';
+import { describe, it, expect } from '@jest/globals';
+import { render } from './support/render';
+import { PermissionsProvider } from '../src/react/PermissionsProvider';
+import { Can } from '../src/react/Can';
+import type { PermissionRulesMap } from '../src/core/types';
+
+const rules: PermissionRulesMap = {
+  'invoice.refund': () => ({ allowed: false, reason: 'Refund window closed' }),
+  'invoice.view': () => true,
+};
+
+describe('Can', () => {
+  it('should render children when the ability is allowed', async () => {
+    const { container } = await render(
+      <PermissionsProvider user={{}} rules={rules} enableDevTools={false}>
+        <Can action="view" subject="Invoice">
+          <span>invoice</span>
+        </Can>
+      </PermissionsProvider>
+    );
+
+    expect(container.textContent).toBe('invoice');
+  });
+
+  it('should pass the decision to function fallbacks', async () => {
+    const { container } = await render(
+      <PermissionsProvider user={{}} rules={rules} enableDevTools={false}>
+        <Can action="refund" subject="Invoice" fallback={({ reason }) => <em>{reason}</em>}>
+          <button>Refund</button>
+        </Can>
+      </PermissionsProvider>
+    );
+
+    expect(container.innerHTML).toBe('<em>Refund window closed</em>');
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for rule combinators
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  and,
+  or,
+  not,
+  ifFlag,
+  hasRole,
+  hasPermission,
+  isOwner,
+  ref,
+  getRuleLabel,
+} from '../src/core/combinators';
+import { evaluatePermission, createPermissionContext } from '../src/core/ruleEngine';
+import type { PermissionRule, PermissionRulesMap } from '../src/core/types';
+
+describe('Rule Combinators', () => {
+  describe('direct calls', () => {
+    it('should combine sync rules synchronously', () => {
+      const rule = and(hasRole('editor'), or(isOwner(), hasPermission('post.*')));
+      const ctx = createPermissionContext({ id: '1' }, { ownerId: '2' }, ['editor'], ['post.*'], {});
+
+      expect(rule(ctx)).toBe(true);
+    });
+
+    it('should return a promise when an operand is async', async () => {
+      const slow: PermissionRule = async () => true;
+      const rule = and(hasRole('editor'), slow);
+      const ctx = createPermissionContext({}, undefined, ['editor'], [], {});
+
+      const result = rule(ctx);
+
+      expect(result).toBeInstanceOf(Promise);
+      await expect(result).resolves.toBe(true);
+    });
+
+    it('should invert with not', () => {
+      const ctx = createPermissionContext({}, undefined, ['guest'], [], {});
+
+      expect(not(hasRole('admin'))(ctx)).toBe(true);
+    });
+
+    it('should gate on a flag with ifFlag', () => {
+      const rule = ifFlag('comments', hasRole('member'));
+      const on = createPermissionContext({}, undefined, ['member'], [], { comments: true });
+      const off = createPermissionContext({}, undefined, ['member'], [], { comments: false });
+
+      expect(rule(on)).toBe(true);
+      expect(rule(off)).toBe(false);
+      expect(ifFlag('comments')(on)).toBe(true);
+    });
+
+    it('should compare custom owner fields', () => {
+      const rule = isOwner('authorEmail', 'email');
+      const ctx = createPermissionContext({ email: 'a@b.c' }, { authorEmail: 'a@b.c' }, [], [], {});
+
+      expect(rule(ctx)).toBe(true);
+      expect(isOwner()(createPermissionContext({}, {}, [], [], {}))).toBe(false);
+    });
+
+    it('should refuse to resolve ref outside the engine', () => {
+      const ctx = createPermissionContext({}, undefined, [], [], {});
+
+      expect(() => ref('post.view')(ctx)).toThrow("ref('post.view')");
+    });
+  });
+
+  describe('labels', () => {
+    it('should describe composed rules', () => {
+      const rule = and(hasRole('admin'), not(isOwner('authorId')), ref('post.view'));
+
+      expect(getRuleLabel(rule)).toBe(
+        'and(hasRole(admin), not(isOwner(authorId)), ref(post.view))'
+      );
+      expect(getRuleLabel(() => true)).toBe('inline');
+    });
+  });
+
+  describe('with the rule engine', () => {
+    const rules: PermissionRulesMap = {
+      'post.view': or(hasRole('viewer'), isOwner()),
+      'post.comment': and(ref('post.view'), ifFlag('comments')),
+    };
+
+    it('should record which branch of a named composite failed', async () => {
+      const ctx = createPermissionContext({ id: '1' }, { ownerId: '1' }, [], [], {});
+
+      const result = await evaluatePermission('post.comment', ctx, rules);
+      const [root] = result.ruleResults;
+
+      expect(result.allowed).toBe(false);
+      expect(root.rule).toBe('post.comment');
+      expect(root.children?.map((child) => [child.rule, child.result])).toEqual([
+        ['ref(post.view)', true],
+        ['flag:comments', false],
+      ]);
+      expect(root.children?.[0].children?.[0].children?.map((child) => child.rule)).toEqual([
+        'hasRole(viewer)',
+        'isOwner(ownerId)',
+      ]);
+    });
+
+    it('should label inline composites', async () => {
+      const ctx = createPermissionContext({}, undefined, ['admin'], [], {});
+
+      const result = await evaluatePermission(or(hasRole('admin'), hasRole('owner')), ctx, {});
+
+      expect(result.allowed).toBe(true);
+      expect(result.ruleResults[0].rule).toBe('or(hasRole(admin), hasRole(owner))');
+      expect(result.ruleResults[0].children).toHaveLength(2);
+    });
+
+    it('should record errors from plain operands', async () => {
+      const failing: PermissionRule = () => {
+        throw new Error('boom');
+      };
+      const ctx = createPermissionContext({}, undefined, [], [], {});
+
+      const result = await evaluatePermission(and(failing, hasRole('admin')), ctx, {});
+
+      expect(result.allowed).toBe(false);
+      expect(result.ruleResults[0].children?.[0]).toMatchObject({
+        rule: 'inline',
+        result: false,
+        error: 'boom',
+      });
+    });
+
+    it('should resolve hasPermission like a string check', async () => {
+      const denied = createPermissionContext({}, undefined, [], ['post.*', '!post.delete'], {});
+      const slashed = createPermissionContext({}, undefined, [], ['post/*'], {});
+
+      const direct = await evaluatePermission('post.delete', denied, {});
+      const composed = await evaluatePermission(hasPermission('post.delete'), denied, {});
+
+      expect(direct.allowed).toBe(false);
+      expect(composed.allowed).toBe(false);
+      expect(composed.ruleResults[0].deniedBy).toBe('!post.delete');
+      expect(hasPermission('post.delete')(denied)).toBe(false);
+
+      const options = { permissionSeparator: '/' };
+      expect((await evaluatePermission('post/edit', slashed, {}, 'any', options)).allowed).toBe(true);
+      expect(
+        (await evaluatePermission(hasPermission('post/edit'), slashed, {}, 'any', options)).allowed
+      ).toBe(true);
+    });
+  });
+});
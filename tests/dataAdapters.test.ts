@@ -0,0 +1,194 @@
+/**
+ * Tests for permission data adapters
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { createServer, Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  StaticDataAdapter,
+  RestDataAdapter,
+  LocalStorageDataAdapter,
+  DataAdapterError,
+} from '../src/core/dataAdapters';
+
+/**
+ * In-memory Storage
+ */
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    clear: () => items.clear(),
+  };
+}
+
+describe('Data Adapters', () => {
+  describe('StaticDataAdapter', () => {
+    it('should serve its data synchronously', () => {
+      const adapter = new StaticDataAdapter({ roles: ['viewer'] });
+
+      expect(adapter.load()).toEqual({ roles: ['viewer'] });
+      expect(adapter.getSnapshot()).toEqual({ roles: ['viewer'] });
+    });
+
+    it('should push updates to subscribers', () => {
+      const adapter = new StaticDataAdapter({ roles: ['viewer'], flags: { beta: true } });
+      const listener = jest.fn();
+      const unsubscribe = adapter.subscribe(listener);
+
+      adapter.update({ roles: ['editor'] });
+      unsubscribe();
+      adapter.set({});
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ roles: ['editor'], flags: { beta: true } });
+    });
+  });
+
+  describe('RestDataAdapter', () => {
+    let server: Server;
+    let url: string;
+    const requests: Array<{ url?: string; authorization?: string }> = [];
+    let version = 0;
+
+    beforeAll(async () => {
+      server = createServer((request, response) => {
+        requests.push({ url: request.url, authorization: request.headers.authorization });
+
+        if (request.url === '/missing') {
+          response.writeHead(404).end();
+          return;
+        }
+
+        version++;
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ roles: [`v${version}`], permissions: ['post.view'] }));
+      });
+
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should load data and keep it as the snapshot', async () => {
+      const adapter = new RestDataAdapter({
+        url: `${url}/permissions`,
+        init: () => ({ headers: { Authorization: 'Bearer token' } }),
+      });
+
+      expect(adapter.getSnapshot()).toBeUndefined();
+
+      const data = await adapter.load();
+
+      expect(data.permissions).toEqual(['post.view']);
+      expect(adapter.getSnapshot()).toBe(data);
+      expect(requests[requests.length - 1]).toEqual({
+        url: '/permissions',
+        authorization: 'Bearer token',
+      });
+    });
+
+    it('should map the response with parse', async () => {
+      const adapter = new RestDataAdapter({
+        url,
+        parse: (body) => ({ roles: body.roles.map((role: string) => `app:${role}`) }),
+      });
+
+      expect((await adapter.load()).roles).toEqual([`app:v${version}`]);
+    });
+
+    it('should reject failed responses with the status', async () => {
+      const adapter = new RestDataAdapter({ url: `${url}/missing` });
+
+      await expect(adapter.load()).rejects.toThrow(DataAdapterError);
+      await expect(adapter.load()).rejects.toMatchObject({ status: 404 });
+    });
+
+    it('should notify subscribers on refresh', async () => {
+      const adapter = new RestDataAdapter({ url });
+      const listener = jest.fn();
+      adapter.subscribe(listener);
+
+      const data = await adapter.refresh();
+
+      expect(listener).toHaveBeenCalledWith(data);
+    });
+
+    it('should poll while there are subscribers', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+
+      try {
+        const fetchMock = jest.fn(async () => new Response(JSON.stringify({ roles: ['poll'] })));
+        const adapter = new RestDataAdapter({
+          url,
+          pollInterval: 1000,
+          fetch: fetchMock as unknown as typeof fetch,
+        });
+        const listener = jest.fn();
+        const unsubscribe = adapter.subscribe(listener);
+
+        await jest.advanceTimersByTimeAsync(2000);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(listener).toHaveBeenCalledWith({ roles: ['poll'] });
+
+        unsubscribe();
+        await jest.advanceTimersByTimeAsync(2000);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('LocalStorageDataAdapter', () => {
+    it('should store and load data', () => {
+      const storage = memoryStorage();
+      const adapter = new LocalStorageDataAdapter({ key: 'acl', storage });
+      const listener = jest.fn();
+      adapter.subscribe(listener);
+
+      expect(adapter.getSnapshot()).toBeUndefined();
+      expect(adapter.load()).toEqual({});
+
+      adapter.set({ roles: ['admin'], flags: { theme: 'dark' } });
+
+      expect(JSON.parse(storage.getItem('acl')!)).toEqual({
+        roles: ['admin'],
+        flags: { theme: 'dark' },
+      });
+      expect(new LocalStorageDataAdapter({ key: 'acl', storage }).getSnapshot()).toEqual({
+        roles: ['admin'],
+        flags: { theme: 'dark' },
+      });
+      expect(listener).toHaveBeenCalledWith({ roles: ['admin'], flags: { theme: 'dark' } });
+
+      adapter.clear();
+      expect(listener).toHaveBeenLastCalledWith({});
+    });
+
+    it('should reject invalid stored data', () => {
+      const storage = memoryStorage();
+      storage.setItem('permissions', '{not json');
+      const adapter = new LocalStorageDataAdapter({ storage });
+
+      expect(adapter.getSnapshot()).toBeUndefined();
+      expect(() => adapter.load()).toThrow(DataAdapterError);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for the decision cache
+ */
+
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { DecisionCache, decisionKey } from '../src/core/decisionCache';
+import { evaluatePermission, createPermissionContext } from '../src/core/ruleEngine';
+import type { PermissionRulesMap } from '../src/core/types';
+
+const rules: PermissionRulesMap = {
+  'post.view': () => true,
+  'post.edit': ({ user, resource }) => resource?.authorId === user.id,
+};
+
+async function evaluate(check: string, resource?: any) {
+  const context = createPermissionContext({ id: 'u1' }, resource, [], [], {});
+  return evaluatePermission(check, context, rules);
+}
+
+describe('DecisionCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('key', () => {
+    it('should key by check, resource identity and mode', () => {
+      const cache = new DecisionCache();
+      const post = { id: 1 };
+
+      expect(cache.key('post.edit', post, 'any')).toBe(cache.key('post.edit', post, 'any'));
+      expect(cache.key('post.edit', post, 'any')).not.toBe(cache.key('post.edit', { id: 1 }, 'any'));
+      expect(cache.key('post.edit', post, 'any')).not.toBe(cache.key('post.edit', post, 'all'));
+      expect(cache.key(['a', 'b'], undefined, 'any')).toBe(cache.key(['a', 'b'], undefined, 'any'));
+    });
+
+    it('should key function checks by identity', () => {
+      const cache = new DecisionCache();
+      const first = () => true;
+      const second = () => true;
+
+      expect(cache.key(first, undefined, 'any')).not.toBe(cache.key(second, undefined, 'any'));
+    });
+
+    it('should match decisionKey', () => {
+      const cache = new DecisionCache();
+      const post = { id: 1 };
+
+      expect(cache.key('post.edit', post, 'any')).toBe(decisionKey('post.edit', post, 'any'));
+    });
+
+    it('should use resourceKey when given', () => {
+      const cache = new DecisionCache<{ id: number }>({ resourceKey: (post) => String(post.id) });
+
+      expect(cache.key('post.edit', { id: 1 }, 'any')).toBe(cache.key('post.edit', { id: 1 }, 'any'));
+      expect(cache.key({ action: 'edit', subject: { id: 1 } }, undefined, 'any')).toBe(
+        cache.key({ action: 'edit', subject: { id: 1 } }, undefined, 'any')
+      );
+    });
+  });
+
+  describe('get/set', () => {
+    it('should return stored decisions', async () => {
+      const cache = new DecisionCache();
+      const result = await evaluate('post.view');
+
+      cache.set('k', result);
+      expect(cache.get('k')?.allowed).toBe(true);
+    });
+
+    it('should expire entries after the TTL', async () => {
+      jest.useFakeTimers();
+      const cache = new DecisionCache({ ttl: 1000 });
+      cache.set('k', await evaluate('post.view'));
+
+      jest.advanceTimersByTime(999);
+      expect(cache.get('k')).toBeDefined();
+      jest.advanceTimersByTime(1);
+      expect(cache.get('k')).toBeUndefined();
+    });
+
+    it('should use the shortest TTL of the rules involved', async () => {
+      jest.useFakeTimers();
+      const cache = new DecisionCache({ ttl: 10_000, ruleTtl: { 'post.edit': 100 } });
+      cache.set('edit', await evaluate('post.edit', { authorId: 'u1' }));
+      cache.set('view', await evaluate('post.view'));
+
+      jest.advanceTimersByTime(100);
+      expect(cache.get('edit')).toBeUndefined();
+      expect(cache.get('view')).toBeDefined();
+    });
+
+    it('should not cache rules with a TTL of 0', async () => {
+      const cache = new DecisionCache({ ruleTtl: { 'post.view': 0 } });
+      cache.set('k', await evaluate('post.view'));
+
+      expect(cache.get('k')).toBeUndefined();
+    });
+
+    it('should not cache decisions with rule errors', async () => {
+      const cache = new DecisionCache();
+      cache.set('k', await evaluate('missing and'));
+
+      expect(cache.get('k')).toBeUndefined();
+    });
+
+    it('should evict the oldest entry beyond maxEntries', async () => {
+      const cache = new DecisionCache({ maxEntries: 2 });
+      const result = await evaluate('post.view');
+
+      cache.set('a', result);
+      cache.set('b', result);
+      cache.set('c', result);
+
+      expect(cache.size).toBe(2);
+      expect(cache.get('a')).toBeUndefined();
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should drop decisions involving a rule key', async () => {
+      const cache = new DecisionCache();
+      cache.set('edit', await evaluate('post.edit', { authorId: 'u1' }));
+      cache.set('both', await evaluate('post.view and post.edit', { authorId: 'u1' }));
+      cache.set('view', await evaluate('post.view'));
+
+      cache.invalidate('post.edit');
+
+      expect(cache.get('edit')).toBeUndefined();
+      expect(cache.get('both')).toBeUndefined();
+      expect(cache.get('view')).toBeDefined();
+    });
+
+    it('should drop everything without a key', async () => {
+      const cache = new DecisionCache();
+      cache.set('view', await evaluate('post.view'));
+
+      cache.invalidate();
+      expect(cache.size).toBe(0);
+    });
+  });
+});
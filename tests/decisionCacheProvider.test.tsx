@@ -0,0 +1,77 @@
+/**
+ * Tests for the decision cache inside the PermissionsProvider
+ */
+
+import React from 'react';
+import { describe, it, expect } from '@jest/globals';
+import { render, flush, HookProbe } from './support/render';
+import { PermissionsProvider } from '../src/react/PermissionsProvider';
+import { usePermission } from '../src/react/usePermission';
+import type { PermissionRulesMap } from '../src/core/types';
+
+const user = { id: 'u1' };
+
+let evaluations = 0;
+
+const rules: PermissionRulesMap = {
+  isMember: async () => {
+    evaluations++;
+    return true;
+  },
+};
+
+const isSuspended = () => false;
+
+function useMember() {
+  return usePermission('isMember').allowed;
+}
+
+describe('Decision cache in the provider', () => {
+  it('should keep the cache across re-renders with inline options', async () => {
+    const values: boolean[] = [];
+    evaluations = 0;
+
+    const app = (key: number) => (
+      <PermissionsProvider
+        user={user}
+        rules={rules}
+        cache={{ ttl: 5000, ruleTtl: { isMember: 5000 } }}
+        denyRules={{ isMember: isSuspended }}
+        ruleTimeouts={{ isMember: 1000 }}
+        enableDevTools={false}
+      >
+        <HookProbe key={key} use={useMember} values={values} />
+      </PermissionsProvider>
+    );
+
+    const { rerender } = await render(app(1));
+    await flush();
+    expect(values[values.length - 1]).toBe(true);
+
+    // Remounting the check re-reads it; only a rebuilt cache would re-run the rule
+    await rerender(app(2));
+    await flush();
+    await rerender(app(3));
+    await flush();
+
+    expect(values[values.length - 1]).toBe(true);
+    expect(evaluations).toBe(1);
+  });
+
+  it('should start a new cache when the options change', async () => {
+    evaluations = 0;
+
+    const app = (ttl: number) => (
+      <PermissionsProvider user={user} rules={rules} cache={{ ttl }} enableDevTools={false}>
+        <HookProbe use={useMember} values={[]} />
+      </PermissionsProvider>
+    );
+
+    const { rerender } = await render(app(5000));
+    await flush();
+    await rerender(app(1000));
+    await flush();
+
+    expect(evaluations).toBe(2);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for structured rule decisions and decision explanations
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { evaluatePermission, createPermissionContext } from '../src/core/ruleEngine';
+import { and, hasRole, named, not } from '../src/core/combinators';
+import { explainDecision, isAllowed, isPermissionDecision } from '../src/core/decisions';
+import type { PermissionRulesMap } from '../src/core/types';
+
+const post = { authorId: 'u2', locked: true };
+const context = createPermissionContext({ id: 'u1' }, post, ['editor'], [], {});
+
+const locked = named('isUnlocked', ({ resource }) =>
+  resource.locked
+    ? { allowed: false, reason: 'This post is locked', code: 'POST_LOCKED', meta: { by: 'u3' } }
+    : true
+);
+
+const rules: PermissionRulesMap = {
+  'post.edit': ({ user, resource }) =>
+    user.id === resource.authorId || {
+      allowed: false,
+      reason: 'Only the author can edit',
+      code: 'NOT_OWNER',
+    },
+  'post.view': () => ({ allowed: true, reason: 'Posts are public' }),
+  'post.publish': async () => ({ allowed: false, reason: 'Publishing is paused' }),
+  'post.archive': and(hasRole('editor'), locked),
+};
+
+describe('Decisions', () => {
+  it('should recognize structured decisions', () => {
+    expect(isPermissionDecision({ allowed: false })).toBe(true);
+    expect(isPermissionDecision(true)).toBe(false);
+    expect(isAllowed({ allowed: true, reason: 'ok' })).toBe(true);
+    expect(isAllowed(false)).toBe(false);
+  });
+
+  it('should propagate the reason of a denying rule', async () => {
+    const result = await evaluatePermission('post.edit', context, rules);
+
+    expect(result).toMatchObject({
+      allowed: false,
+      reason: 'Only the author can edit',
+      code: 'NOT_OWNER',
+    });
+    expect(result.ruleResults[0]).toMatchObject({ rule: 'post.edit', code: 'NOT_OWNER' });
+  });
+
+  it('should explain allowed decisions too', async () => {
+    const result = await evaluatePermission('post.view', context, rules);
+
+    expect(result).toMatchObject({ allowed: true, reason: 'Posts are public' });
+  });
+
+  it('should support async decisions', async () => {
+    const result = await evaluatePermission('post.publish', context, rules);
+
+    expect(result).toMatchObject({ allowed: false, reason: 'Publishing is paused' });
+  });
+
+  it('should find the explanation in composed branches', async () => {
+    const result = await evaluatePermission('post.archive', context, rules);
+
+    expect(result).toMatchObject({
+      allowed: false,
+      code: 'POST_LOCKED',
+      meta: { by: 'u3' },
+    });
+  });
+
+  it('should treat decisions as booleans when combinators are called directly', () => {
+    expect(and(hasRole('editor'), locked)(context)).toBe(false);
+    expect(not(locked)(context)).toBe(true);
+  });
+
+  it('should use the reason of a deny rule', async () => {
+    const result = await evaluatePermission('post.view', context, rules, 'any', {
+      denyRules: { 'post.view': () => ({ allowed: true, reason: 'Account suspended' }) },
+    });
+
+    expect(result).toMatchObject({ allowed: false, reason: 'Account suspended' });
+    expect(result.ruleResults[0].deniedBy).toBe("denyRules['post.view']");
+  });
+
+  it('should leave decisions without an explanation unexplained', async () => {
+    const result = await evaluatePermission('admin', context, rules);
+
+    expect(result).toEqual({ allowed: false, ruleResults: [expect.anything()] });
+  });
+
+  describe('explainDecision', () => {
+    it('should only use results that agree with the decision', () => {
+      const ruleResults = [
+        {
+          rule: 'not(isOwner)',
+          result: false,
+          duration: 0,
+          children: [{ rule: 'isOwner', result: true, duration: 0, reason: 'You own this' }],
+        },
+      ];
+
+      expect(explainDecision(false, ruleResults)).toEqual({ allowed: false });
+    });
+
+    it('should ignore skipped results', () => {
+      expect(
+        explainDecision(false, [
+          { rule: 'a', result: false, duration: 0, outcome: 'skipped', reason: 'stale' },
+          { rule: 'b', result: false, duration: 0, reason: 'Not a member' },
+        ])
+      ).toEqual({ allowed: false, reason: 'Not a member' });
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for explicit deny statements and combining algorithms
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  evaluatePermission,
+  evaluateStringRule,
+  createPermissionContext,
+} from '../src/core/ruleEngine';
+import { compilePermissionMatcher } from '../src/core/permissionMatcher';
+import type { PermissionRulesMap } from '../src/core/types';
+
+const denyRules: PermissionRulesMap = {
+  'post.delete': ({ user }) => user.suspended === true,
+};
+
+describe('Deny Rules', () => {
+  describe('negated grants in the matcher', () => {
+    it('should not treat negated grants as allows', () => {
+      const matcher = compilePermissionMatcher(['!post.delete']);
+
+      expect(matcher.matches('post.delete')).toBe(false);
+      expect(matcher.deniedBy('post.delete')).toBe('!post.delete');
+    });
+
+    it('should support wildcards in negated grants', () => {
+      const matcher = compilePermissionMatcher(['post.*', '!post.*']);
+
+      expect(matcher.deniedBy('post.edit')).toBe('!post.*');
+    });
+
+    it('should report the first grant in array order', () => {
+      const matcher = compilePermissionMatcher(['post.delete', '!post.*']);
+
+      expect(matcher.firstMatch('post.delete')).toEqual({
+        grant: 'post.delete',
+        effect: 'allow',
+      });
+      expect(matcher.firstMatch('post.edit')).toEqual({ grant: '!post.*', effect: 'deny' });
+      expect(matcher.firstMatch('user.edit')).toBeUndefined();
+    });
+  });
+
+  describe('deny-overrides (default)', () => {
+    it('should deny when a deny rule applies regardless of role', async () => {
+      const ctx = createPermissionContext({ suspended: true }, undefined, ['post.delete'], [], {});
+
+      const result = await evaluatePermission('post.delete', ctx, {}, 'any', { denyRules });
+
+      expect(result.allowed).toBe(false);
+      expect(result.ruleResults[0].deniedBy).toBe("denyRules['post.delete']");
+    });
+
+    it('should allow when the deny rule does not apply', async () => {
+      const ctx = createPermissionContext({ suspended: false }, undefined, ['post.delete'], [], {});
+
+      const result = await evaluatePermission('post.delete', ctx, {}, 'any', { denyRules });
+
+      expect(result.allowed).toBe(true);
+      expect(result.ruleResults[0].deniedBy).toBeUndefined();
+    });
+
+    it('should deny through a negated grant even if a custom rule allows', async () => {
+      const ctx = createPermissionContext({}, undefined, [], ['post.*', '!post.delete'], {});
+      const rules: PermissionRulesMap = { 'post.delete': () => true };
+
+      const result = await evaluatePermission('post.delete', ctx, rules);
+
+      expect(result.allowed).toBe(false);
+      expect(result.ruleResults[0].deniedBy).toBe('!post.delete');
+    });
+
+    it('should fail closed when a deny rule throws', async () => {
+      const ctx = createPermissionContext({}, undefined, [], ['post.delete'], {});
+      const throwing: PermissionRulesMap = {
+        'post.delete': () => {
+          throw new Error('lookup failed');
+        },
+      };
+
+      const result = await evaluateStringRule('post.delete', {}, ctx, { denyRules: throwing });
+
+      expect(result.result).toBe(false);
+      expect(result.error).toBe('lookup failed');
+    });
+
+    it('should apply deny statements per key in array checks', async () => {
+      const ctx = createPermissionContext({}, undefined, [], ['post.*', '!post.delete'], {});
+
+      const all = await evaluatePermission(['post.edit', 'post.delete'], ctx, {}, 'all');
+      const any = await evaluatePermission(['post.edit', 'post.delete'], ctx, {}, 'any');
+
+      expect(all.allowed).toBe(false);
+      expect(any.allowed).toBe(true);
+    });
+  });
+
+  describe('allow-overrides', () => {
+    it('should allow when any allow statement applies', async () => {
+      const ctx = createPermissionContext({ suspended: true }, undefined, [], ['post.delete'], {});
+
+      const result = await evaluateStringRule('post.delete', {}, ctx, {
+        denyRules,
+        combiningAlgorithm: 'allow-overrides',
+      });
+
+      expect(result.result).toBe(true);
+    });
+
+    it('should report the deny statement when nothing allows', async () => {
+      const ctx = createPermissionContext({}, undefined, [], ['!post.delete'], {});
+
+      const result = await evaluateStringRule('post.delete', {}, ctx, {
+        combiningAlgorithm: 'allow-overrides',
+      });
+
+      expect(result.result).toBe(false);
+      expect(result.deniedBy).toBe('!post.delete');
+    });
+  });
+
+  describe('first-applicable', () => {
+    it('should use the first matching grant in order', async () => {
+      const ctx = createPermissionContext({}, undefined, [], ['post.delete', '!post.*'], {});
+      const options = { combiningAlgorithm: 'first-applicable' as const };
+
+      const remove = await evaluateStringRule('post.delete', {}, ctx, options);
+      const edit = await evaluateStringRule('post.edit', {}, ctx, options);
+
+      expect(remove.result).toBe(true);
+      expect(edit.result).toBe(false);
+      expect(edit.deniedBy).toBe('!post.*');
+    });
+
+    it('should check the deny rule before allow statements', async () => {
+      const ctx = createPermissionContext({ suspended: true }, undefined, [], ['post.delete'], {});
+
+      const result = await evaluateStringRule('post.delete', {}, ctx, {
+        denyRules,
+        combiningAlgorithm: 'first-applicable',
+      });
+
+      expect(result.result).toBe(false);
+    });
+
+    it('should fall back to roles', async () => {
+      const ctx = createPermissionContext({}, undefined, ['admin'], [], {});
+
+      const result = await evaluateStringRule('admin', {}, ctx, {
+        combiningAlgorithm: 'first-applicable',
+      });
+
+      expect(result.result).toBe(true);
+    });
+  });
+});
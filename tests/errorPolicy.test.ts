@@ -0,0 +1,145 @@
+/**
+ * Tests for the rule error policy
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { applyErrorPolicy, collectRuleFailures } from '../src/core/errorPolicy';
+import { evaluatePermission, createPermissionContext } from '../src/core/ruleEngine';
+import type { PermissionRulesMap, RuleFailure } from '../src/core/types';
+
+function createEvaluator(rules: PermissionRulesMap, check = 'post.edit') {
+  const context = createPermissionContext({ id: 'u1' }, undefined, [], [], {});
+  return jest.fn(() => evaluatePermission(check, context, rules, 'any', { timeout: 20 }));
+}
+
+const failing: PermissionRulesMap = {
+  'post.edit': () => {
+    throw new Error('API down');
+  },
+};
+
+describe('Error Policy', () => {
+  describe('collectRuleFailures', () => {
+    it('should report the rule where a failure originated', async () => {
+      const rules: PermissionRulesMap = {
+        ...failing,
+        'post.publish': async (ctx) => (await ctx.check!('post.edit')) && true,
+      };
+      const { ruleResults } = await createEvaluator(rules, 'post.publish')();
+
+      expect(collectRuleFailures(ruleResults, 1)).toEqual([
+        { rule: 'post.edit', error: 'API down', attempt: 1 },
+      ]);
+    });
+
+    it('should include timeouts and skip aborted rules', async () => {
+      const rules: PermissionRulesMap = { 'post.edit': () => new Promise<boolean>(() => {}) };
+      const { ruleResults } = await createEvaluator(rules)();
+
+      expect(collectRuleFailures(ruleResults, 1)[0].outcome).toBe('timeout');
+      expect(
+        collectRuleFailures(
+          [{ rule: 'x', result: false, duration: 0, error: 'Evaluation aborted', outcome: 'aborted' }],
+          1
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('applyErrorPolicy', () => {
+    it('should deny by default and record the policy', async () => {
+      const decision = await applyErrorPolicy(createEvaluator(failing));
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.errorPolicy).toMatchObject({ policy: 'deny', attempts: 1 });
+      expect(decision.errorPolicy?.failures[0].error).toBe('API down');
+    });
+
+    it('should allow with the allow policy', async () => {
+      const decision = await applyErrorPolicy(createEvaluator(failing), 'allow');
+
+      expect(decision.allowed).toBe(true);
+      expect(decision.errorPolicy?.policy).toBe('allow');
+    });
+
+    it('should fall back to the last known decision', async () => {
+      const evaluate = createEvaluator(failing);
+
+      expect((await applyErrorPolicy(evaluate, 'last-known', { lastKnown: true })).allowed).toBe(
+        true
+      );
+      expect((await applyErrorPolicy(evaluate, 'last-known')).allowed).toBe(false);
+    });
+
+    it('should leave error-free evaluations untouched', async () => {
+      const decision = await applyErrorPolicy(
+        createEvaluator({ 'post.edit': () => false }),
+        'allow'
+      );
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.errorPolicy).toBeUndefined();
+    });
+
+    it('should ignore failures that did not change the outcome', async () => {
+      const rules: PermissionRulesMap = { ...failing, 'post.view': () => true };
+      const decision = await applyErrorPolicy(createEvaluator(rules, 'post.edit or post.view'));
+
+      expect(decision.allowed).toBe(true);
+      expect(decision.errorPolicy).toBeUndefined();
+    });
+
+    it('should retry with backoff until the evaluation succeeds', async () => {
+      let calls = 0;
+      const rules: PermissionRulesMap = {
+        'post.edit': () => {
+          calls++;
+          if (calls < 3) {
+            throw new Error(`Attempt ${calls} failed`);
+          }
+          return true;
+        },
+      };
+      const evaluate = createEvaluator(rules);
+
+      const decision = await applyErrorPolicy(evaluate, { retry: 3, backoff: 1 });
+
+      expect(evaluate).toHaveBeenCalledTimes(3);
+      expect(decision.allowed).toBe(true);
+      expect(decision.errorPolicy).toEqual({ policy: 'retry', attempts: 3, failures: [] });
+    });
+
+    it('should apply the retry fallback when retries run out', async () => {
+      const evaluate = createEvaluator(failing);
+
+      const decision = await applyErrorPolicy(evaluate, { retry: 2, backoff: 1, then: 'allow' });
+
+      expect(evaluate).toHaveBeenCalledTimes(3);
+      expect(decision.allowed).toBe(true);
+      expect(decision.errorPolicy).toMatchObject({ policy: 'allow', attempts: 3 });
+    });
+
+    it('should report every failure of every attempt', async () => {
+      const failures: RuleFailure[] = [];
+
+      await applyErrorPolicy(createEvaluator(failing), { retry: 1, backoff: 1 }, {
+        onRuleError: (failure) => failures.push(failure),
+      });
+
+      expect(failures.map((failure) => failure.attempt)).toEqual([1, 2]);
+    });
+
+    it('should stop retrying when aborted', async () => {
+      const controller = new AbortController();
+      const evaluate = createEvaluator(failing);
+
+      const pending = applyErrorPolicy(evaluate, { retry: 5, backoff: 1000 }, {
+        signal: controller.signal,
+      });
+      controller.abort();
+      await pending;
+
+      expect(evaluate).toHaveBeenCalledTimes(1);
+    });
+  });
+});
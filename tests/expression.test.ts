@@ -0,0 +1,172 @@
+/**
+ * Tests for permission expressions
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  parsePermissionExpression,
+  formatPermissionExpression,
+  PermissionExpressionError,
+  isPermissionExpression,
+} from '../src/core/expression';
+import { evaluatePermission, createPermissionContext } from '../src/core/ruleEngine';
+import type { PermissionRulesMap } from '../src/core/types';
+
+describe('Permission Expressions', () => {
+  describe('parsePermissionExpression', () => {
+    it('should parse a plain key as a reference', () => {
+      expect(parsePermissionExpression('post.edit')).toEqual({ type: 'ref', key: 'post.edit' });
+    });
+
+    it('should parse flag references', () => {
+      expect(parsePermissionExpression('flag:newUI')).toEqual({ type: 'flag', name: 'newUI' });
+    });
+
+    it('should respect precedence (not > and > or)', () => {
+      expect(parsePermissionExpression('a or b and not c')).toEqual({
+        type: 'or',
+        operands: [
+          { type: 'ref', key: 'a' },
+          {
+            type: 'and',
+            operands: [
+              { type: 'ref', key: 'b' },
+              { type: 'not', operand: { type: 'ref', key: 'c' } },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should honour parentheses and case-insensitive keywords', () => {
+      const expression = parsePermissionExpression('(admin OR owner) AND NOT archived');
+
+      expect(formatPermissionExpression(expression)).toBe('(admin or owner) and not archived');
+    });
+
+    it('should cache parsed expressions', () => {
+      expect(parsePermissionExpression('a and b')).toBe(parsePermissionExpression('a and b'));
+    });
+
+    it.each([
+      ['', 'Unexpected end of expression at position 0'],
+      ['(a or b', 'Expected ")" at position 7'],
+      ['a and', 'Unexpected end of expression at position 5'],
+      ['a b', 'Unexpected token at position 2'],
+      ['flag:', 'Missing flag name at position 5'],
+    ])('should reject %p', (source, message) => {
+      expect(() => parsePermissionExpression(source)).toThrow(PermissionExpressionError);
+      expect(() => parsePermissionExpression(source)).toThrow(message);
+    });
+  });
+
+  describe('evaluation', () => {
+    const rules: PermissionRulesMap = {
+      owner: ({ user, resource }) => user.id === resource?.ownerId,
+      archived: ({ resource }) => resource?.archived === true,
+    };
+
+    it('should evaluate an expression over rules and roles', async () => {
+      const ctx = createPermissionContext({ id: '1' }, { ownerId: '1', archived: false }, [], [], {});
+
+      const result = await evaluatePermission('(admin or owner) and not archived', ctx, rules);
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should deny when a negated rule passes', async () => {
+      const ctx = createPermissionContext({ id: '1' }, { ownerId: '2', archived: true }, ['admin'], [], {});
+
+      const result = await evaluatePermission('(admin or owner) and not archived', ctx, rules);
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it('should record the full tree in ruleResults', async () => {
+      const ctx = createPermissionContext({ id: '1' }, { ownerId: '2' }, ['admin'], [], {});
+
+      const result = await evaluatePermission('(admin or owner) and not archived', ctx, rules);
+      const [root] = result.ruleResults;
+
+      expect(result.ruleResults).toHaveLength(1);
+      expect(root.rule).toBe('(admin or owner) and not archived');
+      expect(root.children?.map((child) => [child.rule, child.result])).toEqual([
+        ['admin or owner', true],
+        ['not archived', true],
+      ]);
+      expect(root.children?.[0].children?.map((child) => [child.rule, child.result])).toEqual([
+        ['admin', true],
+        ['owner', false],
+      ]);
+    });
+
+    it('should read feature flags', async () => {
+      const ctx = createPermissionContext({}, undefined, [], ['post.edit'], { newEditor: true });
+
+      const on = await evaluatePermission('post.edit and flag:newEditor', ctx, {});
+      const off = await evaluatePermission('post.edit and flag:legacy', ctx, {});
+
+      expect(on.allowed).toBe(true);
+      expect(off.allowed).toBe(false);
+    });
+
+    it('should keep not over an erroring rule denied', async () => {
+      const ctx = createPermissionContext({}, undefined, [], [], {});
+      const throwing: PermissionRulesMap = {
+        blocked: () => {
+          throw new Error('unavailable');
+        },
+      };
+
+      const result = await evaluatePermission('not blocked', ctx, throwing);
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it('should report malformed expressions as errors', async () => {
+      const ctx = createPermissionContext({}, undefined, ['admin'], [], {});
+
+      const result = await evaluatePermission('admin and', ctx, {});
+
+      expect(result.allowed).toBe(false);
+      expect(result.ruleResults[0].error).toContain('Unexpected end of expression');
+    });
+
+    it('should match keys with spaces or keyword names exactly', async () => {
+      const ctx = createPermissionContext({}, undefined, ['Super Admin', 'not'], [], {});
+      const keyRules: PermissionRulesMap = { 'can edit': () => true, or: () => true };
+
+      for (const key of ['Super Admin', 'not', 'can edit', 'or']) {
+        const result = await evaluatePermission(key, ctx, keyRules);
+        expect(result.allowed).toBe(true);
+        expect(result.ruleResults[0].error).toBeUndefined();
+      }
+    });
+
+    it('should prefer a named rule over a flag reference of the same name', async () => {
+      const ctx = createPermissionContext({}, undefined, [], [], { beta: true });
+
+      const result = await evaluatePermission('flag:beta', ctx, { 'flag:beta': () => false });
+
+      expect(result.allowed).toBe(false);
+      expect(result.ruleResults[0].rule).toBe('flag:beta');
+    });
+
+    it('should detect expression syntax', () => {
+      expect(isPermissionExpression('admin or owner')).toBe(true);
+      expect(isPermissionExpression('not archived')).toBe(true);
+      expect(isPermissionExpression('(admin)')).toBe(true);
+      expect(isPermissionExpression('flag:beta')).toBe(true);
+      expect(isPermissionExpression('Super Admin')).toBe(false);
+      expect(isPermissionExpression('and')).toBe(false);
+    });
+
+    it('should evaluate expressions inside array checks', async () => {
+      const ctx = createPermissionContext({}, undefined, ['editor'], [], {});
+
+      const result = await evaluatePermission(['admin', 'editor and not flag:readOnly'], ctx, {});
+
+      expect(result.allowed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for the FeatureGate component
+ */
+
+import React from 'react';
+import { describe, it, expect } from '@jest/globals';
+import { render } from './support/render';
+import { PermissionsProvider } from '../src/react/PermissionsProvider';
+import { FeatureGate } from '../src/react/FeatureGate';
+import type { FlagsConfig } from '../src/core/types';
+
+const flags: FlagsConfig = {
+  newEditor: true,
+  legacyExport: false,
+  theme: 'dark',
+  checkout: {
+    variants: { a: 'classic', b: 'one-page', c: 'express' },
+    defaultVariant: 'a',
+    targeting: [{ roles: ['staff'], variant: 'b' }],
+  },
+};
+
+async function text(gate: React.ReactNode, roles: string[] = []) {
+  const { container } = await render(
+    <PermissionsProvider user={{ id: 'u1' }} roles={roles} flags={flags} enableDevTools={false}>
+      {gate}
+    </PermissionsProvider>
+  );
+  return container.textContent;
+}
+
+describe('FeatureGate', () => {
+  it('should render children when the flag is on', async () => {
+    await expect(text(<FeatureGate flag="newEditor">new</FeatureGate>)).resolves.toBe('new');
+    await expect(
+      text(
+        <FeatureGate flag="legacyExport" fallback="off">
+          on
+        </FeatureGate>
+      )
+    ).resolves.toBe('off');
+  });
+
+  it('should render the fallback for unknown flags', async () => {
+    await expect(
+      text(
+        <FeatureGate flag="missing" fallback="fallback">
+          children
+        </FeatureGate>
+      )
+    ).resolves.toBe('fallback');
+  });
+
+  it('should match the variant served to the user', async () => {
+    const gate = (
+      <FeatureGate flag="checkout" variant="b" fallback="classic">
+        one-page
+      </FeatureGate>
+    );
+
+    await expect(text(gate)).resolves.toBe('classic');
+    await expect(text(gate, ['staff'])).resolves.toBe('one-page');
+  });
+
+  it('should match any of several variants', async () => {
+    const gate = (
+      <FeatureGate flag="checkout" variant={['b', 'c']} fallback="classic">
+        new checkout
+      </FeatureGate>
+    );
+
+    await expect(text(gate)).resolves.toBe('classic');
+    await expect(text(gate, ['staff'])).resolves.toBe('new checkout');
+  });
+
+  it('should match static values as variants', async () => {
+    await expect(
+      text(
+        <FeatureGate flag="theme" variant="dark">
+          dark
+        </FeatureGate>
+      )
+    ).resolves.toBe('dark');
+    await expect(
+      text(
+        <FeatureGate flag="legacyExport" variant="false">
+          served false
+        </FeatureGate>
+      )
+    ).resolves.toBe('served false');
+  });
+});
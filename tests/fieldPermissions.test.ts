@@ -0,0 +1,135 @@
+/**
+ * Tests for field-level permissions
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { evaluatePermittedFields, pickPermitted } from '../src/core/fieldPermissions';
+import { createPermissionContext } from '../src/core/ruleEngine';
+import type { FieldRulesMap, PermissionRulesMap } from '../src/core/types';
+
+const employee = {
+  __typename: 'Employee',
+  id: 'e1',
+  name: 'Ada',
+  salary: 100,
+  managerId: 'm1',
+};
+
+const rules: PermissionRulesMap = {
+  'employee.read': () => true,
+  'employee.update': ({ roles }) => roles.includes('hr'),
+  hr: ({ roles }) => roles.includes('hr'),
+};
+
+const fieldRules: FieldRulesMap = {
+  'employee.read': {
+    salary: 'hr or manager',
+    managerId: false,
+  },
+  'employee.update': {
+    notes: true,
+    salary: ({ user, resource }) => user.id !== resource.id,
+  },
+};
+
+describe('Field-Level Permissions', () => {
+  describe('evaluatePermittedFields', () => {
+    it('should permit fields without rules and apply field rules', async () => {
+      const context = createPermissionContext({ id: 'u1' }, undefined, ['staff'], [], {});
+      const result = await evaluatePermittedFields(
+        { action: 'read', subject: employee },
+        context,
+        rules,
+        { fieldRules }
+      );
+
+      expect(result.allowed).toBe(true);
+      expect(result.fields).toEqual(['__typename', 'id', 'name']);
+    });
+
+    it('should evaluate string field rules as expressions', async () => {
+      const context = createPermissionContext({ id: 'u1' }, undefined, ['manager'], [], {});
+      const result = await evaluatePermittedFields(
+        { action: 'read', subject: employee },
+        context,
+        rules,
+        { fieldRules }
+      );
+
+      expect(result.fields).toContain('salary');
+      const salary = result.ruleResults.find((r) => r.rule === 'employee.read:salary');
+      expect(salary?.result).toBe(true);
+      expect(salary?.children?.[0].rule).toBe('hr or manager');
+    });
+
+    it('should evaluate function field rules against the resource', async () => {
+      const self = createPermissionContext({ id: 'e1' }, undefined, ['hr'], [], {});
+      const other = createPermissionContext({ id: 'h1' }, undefined, ['hr'], [], {});
+
+      const selfResult = await evaluatePermittedFields(
+        { action: 'update', subject: employee },
+        self,
+        rules,
+        { fieldRules }
+      );
+      const otherResult = await evaluatePermittedFields(
+        { action: 'update', subject: employee },
+        other,
+        rules,
+        { fieldRules }
+      );
+
+      expect(selfResult.fields).not.toContain('salary');
+      expect(otherResult.fields).toContain('salary');
+    });
+
+    it('should include fields declared only in field rules', async () => {
+      const context = createPermissionContext({ id: 'h1' }, undefined, ['hr'], [], {});
+      const result = await evaluatePermittedFields(
+        { action: 'update', subject: employee },
+        context,
+        rules,
+        { fieldRules }
+      );
+
+      expect(result.fields[result.fields.length - 1]).toBe('notes');
+    });
+
+    it('should permit no fields when the ability is denied', async () => {
+      const context = createPermissionContext({ id: 'u1' }, undefined, ['staff'], [], {});
+      const result = await evaluatePermittedFields(
+        { action: 'update', subject: employee },
+        context,
+        rules,
+        { fieldRules }
+      );
+
+      expect(result.allowed).toBe(false);
+      expect(result.fields).toEqual([]);
+      expect(result.ruleResults).toHaveLength(1);
+    });
+
+    it('should accept a subject type with a separate resource', async () => {
+      const plain = { name: 'Ada', salary: 100 };
+      const context = createPermissionContext({ id: 'u1' }, plain, ['staff'], [], {});
+      const result = await evaluatePermittedFields(
+        { action: 'read', subject: 'Employee' },
+        context,
+        rules,
+        { fieldRules }
+      );
+
+      expect(result.fields).toEqual(['name']);
+    });
+  });
+
+  describe('pickPermitted', () => {
+    it('should keep only permitted fields', () => {
+      expect(pickPermitted(employee, ['name', 'salary'])).toEqual({ name: 'Ada', salary: 100 });
+    });
+
+    it('should ignore fields missing from the resource', () => {
+      expect(pickPermitted({ name: 'Ada' }, ['name', 'notes'])).toEqual({ name: 'Ada' });
+    });
+  });
+});
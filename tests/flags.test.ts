@@ -0,0 +1,169 @@
+/**
+ * Tests for feature flag variants, targeting and rollouts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { evaluatePermission, createPermissionContext } from '../src/core/ruleEngine';
+import { flagBucket, flagMatches, resolveFlag, resolveFlags } from '../src/core/flags';
+import { parsePermissionExpression, PermissionExpressionError } from '../src/core/expression';
+import type { FlagsConfig } from '../src/core/types';
+
+const contextFor = (user: any, roles: string[] = []) =>
+  createPermissionContext(user, undefined, roles, [], {});
+
+const flags: FlagsConfig = {
+  darkMode: true,
+  theme: 'ocean',
+  pageSize: 50,
+  checkout: {
+    variants: { a: 'classic', b: 'one-page' },
+    defaultVariant: 'a',
+    targeting: [
+      { roles: ['staff'], variant: 'b' },
+      { attributes: { 'user.country': ['NL', 'BE'] }, variant: 'b' },
+    ],
+  },
+  newEditor: {
+    targeting: [{ match: ({ user }) => user.beta === true }],
+  },
+  search: {
+    rollout: 25,
+  },
+};
+
+describe('Feature Flags', () => {
+  it('should serve static values', () => {
+    const { values, evaluations } = resolveFlags(flags, contextFor({ id: 'u1' }));
+
+    expect(values).toMatchObject({ darkMode: true, theme: 'ocean', pageSize: 50 });
+    expect(evaluations.theme).toEqual({ value: 'ocean', enabled: true, reason: 'static' });
+  });
+
+  it('should serve the default variant when nothing targets the user', () => {
+    expect(resolveFlag('checkout', flags.checkout, contextFor({ id: 'u1' }))).toEqual({
+      value: 'classic',
+      variant: 'a',
+      enabled: true,
+      reason: 'default',
+    });
+    expect(resolveFlag('newEditor', flags.newEditor, contextFor({ id: 'u1' }))).toMatchObject({
+      value: false,
+      variant: 'off',
+      enabled: false,
+    });
+  });
+
+  it('should target by role, attribute and custom condition', () => {
+    const staff = resolveFlag('checkout', flags.checkout, contextFor({ id: 'u1' }, ['staff']));
+    const dutch = resolveFlag('checkout', flags.checkout, contextFor({ id: 'u2', country: 'NL' }));
+    const beta = resolveFlag('newEditor', flags.newEditor, contextFor({ id: 'u3', beta: true }));
+
+    expect(staff).toMatchObject({ value: 'one-page', variant: 'b', reason: 'targeting' });
+    expect(dutch).toMatchObject({ variant: 'b', reason: 'targeting' });
+    expect(beta).toMatchObject({ value: true, variant: 'on', reason: 'targeting' });
+  });
+
+  it('should report unknown flags', () => {
+    expect(resolveFlag('missing', undefined, contextFor({ id: 'u1' }))).toEqual({
+      value: undefined,
+      enabled: false,
+      reason: 'unknown',
+    });
+  });
+
+  describe('Rollouts', () => {
+    const users = Array.from({ length: 2000 }, (_, index) => ({ id: `user-${index}` }));
+
+    it('should bucket deterministically', () => {
+      expect(flagBucket('search', 'user-1')).toBe(flagBucket('search', 'user-1'));
+      expect(flagBucket('search', 'user-1')).toBeGreaterThanOrEqual(0);
+      expect(flagBucket('search', 'user-1')).toBeLessThan(100);
+    });
+
+    it('should enable a boolean rollout for roughly its percentage', () => {
+      const enabled = users.filter(
+        (user) => resolveFlag('search', flags.search, contextFor(user)).enabled
+      ).length;
+
+      expect(enabled / users.length).toBeGreaterThan(0.2);
+      expect(enabled / users.length).toBeLessThan(0.3);
+    });
+
+    it('should split multivariate rollouts', () => {
+      const config = {
+        variants: { control: 10, small: 20, large: 50 },
+        defaultVariant: 'control',
+        rollout: { percentages: { small: 30, large: 30 }, bucketBy: 'user.accountId' },
+      };
+      const counts: Record<string, number> = {};
+
+      for (const user of users) {
+        const { variant } = resolveFlag('pageSize', config, contextFor({ accountId: user.id }));
+        counts[variant!] = (counts[variant!] ?? 0) + 1;
+      }
+
+      for (const variant of ['control', 'small', 'large']) {
+        expect(counts[variant] / users.length).toBeGreaterThan(variant === 'control' ? 0.35 : 0.25);
+      }
+    });
+
+    it('should serve the default variant without a bucketing value', () => {
+      expect(resolveFlag('search', flags.search, contextFor({}))).toMatchObject({
+        variant: 'off',
+        reason: 'default',
+      });
+    });
+
+    it('should apply rollouts inside targeting rules', () => {
+      const config = { targeting: [{ roles: ['staff'], rollout: 100 }] };
+
+      expect(resolveFlag('x', config, contextFor({ id: 'u1' }, ['staff']))).toMatchObject({
+        enabled: true,
+        reason: 'rollout',
+      });
+      expect(resolveFlag('x', config, contextFor({ id: 'u1' }))).toMatchObject({
+        enabled: false,
+        reason: 'default',
+      });
+    });
+  });
+
+  describe('Expressions', () => {
+    const user = { id: 'u1' };
+    const { values, variants } = resolveFlags(flags, contextFor(user, ['staff']));
+    const context = createPermissionContext(
+      user,
+      undefined,
+      ['staff'],
+      [],
+      values,
+      undefined,
+      variants
+    );
+
+    it('should parse flag variants', () => {
+      expect(parsePermissionExpression('flag:checkout=b')).toEqual({
+        type: 'flag',
+        name: 'checkout',
+        variant: 'b',
+      });
+      expect(() => parsePermissionExpression('flag:checkout=')).toThrow(PermissionExpressionError);
+    });
+
+    it('should match served variants and static values', () => {
+      expect(flagMatches(context, 'checkout', 'b')).toBe(true);
+      expect(flagMatches(context, 'checkout', 'a')).toBe(false);
+      expect(flagMatches(context, 'theme', 'ocean')).toBe(true);
+      expect(flagMatches(context, 'pageSize', '50')).toBe(true);
+      expect(flagMatches(context, 'newEditor')).toBe(false);
+    });
+
+    it('should evaluate variant checks in permission expressions', async () => {
+      const result = await evaluatePermission('staff and flag:checkout=b', context, {});
+      const denied = await evaluatePermission('flag:checkout=a or flag:newEditor', context, {});
+
+      expect(result.allowed).toBe(true);
+      expect(denied.allowed).toBe(false);
+    });
+  });
+});
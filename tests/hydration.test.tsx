@@ -0,0 +1,126 @@
+/**
+ * Tests for hydrating server-rendered pages from decision snapshots
+ */
+
+import React from 'react';
+import { describe, it, expect, jest } from '@jest/globals';
+import { act } from 'react';
+// The node build: jsdom would resolve the browser one, which needs MessageChannel
+import { renderToString } from 'react-dom/server.node';
+import { hydrateRoot } from 'react-dom/client';
+import { render, flush } from './support/render';
+import { PermissionsProvider, usePermissionsContext } from '../src/react/PermissionsProvider';
+import { usePermission } from '../src/react/usePermission';
+import { createDecisionSnapshot, serializeDecisionSnapshot } from '../src/core/snapshot';
+import type { PermissionsConfig } from '../src/core/types';
+
+const post = { id: 'p1', authorId: 'u1' };
+
+const config: PermissionsConfig = {
+  user: { id: 'u1' },
+  roles: ['editor'],
+  rules: {
+    isAuthor: async ({ user, resource }) => resource?.authorId === user.id,
+    isReviewer: async ({ resource }) => resource?.id === 'p2',
+  },
+  cache: { resourceKey: (resource: any) => resource?.id },
+  enableDevTools: false,
+};
+
+const states: string[] = [];
+
+function Toolbar() {
+  const edit = usePermission('isAuthor', post);
+  const review = usePermission('isReviewer', post);
+  const state = [edit, review]
+    .map(({ allowed, loading }) => (loading ? 'loading' : String(allowed)))
+    .join(' ');
+
+  states.push(state);
+  return <p>{state}</p>;
+}
+
+describe('Hydration', () => {
+  it('should hydrate seeded decisions without a loading state or mismatch', async () => {
+    const snapshot = await createDecisionSnapshot(config, [
+      { check: 'isAuthor', resource: post },
+      { check: 'isReviewer', resource: post },
+    ]);
+
+    const html = renderToString(
+      <PermissionsProvider {...config} initialDecisions={snapshot}>
+        <Toolbar />
+      </PermissionsProvider>
+    );
+    expect(html).toBe('<p>true false</p>');
+
+    // The client reads the snapshot back from the inline script
+    const seeded = JSON.parse(serializeDecisionSnapshot(snapshot));
+    const container = document.createElement('div');
+    container.innerHTML = html;
+    const hydrated = container.firstChild;
+
+    const onRecoverableError = jest.fn();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    states.length = 0;
+
+    await act(async () => {
+      hydrateRoot(
+        container,
+        <PermissionsProvider {...config} initialDecisions={seeded}>
+          <Toolbar />
+        </PermissionsProvider>,
+        { onRecoverableError }
+      );
+    });
+
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+
+    expect(states.some((state) => state.includes('loading'))).toBe(false);
+    expect(states[0]).toBe('true false');
+    expect(container.innerHTML).toBe(html);
+    // The server markup was adopted rather than replaced
+    expect(container.firstChild).toBe(hydrated);
+  });
+
+  it('should drop seeded decisions for an invalidated rule', async () => {
+    const snapshot = await createDecisionSnapshot(config, [
+      { check: 'isAuthor', resource: post },
+      { check: 'isReviewer', resource: post },
+    ]);
+    // The server saw the opposite of what the rules now decide
+    const stale = {
+      decisions: Object.fromEntries(
+        Object.entries(snapshot.decisions).map(([key, decision]) => [
+          key,
+          { ...decision, allowed: !decision.allowed },
+        ])
+      ),
+    };
+
+    let invalidate: (key?: string) => void = () => {};
+    function Invalidator() {
+      invalidate = usePermissionsContext().invalidate;
+      return null;
+    }
+
+    const page = (children: React.ReactNode) => (
+      <PermissionsProvider {...config} initialDecisions={stale}>
+        <Invalidator />
+        {children}
+      </PermissionsProvider>
+    );
+
+    const { rerender } = await render(page(null));
+    await act(async () => invalidate('isReviewer'));
+
+    // Checks mounted afterwards re-evaluate isReviewer but keep isAuthor's seed
+    states.length = 0;
+    await rerender(page(<Toolbar />));
+    await flush();
+
+    expect(states[states.length - 1]).toBe('false false');
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Tests for live permission updates
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  applyPermissionDiff,
+  revokedAccess,
+  WebSocketPermissionChannel,
+  EventSourcePermissionChannel,
+  BroadcastPermissionChannel,
+  InMemoryPermissionChannel,
+} from '../src/core/liveUpdates';
+import type { PermissionDiff } from '../src/core/types';
+
+const data = {
+  roles: ['editor', 'viewer'],
+  permissions: ['post.view'],
+  flags: { beta: true, theme: 'dark' },
+};
+
+/**
+ * Socket stand-in driven by the test
+ */
+class FakeSocket extends EventTarget {
+  closed = false;
+
+  receive(data: unknown): void {
+    this.dispatchEvent(new MessageEvent('message', { data }));
+  }
+
+  close(): void {
+    this.closed = true;
+    this.dispatchEvent(new Event('close'));
+  }
+}
+
+describe('Live Updates', () => {
+  describe('applyPermissionDiff', () => {
+    it('should add and remove roles and permissions', () => {
+      const next = applyPermissionDiff(data, {
+        roles: { remove: ['editor'], add: ['viewer', 'commenter'] },
+        permissions: { add: ['post.comment'] },
+      });
+
+      expect(next.roles).toEqual(['viewer', 'commenter']);
+      expect(next.permissions).toEqual(['post.view', 'post.comment']);
+    });
+
+    it('should replace lists and update flags', () => {
+      const next = applyPermissionDiff(data, {
+        roles: ['admin'],
+        flags: { set: { beta: false, checkout: { rollout: 50 } }, remove: ['theme'] },
+      });
+
+      expect(next.roles).toEqual(['admin']);
+      expect(next.flags).toEqual({ beta: false, checkout: { rollout: 50 } });
+      expect(data.flags).toEqual({ beta: true, theme: 'dark' });
+    });
+
+    it('should keep untouched parts', () => {
+      const next = applyPermissionDiff(data, { permissions: ['post.view', 'post.edit'] });
+
+      expect(next.roles).toBe(data.roles);
+      expect(next.flags).toBe(data.flags);
+    });
+  });
+
+  it('should report revoked roles and permissions', () => {
+    expect(revokedAccess(data, { roles: ['viewer'], permissions: [] })).toEqual({
+      roles: ['editor'],
+      permissions: ['post.view'],
+    });
+    expect(revokedAccess(data, { ...data, roles: [...data.roles, 'admin'] })).toBeUndefined();
+  });
+
+  it('should deliver in-memory diffs to subscribers', () => {
+    const channel = new InMemoryPermissionChannel();
+    const listener = jest.fn();
+    const unsubscribe = channel.subscribe(listener);
+
+    channel.publish({ roles: { remove: ['editor'] } });
+    unsubscribe();
+    channel.publish({ roles: [] });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ roles: { remove: ['editor'] } });
+  });
+
+  describe('WebSocketPermissionChannel', () => {
+    it('should share one socket and parse JSON messages', () => {
+      const sockets: FakeSocket[] = [];
+      const onError = jest.fn();
+      const channel = new WebSocketPermissionChannel({
+        url: 'wss://example.com/permissions',
+        reconnectDelay: 0,
+        onError,
+        createSocket: () => {
+          const socket = new FakeSocket();
+          sockets.push(socket);
+          return socket as unknown as WebSocket;
+        },
+      });
+      const first = jest.fn();
+      const second = jest.fn();
+
+      const unsubscribeFirst = channel.subscribe(first);
+      const unsubscribeSecond = channel.subscribe(second);
+      sockets[0].receive(JSON.stringify({ roles: { remove: ['editor'] } }));
+      sockets[0].receive('not json');
+
+      expect(sockets).toHaveLength(1);
+      expect(first).toHaveBeenCalledWith({ roles: { remove: ['editor'] } });
+      expect(second).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledTimes(1);
+
+      unsubscribeFirst();
+      expect(sockets[0].closed).toBe(false);
+      unsubscribeSecond();
+      expect(sockets[0].closed).toBe(true);
+    });
+
+    it('should reconnect dropped sockets', () => {
+      jest.useFakeTimers();
+
+      try {
+        const sockets: FakeSocket[] = [];
+        const channel = new WebSocketPermissionChannel({
+          url: 'wss://example.com/permissions',
+          createSocket: () => {
+            const socket = new FakeSocket();
+            sockets.push(socket);
+            return socket as unknown as WebSocket;
+          },
+        });
+        const listener = jest.fn();
+        const unsubscribe = channel.subscribe(listener);
+
+        sockets[0].close();
+        jest.advanceTimersByTime(1000);
+        sockets[1].receive(JSON.stringify({ permissions: [] }));
+
+        expect(listener).toHaveBeenCalledWith({ permissions: [] });
+
+        unsubscribe();
+        jest.advanceTimersByTime(1000);
+        expect(sockets).toHaveLength(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  it('should receive server-sent events of the configured type', () => {
+    const source = new FakeSocket();
+    const createEventSource = jest.fn(() => source as unknown as EventSource);
+    const channel = new EventSourcePermissionChannel({
+      url: '/permissions/stream',
+      event: 'permissions',
+      withCredentials: true,
+      createEventSource,
+    });
+    const listener = jest.fn();
+    const unsubscribe = channel.subscribe(listener);
+
+    source.dispatchEvent(new MessageEvent('permissions', { data: '{"roles":["viewer"]}' }));
+    source.receive('{"roles":[]}');
+    unsubscribe();
+
+    expect(createEventSource).toHaveBeenCalledWith('/permissions/stream', {
+      withCredentials: true,
+    });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ roles: ['viewer'] });
+    expect(source.closed).toBe(true);
+  });
+
+  it('should receive diffs published by other tabs', async () => {
+    const receiving = new BroadcastPermissionChannel('acl-test');
+    const received = new Promise<PermissionDiff>((resolve) => {
+      const unsubscribe = receiving.subscribe((diff) => {
+        unsubscribe();
+        resolve(diff);
+      });
+    });
+
+    new BroadcastPermissionChannel('acl-test').publish({ roles: { remove: ['admin'] } });
+
+    await expect(received).resolves.toEqual({ roles: { remove: ['admin'] } });
+  });
+});
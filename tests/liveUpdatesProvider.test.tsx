@@ -0,0 +1,50 @@
+/**
+ * Tests for live permission updates inside the PermissionsProvider
+ */
+
+import React from 'react';
+import { describe, it, expect, jest } from '@jest/globals';
+import { act } from 'react';
+import { render, HookProbe } from './support/render';
+import { PermissionsProvider } from '../src/react/PermissionsProvider';
+import { usePermission } from '../src/react/usePermission';
+import { InMemoryPermissionChannel } from '../src/core/liveUpdates';
+
+function useAdmin() {
+  return usePermission('admin').allowed;
+}
+
+describe('Live updates in the provider', () => {
+  it('should keep revocations across re-renders with inline props', async () => {
+    const channel = new InMemoryPermissionChannel();
+    const onRevoked = jest.fn();
+    const values: boolean[] = [];
+
+    const app = (roles: string[]) => (
+      <PermissionsProvider
+        user={{}}
+        roles={roles}
+        liveUpdates={channel}
+        onRevoked={onRevoked}
+        enableDevTools={false}
+      >
+        <HookProbe use={useAdmin} values={values} />
+      </PermissionsProvider>
+    );
+
+    const { rerender } = await render(app(['admin']));
+    expect(values[values.length - 1]).toBe(true);
+
+    await act(async () => channel.publish({ roles: { remove: ['admin'] } }));
+    expect(values[values.length - 1]).toBe(false);
+    expect(onRevoked).toHaveBeenCalledWith(expect.objectContaining({ roles: ['admin'] }));
+
+    // A parent re-render passes an equal but new roles array
+    await rerender(app(['admin']));
+    expect(values[values.length - 1]).toBe(false);
+
+    // New props replace the live data
+    await rerender(app(['admin', 'editor']));
+    expect(values[values.length - 1]).toBe(true);
+  });
+});
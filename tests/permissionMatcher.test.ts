@@ -0,0 +1,111 @@
+/**
+ * Tests for wildcard permission matching
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  compilePermissionMatcher,
+  matchPermission,
+  getPermissionMatcher,
+} from '../src/core/permissionMatcher';
+import { evaluatePermission, createPermissionContext } from '../src/core/ruleEngine';
+
+describe('Permission Matcher', () => {
+  describe('compilePermissionMatcher', () => {
+    it('should match exact grants', () => {
+      const matcher = compilePermissionMatcher(['post.edit']);
+
+      expect(matcher.matches('post.edit')).toBe(true);
+      expect(matcher.matches('post.delete')).toBe(false);
+    });
+
+    it('should match a single segment with *', () => {
+      const matcher = compilePermissionMatcher(['post.*']);
+
+      expect(matcher.matches('post.edit')).toBe(true);
+      expect(matcher.matches('post')).toBe(false);
+      expect(matcher.matches('post.comment.edit')).toBe(false);
+      expect(matcher.matches('user.edit')).toBe(false);
+    });
+
+    it('should match * in the middle of a pattern', () => {
+      const matcher = compilePermissionMatcher(['billing:*:read']);
+
+      expect(matcher.matches('billing:invoice:read')).toBe(true);
+      expect(matcher.matches('billing:invoice:write')).toBe(false);
+      expect(matcher.matches('billing:read')).toBe(false);
+    });
+
+    it('should match any depth with **', () => {
+      const matcher = compilePermissionMatcher(['billing.**']);
+
+      expect(matcher.matches('billing')).toBe(true);
+      expect(matcher.matches('billing.invoice')).toBe(true);
+      expect(matcher.matches('billing.invoice.line.read')).toBe(true);
+      expect(matcher.matches('reports.billing')).toBe(false);
+    });
+
+    it('should match ** followed by more segments', () => {
+      const matcher = compilePermissionMatcher(['**.read']);
+
+      expect(matcher.matches('read')).toBe(true);
+      expect(matcher.matches('post.read')).toBe(true);
+      expect(matcher.matches('org.team.post.read')).toBe(true);
+      expect(matcher.matches('post.write')).toBe(false);
+    });
+
+    it('should respect a custom separator', () => {
+      const matcher = compilePermissionMatcher(['post/*'], { separator: '/' });
+
+      expect(matcher.matches('post/edit')).toBe(true);
+      expect(matcher.matches('post.edit')).toBe(false);
+    });
+
+    it('should not treat * inside a segment as a wildcard', () => {
+      const matcher = compilePermissionMatcher(['post.ed*']);
+
+      expect(matcher.matches('post.edit')).toBe(false);
+      expect(matcher.matches('post.ed*')).toBe(true);
+    });
+  });
+
+  describe('matchPermission', () => {
+    it('should match a single pattern', () => {
+      expect(matchPermission('post.*', 'post.view')).toBe(true);
+      expect(matchPermission('post.*', 'user.view')).toBe(false);
+    });
+  });
+
+  describe('getPermissionMatcher', () => {
+    it('should reuse the compiled matcher for the same array', () => {
+      const granted = ['post.*'];
+
+      expect(getPermissionMatcher(granted)).toBe(getPermissionMatcher(granted));
+      expect(getPermissionMatcher(granted, { separator: ':' })).not.toBe(
+        getPermissionMatcher(granted)
+      );
+    });
+  });
+
+  describe('with the rule engine', () => {
+    it('should grant string checks through wildcard permissions', async () => {
+      const ctx = createPermissionContext({}, undefined, [], ['post.*'], {});
+
+      const allowed = await evaluatePermission('post.delete', ctx, {});
+      const denied = await evaluatePermission('user.delete', ctx, {});
+
+      expect(allowed.allowed).toBe(true);
+      expect(denied.allowed).toBe(false);
+    });
+
+    it('should pass the configured separator through', async () => {
+      const ctx = createPermissionContext({}, undefined, [], ['post/*'], {});
+
+      const result = await evaluatePermission('post/edit', ctx, {}, 'any', {
+        permissionSeparator: '/',
+      });
+
+      expect(result.allowed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for the Permissioned render-prop component
+ */
+
+import React from 'react';
+import { describe, it, expect, jest } from '@jest/globals';
+import { render, flush } from './support/render';
+import { PermissionsProvider } from '../src/react/PermissionsProvider';
+import { Permissioned } from '../src/react/Permissioned';
+import type { PermissionDecision, PermissionRulesMap } from '../src/core/types';
+
+const rules: PermissionRulesMap = {
+  'invoice.refund': ({ resource }) =>
+    resource?.days <= 30 || {
+      allowed: false,
+      reason: 'Refund window closed',
+      code: 'REFUND_EXPIRED',
+      meta: { days: resource?.days },
+    },
+  'invoice.export': async () => true,
+};
+
+type RenderProp = (allowed: boolean, loading: boolean, decision: PermissionDecision) => null;
+
+function app(allow: string, resource: unknown, children: RenderProp) {
+  return (
+    <PermissionsProvider user={{}} rules={rules} enableDevTools={false}>
+      <Permissioned allow={allow} resource={resource}>
+        {children}
+      </Permissioned>
+    </PermissionsProvider>
+  );
+}
+
+describe('Permissioned', () => {
+  it('should pass the decision as the third argument', async () => {
+    const children = jest.fn<RenderProp>(() => null);
+
+    await render(app('invoice.refund', { days: 45 }, children));
+
+    expect(children).toHaveBeenCalledWith(false, false, {
+      allowed: false,
+      reason: 'Refund window closed',
+      code: 'REFUND_EXPIRED',
+      meta: { days: 45 },
+    });
+    expect(children).not.toHaveBeenCalledWith(false, true, expect.anything());
+  });
+
+  it('should pass allowed decisions and the loading state', async () => {
+    const children = jest.fn<RenderProp>(() => null);
+
+    await render(app('invoice.export', undefined, children));
+    await flush();
+
+    expect(children.mock.calls[0]).toEqual([false, true, { allowed: false }]);
+    expect(children.mock.calls[children.mock.calls.length - 1]).toEqual([
+      true,
+      false,
+      { allowed: true },
+    ]);
+  });
+});
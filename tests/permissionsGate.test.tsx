@@ -0,0 +1,97 @@
+/**
+ * Tests for the PermissionsGate component
+ */
+
+import React from 'react';
+import { describe, it, expect } from '@jest/globals';
+import { render, flush, FirstCommit } from './support/render';
+import { PermissionsProvider } from '../src/react/PermissionsProvider';
+import { PermissionsGate } from '../src/react/PermissionsGate';
+import type { PermissionRulesMap } from '../src/core/types';
+
+const rules: PermissionRulesMap = {
+  'post.edit': ({ user, resource }) => resource?.authorId === user.id,
+  'post.review': async ({ resource }) => resource?.id === 'p1',
+  'post.publish': () => ({ allowed: false, reason: 'Needs a review', code: 'UNREVIEWED' }),
+};
+
+const post = { id: 'p1', authorId: 'u1' };
+const other = { id: 'p2', authorId: 'u2' };
+
+function app(children: React.ReactNode) {
+  return (
+    <PermissionsProvider user={{ id: 'u1' }} rules={rules} enableDevTools={false}>
+      {children}
+    </PermissionsProvider>
+  );
+}
+
+describe('PermissionsGate', () => {
+  it('should show children of synchronous checks on the first commit', async () => {
+    const html: string[] = [];
+
+    const { container } = await render(
+      app(
+        <FirstCommit html={html}>
+          <PermissionsGate allow="post.edit" resource={post} fallback={<em>denied</em>}>
+            <button>Edit</button>
+          </PermissionsGate>
+        </FirstCommit>
+      )
+    );
+
+    expect(html).toEqual(['<button>Edit</button>']);
+    expect(container.innerHTML).toBe('<div><button>Edit</button></div>');
+  });
+
+  it('should show the fallback of synchronous denials on the first commit', async () => {
+    const html: string[] = [];
+
+    await render(
+      app(
+        <FirstCommit html={html}>
+          <PermissionsGate allow="post.edit" resource={other} fallback={<em>denied</em>}>
+            <button>Edit</button>
+          </PermissionsGate>
+        </FirstCommit>
+      )
+    );
+
+    expect(html).toEqual(['<em>denied</em>']);
+  });
+
+  it('should hide children until async checks resolve', async () => {
+    const html: string[] = [];
+
+    const { container } = await render(
+      app(
+        <FirstCommit html={html}>
+          <PermissionsGate allow="post.review" resource={post}>
+            <button>Review</button>
+          </PermissionsGate>
+        </FirstCommit>
+      )
+    );
+    await flush();
+
+    expect(html).toEqual(['']);
+    expect(container.textContent).toBe('Review');
+  });
+
+  it('should pass the decision to function fallbacks', async () => {
+    const { container } = await render(
+      app(
+        <PermissionsGate
+          allow="post.publish"
+          fallback={({ allowed, reason, code }) => (
+            <em>{`${allowed} ${reason} ${code}`}</em>
+          )}
+        >
+          <button>Publish</button>
+        </PermissionsGate>
+      )
+    );
+
+    expect(container.innerHTML).toBe('<em>false Needs a review UNREVIEWED</em>');
+  });
+});
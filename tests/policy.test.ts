@@ -0,0 +1,171 @@
+/**
+ * Tests for declarative JSON policies
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  compilePolicy,
+  validatePolicy,
+  PolicyValidationError,
+} from '../src/core/policy';
+import type { PolicyDocument } from '../src/core/policy';
+import { evaluatePermission, createPermissionContext } from '../src/core/ruleEngine';
+
+const policy: PolicyDocument = {
+  version: 1,
+  rules: {
+    'post.edit': {
+      any: [
+        { role: 'admin' },
+        {
+          all: [
+            { path: 'resource.ownerId', op: 'eq', ref: 'user.id' },
+            { path: 'resource.status', op: 'in', value: ['draft', 'review'] },
+          ],
+        },
+      ],
+    },
+    'post.publish': { all: [{ rule: 'post.edit' }, { flag: 'publishing' }] },
+    'post.feature': {
+      all: [
+        { path: 'resource.score', op: 'gte', value: 10 },
+        { path: 'resource.tags', op: 'contains', value: 'featured' },
+        { not: { path: 'resource.lockedAt', op: 'exists' } },
+      ],
+    },
+    'billing.read': { permission: 'billing:*:read' },
+    'post.remove': { permission: 'post.delete' },
+  },
+};
+
+describe('Declarative Policies', () => {
+  describe('compilePolicy', () => {
+    const rules = compilePolicy(policy);
+
+    it('should compare paths against other paths and literals', async () => {
+      const owner = createPermissionContext(
+        { id: 'u1' },
+        { ownerId: 'u1', status: 'draft' },
+        [],
+        [],
+        {}
+      );
+      const published = createPermissionContext(
+        { id: 'u1' },
+        { ownerId: 'u1', status: 'published' },
+        [],
+        [],
+        {}
+      );
+
+      expect((await evaluatePermission('post.edit', owner, rules)).allowed).toBe(true);
+      expect((await evaluatePermission('post.edit', published, rules)).allowed).toBe(false);
+    });
+
+    it('should resolve roles, flags and rule references', async () => {
+      const on = createPermissionContext({ id: 'u2' }, {}, ['admin'], [], { publishing: true });
+      const off = createPermissionContext({ id: 'u2' }, {}, ['admin'], [], {});
+
+      expect((await evaluatePermission('post.publish', on, rules)).allowed).toBe(true);
+      expect((await evaluatePermission('post.publish', off, rules)).allowed).toBe(false);
+    });
+
+    it('should support numeric, contains and exists operators', async () => {
+      const ctx = createPermissionContext({}, { score: 12, tags: ['featured'] }, [], [], {});
+      const locked = createPermissionContext(
+        {},
+        { score: 12, tags: ['featured'], lockedAt: 1 },
+        [],
+        [],
+        {}
+      );
+
+      expect((await evaluatePermission('post.feature', ctx, rules)).allowed).toBe(true);
+      expect((await evaluatePermission('post.feature', locked, rules)).allowed).toBe(false);
+    });
+
+    it('should match granted permissions with wildcards', async () => {
+      const ctx = createPermissionContext({}, undefined, [], ['billing:*:read'], {});
+
+      expect((await evaluatePermission('billing.read', ctx, rules)).allowed).toBe(true);
+    });
+
+    it('should honour explicit deny grants in permission conditions', async () => {
+      const granted = createPermissionContext({}, undefined, [], ['post.*'], {});
+      const denied = createPermissionContext({}, undefined, [], ['post.*', '!post.delete'], {});
+
+      expect((await evaluatePermission('post.remove', granted, rules)).allowed).toBe(true);
+      expect((await evaluatePermission('post.remove', denied, rules)).allowed).toBe(false);
+    });
+
+    it('should label each condition in the evaluation results', async () => {
+      const ctx = createPermissionContext({ id: 'u1' }, { ownerId: 'u2', status: 'draft' }, [], [], {});
+
+      const result = await evaluatePermission('post.edit', ctx, rules);
+      const branch = result.ruleResults[0].children?.[1];
+
+      expect(branch?.children?.map((child) => [child.rule, child.result])).toEqual([
+        ['resource.ownerId eq user.id', false],
+        ['resource.status in ["draft","review"]', true],
+      ]);
+    });
+
+    it('should accept a JSON string', () => {
+      const compiled = compilePolicy(JSON.stringify(policy));
+
+      expect(Object.keys(compiled)).toEqual(Object.keys(policy.rules));
+    });
+  });
+
+  describe('validation', () => {
+    it('should accept a valid policy', () => {
+      expect(validatePolicy(policy)).toEqual([]);
+    });
+
+    it('should report every issue with its location', () => {
+      const issues = validatePolicy({
+        version: 2,
+        rules: {
+          a: { any: [] },
+          b: { path: 'account.id', op: 'equals', value: 1 },
+          c: { path: 'user.id', op: 'eq' },
+          d: { role: 'admin', flag: 'x' },
+          e: { path: 'resource.status', op: 'in', value: 'draft' },
+          f: { not: { rule: '' } },
+          g: { role: 'admin', extra: true },
+        },
+      });
+
+      expect(issues).toEqual([
+        { path: 'version', message: 'unsupported version 2' },
+        { path: 'rules["a"].any', message: 'must be a non-empty array' },
+        {
+          path: 'rules["b"].path',
+          message: 'must start with one of user, resource, roles, permissions, flags (got "account")',
+        },
+        {
+          path: 'rules["b"].op',
+          message: 'must be one of eq, ne, in, contains, gt, gte, lt, lte, exists',
+        },
+        { path: 'rules["c"]', message: 'must have exactly one of "value" or "ref"' },
+        { path: 'rules["d"]', message: 'must contain only one of role, flag' },
+        { path: 'rules["e"].value', message: 'must be an array for "in"' },
+        { path: 'rules["f"].not.rule', message: 'must be a non-empty string' },
+        { path: 'rules["g"].extra', message: 'is not allowed here' },
+      ]);
+    });
+
+    it('should throw a descriptive error when compiling a malformed policy', () => {
+      expect(() => compilePolicy({ rules: { a: { op: 'eq' } } } as any)).toThrow(
+        PolicyValidationError
+      );
+      expect(() => compilePolicy({ rules: { a: { op: 'eq' } } } as any)).toThrow(
+        'rules["a"]: must contain one of all, any, not, role, permission, flag, rule, path'
+      );
+    });
+
+    it('should report invalid JSON', () => {
+      expect(() => compilePolicy('{ rules: ')).toThrow('$: invalid JSON');
+    });
+  });
+});
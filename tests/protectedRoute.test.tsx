@@ -0,0 +1,139 @@
+/**
+ * Tests for the ProtectedRoute component
+ */
+
+import React from 'react';
+import { describe, it, expect, jest } from '@jest/globals';
+import { act } from 'react';
+import { render, flush, FirstCommit } from './support/render';
+import { PermissionsProvider } from '../src/react/PermissionsProvider';
+import { ProtectedRoute } from '../src/react/ProtectedRoute';
+import { InMemoryPermissionChannel } from '../src/core/liveUpdates';
+import type { PermissionDecision, PermissionRulesMap } from '../src/core/types';
+
+const rules: PermissionRulesMap = {
+  'billing.view': ({ roles }) => roles.includes('billing'),
+  'reports.view': async ({ roles }) => roles.includes('analyst'),
+  'admin.view': ({ roles }) =>
+    roles.includes('admin') || { allowed: false, reason: 'Admins only', code: 'NOT_ADMIN' },
+};
+
+function app(children: React.ReactNode, roles: string[] = ['billing']) {
+  return (
+    <PermissionsProvider user={{}} roles={roles} rules={rules} enableDevTools={false}>
+      {children}
+    </PermissionsProvider>
+  );
+}
+
+describe('ProtectedRoute', () => {
+  it('should render synchronously allowed pages without a loading state', async () => {
+    const html: string[] = [];
+
+    await render(
+      app(
+        <FirstCommit html={html}>
+          <ProtectedRoute allow="billing.view">
+            <h1>Billing</h1>
+          </ProtectedRoute>
+        </FirstCommit>
+      )
+    );
+
+    expect(html).toEqual(['<h1>Billing</h1>']);
+  });
+
+  it('should show the loading state until async checks resolve', async () => {
+    const html: string[] = [];
+
+    const { container } = await render(
+      app(
+        <FirstCommit html={html}>
+          <ProtectedRoute allow="reports.view">
+            <h1>Reports</h1>
+          </ProtectedRoute>
+        </FirstCommit>,
+        ['analyst']
+      )
+    );
+    await flush();
+
+    expect(html[0]).toContain('Loading...');
+    expect(container.textContent).toBe('Reports');
+  });
+
+  it('should pass the decision to function fallbacks and onAccessDenied', async () => {
+    const onAccessDenied = jest.fn<(decision: PermissionDecision) => void>();
+
+    const { container } = await render(
+      app(
+        <ProtectedRoute
+          allow="admin.view"
+          fallback={({ reason, code }) => <p>{`${code}: ${reason}`}</p>}
+          onAccessDenied={onAccessDenied}
+        >
+          <h1>Admin</h1>
+        </ProtectedRoute>
+      )
+    );
+
+    expect(container.innerHTML).toBe('<p>NOT_ADMIN: Admins only</p>');
+    expect(onAccessDenied).toHaveBeenCalledTimes(1);
+    expect(onAccessDenied).toHaveBeenCalledWith(
+      expect.objectContaining({ allowed: false, reason: 'Admins only', code: 'NOT_ADMIN' })
+    );
+  });
+
+  it('should show the reason in the default fallback', async () => {
+    const { container } = await render(
+      app(
+        <ProtectedRoute allow="admin.view">
+          <h1>Admin</h1>
+        </ProtectedRoute>
+      )
+    );
+
+    expect(container.querySelector('h1')?.textContent).toBe('Access Denied');
+    expect(container.querySelector('p')?.textContent).toBe('Admins only');
+  });
+
+  it('should call onRevoked once when a live update revokes access', async () => {
+    const channel = new InMemoryPermissionChannel();
+    const onRevoked = jest.fn<(decision: PermissionDecision) => void>();
+    const onAccessDenied = jest.fn();
+
+    const { container } = await render(
+      <PermissionsProvider
+        user={{}}
+        roles={['billing']}
+        rules={rules}
+        liveUpdates={channel}
+        enableDevTools={false}
+      >
+        <ProtectedRoute
+          allow="billing.view"
+          fallback={<p>Revoked</p>}
+          onRevoked={onRevoked}
+          onAccessDenied={onAccessDenied}
+        >
+          <h1>Billing</h1>
+        </ProtectedRoute>
+      </PermissionsProvider>
+    );
+    expect(container.textContent).toBe('Billing');
+    expect(onRevoked).not.toHaveBeenCalled();
+
+    await act(async () => channel.publish({ roles: { remove: ['billing'] } }));
+    await flush();
+
+    expect(container.textContent).toBe('Revoked');
+    expect(onRevoked).toHaveBeenCalledTimes(1);
+    expect(onRevoked).toHaveBeenCalledWith(expect.objectContaining({ allowed: false }));
+
+    // Further updates that keep access denied do not revoke again
+    await act(async () => channel.publish({ roles: { add: ['editor'] } }));
+    await flush();
+
+    expect(onRevoked).toHaveBeenCalledTimes(1);
+  });
+});
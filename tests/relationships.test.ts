@@ -0,0 +1,192 @@
+/**
+ * Tests for relationship-based access control
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  InMemoryRelationshipStore,
+  checkRelation,
+  hasRelation,
+  RelationDepthError,
+} from '../src/core/relationships';
+import type { RelationSchema } from '../src/core/relationships';
+import { evaluatePermission, createPermissionContext } from '../src/core/ruleEngine';
+import type { PermissionRulesMap } from '../src/core/types';
+
+const schema: RelationSchema = {
+  folder: {
+    viewer: { includes: ['editor'], inherit: [{ via: 'parent', relation: 'viewer' }] },
+    editor: { inherit: [{ via: 'parent', relation: 'editor' }] },
+  },
+  document: {
+    viewer: { includes: ['editor'], inherit: [{ via: 'parent', relation: 'viewer' }] },
+    editor: { includes: ['owner'], inherit: [{ via: 'parent', relation: 'editor' }] },
+  },
+};
+
+function createStore() {
+  return new InMemoryRelationshipStore([
+    { subject: 'user:alice', relation: 'editor', object: 'folder:docs' },
+    { subject: 'folder:docs', relation: 'parent', object: 'document:readme' },
+    { subject: 'user:bob', relation: 'owner', object: 'document:notes' },
+    { subject: 'group:eng#member', relation: 'viewer', object: 'document:notes' },
+    { subject: 'user:carol', relation: 'member', object: 'group:eng' },
+  ]);
+}
+
+describe('Relationships', () => {
+  describe('InMemoryRelationshipStore', () => {
+    it('should read, dedupe and delete tuples', () => {
+      const store = new InMemoryRelationshipStore();
+      const tuple = { subject: 'user:a', relation: 'viewer', object: 'doc:1' };
+
+      store.write(tuple);
+      store.write({ ...tuple });
+      expect(store.read('doc:1', 'viewer')).toEqual([tuple]);
+
+      store.delete(tuple);
+      expect(store.read('doc:1', 'viewer')).toEqual([]);
+      expect(store.tuples()).toEqual([]);
+    });
+  });
+
+  describe('checkRelation', () => {
+    it('should match direct tuples', async () => {
+      const store = createStore();
+      expect(
+        await checkRelation(store, { subject: 'user:bob', relation: 'owner', object: 'document:notes' })
+      ).toBe(true);
+      expect(
+        await checkRelation(store, { subject: 'user:bob', relation: 'viewer', object: 'document:notes' })
+      ).toBe(false);
+    });
+
+    it('should follow includes rewrites', async () => {
+      const result = await checkRelation(
+        createStore(),
+        { subject: 'user:bob', relation: 'viewer', object: 'document:notes' },
+        { schema }
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should inherit relations from parent objects', async () => {
+      const store = createStore();
+      expect(
+        await checkRelation(
+          store,
+          { subject: 'user:alice', relation: 'viewer', object: 'document:readme' },
+          { schema }
+        )
+      ).toBe(true);
+      expect(
+        await checkRelation(
+          store,
+          { subject: 'user:bob', relation: 'viewer', object: 'document:readme' },
+          { schema }
+        )
+      ).toBe(false);
+    });
+
+    it('should expand usersets', async () => {
+      const result = await checkRelation(
+        createStore(),
+        { subject: 'user:carol', relation: 'viewer', object: 'document:notes' },
+        { schema }
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should not loop on cyclic data', async () => {
+      const store = new InMemoryRelationshipStore([
+        { subject: 'folder:a', relation: 'parent', object: 'folder:b' },
+        { subject: 'folder:b', relation: 'parent', object: 'folder:a' },
+      ]);
+      const result = await checkRelation(
+        store,
+        { subject: 'user:x', relation: 'viewer', object: 'folder:a' },
+        { schema }
+      );
+      expect(result).toBe(false);
+    });
+
+    it('should throw when exceeding the depth limit', async () => {
+      const store = new InMemoryRelationshipStore(
+        Array.from({ length: 5 }, (_, i) => ({
+          subject: `folder:${i + 1}`,
+          relation: 'parent',
+          object: `folder:${i}`,
+        }))
+      );
+      store.write({ subject: 'user:x', relation: 'editor', object: 'folder:5' });
+
+      await expect(
+        checkRelation(
+          store,
+          { subject: 'user:x', relation: 'editor', object: 'folder:0' },
+          { schema, maxDepth: 3 }
+        )
+      ).rejects.toThrow(RelationDepthError);
+      await expect(
+        checkRelation(
+          store,
+          { subject: 'user:x', relation: 'editor', object: 'folder:0' },
+          { schema, maxDepth: 10 }
+        )
+      ).resolves.toBe(true);
+    });
+  });
+
+  describe('hasRelation', () => {
+    const store = createStore();
+    const rules: PermissionRulesMap = {
+      'document.view': hasRelation('viewer', { store, schema }),
+    };
+
+    it('should resolve string checks through the graph', async () => {
+      const doc = { __typename: 'Document', id: 'readme' };
+      const alice = createPermissionContext({ id: 'alice' }, doc, [], [], {});
+      const bob = createPermissionContext({ id: 'bob' }, doc, [], [], {});
+
+      expect((await evaluatePermission('document.view', alice, rules)).allowed).toBe(true);
+      expect((await evaluatePermission('document.view', bob, rules)).allowed).toBe(false);
+    });
+
+    it('should deny when the resource cannot be mapped', async () => {
+      const context = createPermissionContext({ id: 'alice' }, { id: 'readme' }, [], [], {});
+      expect((await evaluatePermission('document.view', context, rules)).allowed).toBe(false);
+    });
+
+    it('should use custom subject and object mappings', async () => {
+      const custom: PermissionRulesMap = {
+        'document.view': hasRelation('viewer', {
+          store,
+          schema,
+          subject: (user) => `user:${user.name}`,
+          object: (doc) => `document:${doc.slug}`,
+        }),
+      };
+      const context = createPermissionContext({ name: 'carol' }, { slug: 'notes' }, [], [], {});
+
+      const result = await evaluatePermission('document.view', context, custom);
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should deny with an error when the depth limit is hit', async () => {
+      const limited: PermissionRulesMap = {
+        'document.view': hasRelation('viewer', { store, schema, maxDepth: 1 }),
+      };
+      const context = createPermissionContext(
+        { id: 'alice' },
+        { __typename: 'Document', id: 'readme' },
+        [],
+        [],
+        {}
+      );
+
+      const result = await evaluatePermission('document.view', context, limited);
+      expect(result.allowed).toBe(false);
+      expect(result.ruleResults[0].error).toMatch(/max depth of 1/);
+    });
+  });
+});
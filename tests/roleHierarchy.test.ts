@@ -0,0 +1,82 @@
+/**
+ * Tests for role hierarchy expansion
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  expandRoles,
+  validateRoleDefinitions,
+  RoleHierarchyError,
+} from '../src/core/roleHierarchy';
+import type { RoleDefinitionsMap } from '../src/core/types';
+
+const definitions: RoleDefinitionsMap = {
+  admin: { inherits: ['editor'], permissions: ['user.manage'] },
+  editor: { inherits: ['viewer'], permissions: ['post.edit'] },
+  viewer: { permissions: ['post.view'] },
+};
+
+describe('Role Hierarchy', () => {
+  describe('expandRoles', () => {
+    it('should expand inherited roles and their permissions', () => {
+      const result = expandRoles(['admin'], [], definitions);
+
+      expect(result.roles).toEqual(['admin', 'editor', 'viewer']);
+      expect(result.permissions).toEqual(['user.manage', 'post.edit', 'post.view']);
+    });
+
+    it('should keep directly granted permissions', () => {
+      const result = expandRoles(['viewer'], ['report.export'], definitions);
+
+      expect(result.roles).toEqual(['viewer']);
+      expect(result.permissions).toEqual(['report.export', 'post.view']);
+    });
+
+    it('should keep undefined roles as leaf roles', () => {
+      const result = expandRoles(['guest'], [], definitions);
+
+      expect(result.roles).toEqual(['guest']);
+      expect(result.permissions).toEqual([]);
+    });
+
+    it('should de-duplicate shared ancestors', () => {
+      const result = expandRoles(['admin', 'editor'], ['post.view'], definitions);
+
+      expect(result.roles).toEqual(['admin', 'editor', 'viewer']);
+      expect(result.permissions).toEqual(['post.view', 'user.manage', 'post.edit']);
+    });
+  });
+
+  describe('validateRoleDefinitions', () => {
+    it('should accept acyclic definitions', () => {
+      expect(() => validateRoleDefinitions(definitions)).not.toThrow();
+    });
+
+    it('should report the cycle path', () => {
+      const cyclic: RoleDefinitionsMap = {
+        a: { inherits: ['b'] },
+        b: { inherits: ['c'] },
+        c: { inherits: ['a'] },
+      };
+
+      let error: unknown;
+      try {
+        validateRoleDefinitions(cyclic);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(RoleHierarchyError);
+      expect((error as RoleHierarchyError).cycle).toEqual(['a', 'b', 'c', 'a']);
+      expect((error as Error).message).toBe(
+        'Circular role inheritance detected: a -> b -> c -> a'
+      );
+    });
+
+    it('should detect self-inheritance', () => {
+      expect(() => expandRoles(['a'], [], { a: { inherits: ['a'] } })).toThrow(
+        RoleHierarchyError
+      );
+    });
+  });
+});
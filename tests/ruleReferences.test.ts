@@ -0,0 +1,170 @@
+/**
+ * Tests for rules referencing other rules through ctx.check
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  evaluatePermission,
+  createPermissionContext,
+  RuleCycleError,
+} from '../src/core/ruleEngine';
+import { ref } from '../src/core/combinators';
+import { compilePolicy } from '../src/core/policy';
+import { createAuthorizer } from '../src/core/authorizer';
+import { collectRuleFailures } from '../src/core/errorPolicy';
+import type { PermissionRulesMap } from '../src/core/types';
+
+describe('Rule References', () => {
+  it('should let a rule build on another rule', async () => {
+    const rules: PermissionRulesMap = {
+      'post.view': ({ user, resource }) => resource.public || user.id === resource.ownerId,
+      'post.comment': async (ctx) => (await ctx.check!('post.view')) && !ctx.user.muted,
+    };
+    const ctx = createPermissionContext({ id: '1', muted: false }, { public: true }, [], [], {});
+
+    const result = await evaluatePermission('post.comment', ctx, rules);
+
+    expect(result.allowed).toBe(true);
+    expect(result.ruleResults[0].children).toEqual([
+      expect.objectContaining({ rule: 'post.view', result: true }),
+    ]);
+  });
+
+  it('should resolve checks against grants, roles and expressions', async () => {
+    const rules: PermissionRulesMap = {
+      'report.view': (ctx) => ctx.check!('admin or report.read'),
+    };
+    const ctx = createPermissionContext({}, undefined, [], ['report.*'], {});
+
+    const result = await evaluatePermission('report.view', ctx, rules);
+
+    expect(result.allowed).toBe(true);
+  });
+
+  it('should evaluate checks against another resource', async () => {
+    const rules: PermissionRulesMap = {
+      'folder.view': ({ user, resource }) => resource.members.includes(user.id),
+      'document.view': (ctx) => ctx.check!('folder.view', ctx.resource.folder),
+    };
+    const folder = { members: ['1'] };
+    const ctx = createPermissionContext({ id: '1' }, { folder }, [], [], {});
+
+    const result = await evaluatePermission('document.view', ctx, rules);
+
+    expect(result.allowed).toBe(true);
+  });
+
+  it('should memoize a key within one evaluation', async () => {
+    let calls = 0;
+    const rules: PermissionRulesMap = {
+      base: () => {
+        calls++;
+        return true;
+      },
+      a: (ctx) => ctx.check!('base'),
+      b: (ctx) => ctx.check!('base'),
+    };
+    const ctx = createPermissionContext({}, undefined, [], [], {});
+
+    const result = await evaluatePermission(['a', 'b', 'base'], ctx, rules, 'all');
+
+    expect(result.allowed).toBe(true);
+    expect(calls).toBe(1);
+
+    await evaluatePermission('a', ctx, rules);
+    expect(calls).toBe(2);
+  });
+
+  it('should report direct recursion as a cycle', async () => {
+    const rules: PermissionRulesMap = {
+      loop: (ctx) => ctx.check!('loop'),
+    };
+    const ctx = createPermissionContext({}, undefined, [], [], {});
+
+    const result = await evaluatePermission('loop', ctx, rules);
+
+    expect(result.allowed).toBe(false);
+    expect(result.ruleResults[0].error).toBe('Circular rule reference detected: loop -> loop');
+  });
+
+  it('should report indirect cycles, including through ref()', async () => {
+    const rules: PermissionRulesMap = {
+      a: (ctx) => ctx.check!('b'),
+      b: ref('c'),
+      c: (ctx) => ctx.check!('a'),
+    };
+    const ctx = createPermissionContext({}, undefined, [], [], {});
+
+    const result = await evaluatePermission('a', ctx, rules);
+
+    expect(result.allowed).toBe(false);
+    expect(result.ruleResults[0].error).toBe(
+      'Circular rule reference detected: c -> a -> b -> c'
+    );
+  });
+
+  it('should record cycles made only of ref() rules', async () => {
+    const rules: PermissionRulesMap = { a: ref('b'), b: ref('a') };
+    const ctx = createPermissionContext({}, undefined, [], [], {});
+
+    const result = await evaluatePermission('a', ctx, rules);
+
+    expect(result.allowed).toBe(false);
+    expect(result.ruleResults[0].error).toBe('Circular rule reference detected: b -> a -> b');
+  });
+
+  it('should record cycles between compiled policy rules', async () => {
+    const rules = compilePolicy({
+      version: 1,
+      rules: { a: { any: [{ role: 'admin' }, { rule: 'b' }] }, b: { rule: 'a' } },
+    });
+    const ctx = createPermissionContext({}, undefined, [], [], {});
+
+    const result = await evaluatePermission('a', ctx, rules);
+
+    expect(result.allowed).toBe(false);
+    expect(collectRuleFailures(result.ruleResults, 0)[0].error).toContain(
+      'Circular rule reference'
+    );
+  });
+
+  it('should apply the error policy to ref() cycles', async () => {
+    const authorizer = createAuthorizer({
+      user: {},
+      rules: { a: ref('b'), b: ref('a') },
+      onError: 'allow',
+    });
+
+    await expect(authorizer.can('a')).resolves.toBe(true);
+  });
+
+  it('should not deadlock when sibling keys reference each other', async () => {
+    const rules: PermissionRulesMap = {
+      a: (ctx) => ctx.check!('b'),
+      b: (ctx) => ctx.check!('a'),
+    };
+    const ctx = createPermissionContext({}, undefined, [], [], {});
+
+    const result = await evaluatePermission(['a', 'b'], ctx, rules);
+
+    expect(result.allowed).toBe(false);
+    expect(result.ruleResults.some((r) => r.error?.includes('Circular rule reference'))).toBe(true);
+  });
+
+  it('should expose the cycle on the error', () => {
+    const error = new RuleCycleError(['a', 'b', 'a']);
+
+    expect(error.name).toBe('RuleCycleError');
+    expect(error.cycle).toEqual(['a', 'b', 'a']);
+  });
+
+  it('should give inline rules access to check', async () => {
+    const rules: PermissionRulesMap = { 'post.view': () => true };
+    const ctx = createPermissionContext({}, undefined, [], [], {});
+
+    const result = await evaluatePermission((c) => c.check!('post.view'), ctx, rules);
+
+    expect(result.allowed).toBe(true);
+    expect(result.ruleResults[0].children?.[0].rule).toBe('post.view');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Smoke tests for the built react-auth-gate/server entry in plain Node
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect, beforeAll } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import path from 'path';
+
+const root = path.resolve(__dirname, '..');
+
+/**
+ * Runs a script in a fresh Node process from the package root, where the
+ * package resolves its own name through `exports`
+ */
+function node(args: string[]): string {
+  return execFileSync(process.execPath, args, { cwd: root, encoding: 'utf8' }).trim();
+}
+
+const checks = `
+  const authorizer = createAuthorizer({
+    user: { id: 'u1' },
+    roles: ['editor'],
+    rules: { isAuthor: ({ user, resource }) => resource.authorId === user.id },
+  });
+  const results = await Promise.all([
+    authorizer.can('editor'),
+    authorizer.can('isAuthor', { authorId: 'u1' }),
+    authorizer.assert('admin').catch((error) => error instanceof ForbiddenError),
+  ]);
+  console.log(results.join(' '));
+`;
+
+describe('Server entry', () => {
+  beforeAll(() => {
+    // The build the package exports map points Node at
+    node([require.resolve('typescript/bin/tsc'), '-p', 'tsconfig.cjs.json']);
+  }, 120_000);
+
+  it('should load with require()', () => {
+    const script = `
+      const { createAuthorizer, ForbiddenError } = require('react-auth-gate/server');
+      (async () => { ${checks} })();
+    `;
+
+    expect(node(['-e', script])).toBe('true true true');
+  });
+
+  it('should load with import', () => {
+    const script = `
+      import { createAuthorizer, ForbiddenError } from 'react-auth-gate/server';
+      ${checks}
+    `;
+
+    expect(node(['--input-type=module', '-e', script])).toBe('true true true');
+  });
+
+  it('should not load React', () => {
+    const script = `
+      require('react-auth-gate/server');
+      console.log(Object.keys(require.cache).some((file) => file.includes('node_modules/react')));
+    `;
+
+    expect(node(['-e', script])).toBe('false');
+  });
+});
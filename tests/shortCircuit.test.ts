@@ -0,0 +1,126 @@
+/**
+ * Tests for short-circuit evaluation of array checks
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { evaluatePermission, createPermissionContext } from '../src/core/ruleEngine';
+import type { PermissionContext, PermissionRulesMap } from '../src/core/types';
+
+function delay(ms: number, value: boolean) {
+  return new Promise<boolean>((resolve) => setTimeout(() => resolve(value), ms));
+}
+
+function createRules() {
+  const slowSignals: Array<AbortSignal | undefined> = [];
+  const rules: PermissionRulesMap = {
+    fast: jest.fn(() => true),
+    denied: jest.fn(() => false),
+    slow: jest.fn((ctx: PermissionContext) => {
+      slowSignals.push(ctx.signal);
+      return delay(200, true);
+    }),
+  };
+  return { rules, slowSignals };
+}
+
+const context = createPermissionContext({ id: 'u1' }, undefined, [], [], {});
+
+describe('Short-Circuit Evaluation', () => {
+  it('should evaluate every key by default', async () => {
+    const { rules } = createRules();
+    const result = await evaluatePermission(['fast', 'slow'], context, rules, 'any');
+
+    expect(result.allowed).toBe(true);
+    expect(rules.slow).toHaveBeenCalled();
+    expect(result.ruleResults.map((r) => r.outcome)).toEqual([undefined, undefined]);
+  });
+
+  describe('sequential', () => {
+    it('should stop at the first passing key in any mode', async () => {
+      const { rules } = createRules();
+      const result = await evaluatePermission(['denied', 'fast', 'slow'], context, rules, 'any', {
+        shortCircuit: 'sequential',
+      });
+
+      expect(result.allowed).toBe(true);
+      expect(rules.slow).not.toHaveBeenCalled();
+      expect(result.ruleResults).toEqual([
+        expect.objectContaining({ rule: 'denied', result: false }),
+        expect.objectContaining({ rule: 'fast', result: true }),
+        { rule: 'slow', result: false, duration: 0, outcome: 'skipped' },
+      ]);
+    });
+
+    it('should stop at the first failing key in all mode', async () => {
+      const { rules } = createRules();
+      const result = await evaluatePermission(['fast', 'denied', 'slow'], context, rules, 'all', {
+        shortCircuit: 'sequential',
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(rules.slow).not.toHaveBeenCalled();
+      expect(result.ruleResults[2].outcome).toBe('skipped');
+    });
+
+    it('should evaluate in order', async () => {
+      const order: string[] = [];
+      const rules: PermissionRulesMap = {
+        a: async () => {
+          await delay(20, false);
+          order.push('a');
+          return false;
+        },
+        b: () => {
+          order.push('b');
+          return false;
+        },
+      };
+
+      await evaluatePermission(['a', 'b'], context, rules, 'any', { shortCircuit: 'sequential' });
+      expect(order).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('race', () => {
+    it('should resolve once a key decides the outcome', async () => {
+      const { rules, slowSignals } = createRules();
+      const start = Date.now();
+      const result = await evaluatePermission(['slow', 'fast'], context, rules, 'any', {
+        shortCircuit: 'race',
+      });
+
+      expect(Date.now() - start).toBeLessThan(150);
+      expect(result.allowed).toBe(true);
+      expect(result.ruleResults.map((r) => [r.rule, r.outcome])).toEqual([
+        ['slow', 'skipped'],
+        ['fast', undefined],
+      ]);
+      expect(slowSignals[0]?.aborted).toBe(true);
+    });
+
+    it('should resolve on the first failure in all mode', async () => {
+      const { rules } = createRules();
+      const result = await evaluatePermission(['slow', 'denied'], context, rules, 'all', {
+        shortCircuit: 'race',
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.ruleResults[0].outcome).toBe('skipped');
+    });
+
+    it('should wait for every key when none decides', async () => {
+      const rules: PermissionRulesMap = { a: () => delay(10, false), b: () => false };
+      const result = await evaluatePermission(['a', 'b'], context, rules, 'any', {
+        shortCircuit: 'race',
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.ruleResults.every((r) => r.outcome === undefined)).toBe(true);
+    });
+
+    it('should handle empty arrays', async () => {
+      const result = await evaluatePermission([], context, {}, 'all', { shortCircuit: 'race' });
+      expect(result.allowed).toBe(true);
+    });
+  });
+});
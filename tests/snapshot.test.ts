@@ -0,0 +1,109 @@
+/**
+ * Tests for decision snapshots used in server-side rendering
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { createDecisionSnapshot, serializeDecisionSnapshot } from '../src/core/snapshot';
+import { createConfigEvaluator } from '../src/core/configEvaluation';
+import { decisionKey } from '../src/core/decisionCache';
+import type { PermissionsConfig } from '../src/core/types';
+
+const post = { id: 'p1', authorId: 'u1' };
+
+const config: PermissionsConfig = {
+  user: { id: 'u1' },
+  roles: ['editor'],
+  roleDefinitions: {
+    editor: { permissions: ['post.edit'], inherits: ['viewer'] },
+    viewer: { permissions: ['post.view'] },
+  },
+  flags: { beta: { targeting: [{ roles: ['viewer'] }] } },
+  rules: {
+    isAuthor: ({ user, resource }) => resource?.authorId === user.id,
+    betaOnly: ({ flags }) => flags.beta === true,
+  },
+  cache: { resourceKey: (resource: any) => resource?.id },
+};
+
+describe('Decision Snapshots', () => {
+  it('should key decisions like the provider does', async () => {
+    const snapshot = await createDecisionSnapshot(config, [
+      'post.edit',
+      { check: ['isAuthor', 'admin'], resource: post, mode: 'all' },
+    ]);
+
+    const resourceKey = (resource: any) => resource?.id;
+    expect(Object.keys(snapshot.decisions)).toEqual([
+      decisionKey('post.edit', undefined, 'any', resourceKey),
+      decisionKey(['isAuthor', 'admin'], post, 'all', resourceKey),
+    ]);
+  });
+
+  it('should apply role definitions and resolved flags', async () => {
+    const snapshot = await createDecisionSnapshot(config, [
+      'post.view',
+      'viewer',
+      'betaOnly',
+      'admin',
+    ]);
+
+    const allowed = Object.values(snapshot.decisions).map((decision) => decision.allowed);
+    expect(allowed).toEqual([true, true, true, false]);
+  });
+
+  it('should apply the error policy to failing rules', async () => {
+    const onRuleError = jest.fn();
+    const snapshot = await createDecisionSnapshot(
+      {
+        ...config,
+        rules: {
+          broken: () => {
+            throw new Error('backend down');
+          },
+        },
+        onError: 'allow',
+        onRuleError,
+      },
+      ['broken']
+    );
+
+    const [decision] = Object.values(snapshot.decisions);
+    expect(decision.allowed).toBe(true);
+    expect(decision.errorPolicy).toMatchObject({ policy: 'allow' });
+    expect(onRuleError).toHaveBeenCalledWith(
+      expect.objectContaining({ rule: 'broken', check: 'broken' })
+    );
+  });
+
+  it('should reject checks keyed by object identity', async () => {
+    await expect(createDecisionSnapshot(config, [() => true])).rejects.toThrow(
+      /keyed by identity/
+    );
+    await expect(
+      createDecisionSnapshot({ ...config, cache: true }, [{ check: 'isAuthor', resource: post }])
+    ).rejects.toThrow(/resourceKey/);
+  });
+
+  it('should serialize snapshots safely for inline scripts', () => {
+    const json = serializeDecisionSnapshot({
+      decisions: {
+        'x|</script>\u2028|any': { allowed: true, ruleResults: [] },
+      },
+    });
+
+    expect(json).not.toMatch(/<|\u2028/);
+    expect(JSON.parse(json).decisions).toHaveProperty(['x|</script>\u2028|any']);
+  });
+});
+
+describe('Config Evaluator', () => {
+  it('should evaluate checks outside React', async () => {
+    const evaluator = createConfigEvaluator(config);
+
+    await expect(evaluator.evaluate('isAuthor', post)).resolves.toMatchObject({ allowed: true });
+    await expect(
+      evaluator.evaluate('isAuthor', { id: 'p2', authorId: 'u2' })
+    ).resolves.toMatchObject({ allowed: false });
+    expect(evaluator.context().roles).toEqual(expect.arrayContaining(['editor', 'viewer']));
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Rendering helpers for component and hook tests
+ */
+
+import { act, createElement, useLayoutEffect, useRef } from 'react';
+import type { ReactNode } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+/**
+ * A mounted React tree
+ */
+export interface Rendered {
+  container: HTMLElement;
+  rerender(element: ReactNode): Promise<void>;
+  unmount(): Promise<void>;
+}
+
+/**
+ * Renders an element into a detached container, flushing effects
+ */
+export async function render(element: ReactNode): Promise<Rendered> {
+  const container = document.createElement('div');
+  const root: Root = createRoot(container);
+
+  await act(async () => {
+    root.render(element);
+  });
+
+  return {
+    container,
+    rerender: (next) =>
+      act(async () => {
+        root.render(next);
+      }),
+    unmount: () =>
+      act(async () => {
+        root.unmount();
+      }),
+  };
+}
+
+/**
+ * Lets pending promises (async rules, adapter loads) settle inside act()
+ */
+export async function flush(): Promise<void> {
+  await act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+}
+
+/**
+ * Records the values a hook returned on every render
+ */
+export function HookProbe<T>({ use, values }: { use: () => T; values: T[] }) {
+  values.push(use());
+  return null;
+}
+
+/**
+ * Records the markup of its children as first committed, before effects
+ * could re-render them (e.g. a loading state replaced after mount)
+ */
+export function FirstCommit({ children, html }: { children: ReactNode; html: string[] }) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    html.push(ref.current!.innerHTML);
+  }, []);
+
+  return createElement('div', { ref }, children);
+}
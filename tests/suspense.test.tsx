@@ -0,0 +1,183 @@
+/**
+ * Tests for Suspense mode
+ */
+
+import React, { Component, Suspense } from 'react';
+import type { ReactNode } from 'react';
+import { describe, it, expect, jest } from '@jest/globals';
+import { render, flush, HookProbe } from './support/render';
+import { PermissionsProvider } from '../src/react/PermissionsProvider';
+import { usePermission } from '../src/react/usePermission';
+import { usePermissions } from '../src/react/usePermissions';
+import { useFilterPermitted } from '../src/react/useFilterPermitted';
+import type { PermissionRulesMap } from '../src/core/types';
+
+interface Doc {
+  id: string;
+  shared: boolean;
+}
+
+const docs: Doc[] = [
+  { id: 'a', shared: true },
+  { id: 'b', shared: false },
+  { id: 'c', shared: true },
+];
+
+const user = {};
+const roles = ['editor'];
+
+let evaluations = 0;
+let release: () => void = () => {};
+let gate = Promise.resolve();
+
+/**
+ * Holds async rules until release() is called
+ */
+function hold() {
+  gate = new Promise((resolve) => {
+    release = resolve;
+  });
+}
+
+const rules: PermissionRulesMap = {
+  isShared: async ({ resource }) => {
+    evaluations++;
+    await gate;
+    return resource?.shared === true;
+  },
+  isBroken: () => {
+    throw new Error('backend down');
+  },
+  isVisible: ({ resource }) => {
+    evaluations++;
+    return resource?.shared === true;
+  },
+};
+
+class Boundary extends Component<{ children: ReactNode }, { error?: Error }> {
+  state: { error?: Error } = {};
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  render() {
+    return this.state.error ? `error: ${this.state.error.message}` : this.props.children;
+  }
+}
+
+function app(children: ReactNode, onRuleError?: () => void) {
+  return (
+    <PermissionsProvider
+      user={user}
+      roles={roles}
+      rules={rules}
+      onRuleError={onRuleError}
+      suspense
+      enableDevTools={false}
+    >
+      <Boundary>
+        <Suspense fallback="loading">{children}</Suspense>
+      </Boundary>
+    </PermissionsProvider>
+  );
+}
+
+describe('Suspense mode', () => {
+  it('should suspend usePermission until async rules resolve', async () => {
+    const values: Array<{ allowed: boolean; loading: boolean }> = [];
+    hold();
+
+    const { container } = await render(
+      app(<HookProbe use={() => usePermission('isShared', docs[0])} values={values} />)
+    );
+    expect(container.textContent).toBe('loading');
+
+    release();
+    await flush();
+    expect(container.textContent).toBe('');
+    expect(values).toEqual([{ allowed: true, loading: false }]);
+  });
+
+  it('should suspend usePermissions until every check is decided', async () => {
+    const values: Array<Record<string, boolean>> = [];
+    evaluations = 0;
+    hold();
+
+    const { container } = await render(
+      app(
+        <HookProbe
+          use={() => usePermissions({ shared: 'isShared', editor: 'editor' }, docs[1])}
+          values={values}
+        />
+      )
+    );
+    expect(container.textContent).toBe('loading');
+
+    release();
+    await flush();
+    expect(values).toEqual([{ shared: false, editor: true, loading: false }]);
+    expect(evaluations).toBe(1);
+  });
+
+  it('should suspend useFilterPermitted until every item is decided', async () => {
+    const values: Array<{ items: Doc[]; loading: boolean }> = [];
+    evaluations = 0;
+    hold();
+
+    const { container } = await render(
+      app(<HookProbe use={() => useFilterPermitted(docs, 'isShared')} values={values} />)
+    );
+    expect(container.textContent).toBe('loading');
+
+    release();
+    await flush();
+    expect(values).toEqual([{ items: [docs[0], docs[2]], loading: false }]);
+    // Every item was evaluated in parallel, once
+    expect(evaluations).toBe(docs.length);
+  });
+
+  it('should not suspend synchronous checks', async () => {
+    const values: Array<{ items: Doc[]; loading: boolean }> = [];
+
+    const { container } = await render(
+      app(<HookProbe use={() => useFilterPermitted(docs, 'isVisible')} values={values} />)
+    );
+
+    expect(container.textContent).toBe('');
+    expect(values[0]).toEqual({ items: [docs[0], docs[2]], loading: false });
+  });
+
+  it('should throw evaluation errors to the error boundary', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = () => {
+      throw new Error('reporting failed');
+    };
+
+    const { container } = await render(
+      app(<HookProbe use={() => usePermission('isBroken')} values={[]} />, failing)
+    );
+    await flush();
+
+    expect(container.textContent).toBe('error: reporting failed');
+    consoleError.mockRestore();
+  });
+
+  it('should drop settled reads of old resources beyond the limit', async () => {
+    const many = Array.from({ length: 600 }, (_, index) => ({ id: `${index}`, shared: true }));
+    const list = (items: Doc[]) =>
+      app(<HookProbe use={() => useFilterPermitted(items, 'isVisible')} values={[]} />);
+    evaluations = 0;
+
+    const { rerender } = await render(list(many));
+    expect(evaluations).toBe(600);
+
+    // Recent reads are kept...
+    await rerender(list(many.slice(500)));
+    expect(evaluations).toBe(600);
+
+    // ...while the oldest were evicted and are evaluated again
+    await rerender(list(many.slice(0, 100)));
+    expect(evaluations).toBe(700);
+  });
+});
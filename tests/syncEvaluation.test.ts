@@ -0,0 +1,125 @@
+/**
+ * Tests for synchronous (eager) evaluation
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  evaluatePermission,
+  evaluatePermissionEager,
+  createPermissionContext,
+} from '../src/core/ruleEngine';
+import { and, hasRole, named, ref } from '../src/core/combinators';
+import type { PermissionRulesMap } from '../src/core/types';
+
+const context = createPermissionContext(
+  { id: 'u1' },
+  { authorId: 'u1' },
+  ['editor'],
+  ['post.view'],
+  { beta: true }
+);
+
+const rules: PermissionRulesMap = {
+  'post.edit': ({ user, resource }) => user.id === resource.authorId,
+  'post.remote': async () => true,
+  'post.broken': () => {
+    throw new Error('Broken rule');
+  },
+  'post.chained': async (ctx) => ctx.check!('post.edit'),
+  'post.composed': and(
+    hasRole('editor'),
+    named('isAuthor', ({ user, resource }) => user.id === resource.authorId)
+  ),
+};
+
+describe('Eager Evaluation', () => {
+  it('should return synchronously when every rule is sync', () => {
+    const result = evaluatePermissionEager('post.edit', context, rules);
+
+    expect(result).not.toBeInstanceOf(Promise);
+    expect(result).toMatchObject({ allowed: true });
+  });
+
+  it('should decide grants, roles, flags and expressions synchronously', () => {
+    for (const check of ['post.view', 'editor', 'post.edit and flag:beta and not admin']) {
+      const result = evaluatePermissionEager(check, context, rules);
+      expect(result).toMatchObject({ allowed: true });
+    }
+  });
+
+  it('should decide composed rules and array checks synchronously', () => {
+    expect(evaluatePermissionEager('post.composed', context, rules)).toMatchObject({
+      allowed: true,
+    });
+    expect(evaluatePermissionEager(['admin', 'post.edit'], context, rules, 'all')).toMatchObject({
+      allowed: false,
+    });
+  });
+
+  it('should fall back to a promise when a rule is async', async () => {
+    const result = evaluatePermissionEager(['post.edit', 'post.remote'], context, rules, 'all');
+
+    expect(result).toBeInstanceOf(Promise);
+    expect((await result).allowed).toBe(true);
+  });
+
+  it('should treat rules that use ctx.check as async', async () => {
+    const result = evaluatePermissionEager('post.chained', context, rules);
+
+    expect(result).toBeInstanceOf(Promise);
+    expect((await result).allowed).toBe(true);
+  });
+
+  it('should report sync errors as results', () => {
+    const result = evaluatePermissionEager('post.broken', context, rules);
+
+    expect(result).not.toBeInstanceOf(Promise);
+    expect(result).toMatchObject({
+      allowed: false,
+      ruleResults: [{ rule: 'post.broken', result: false, error: 'Broken rule' }],
+    });
+  });
+
+  it('should stay synchronous with timeouts configured', () => {
+    const result = evaluatePermissionEager('post.edit', context, rules, 'any', { timeout: 10 });
+    expect(result).toMatchObject({ allowed: true });
+  });
+
+  it('should settle a race synchronously when a sync key decides', () => {
+    let signal: AbortSignal | undefined;
+    const raceRules: PermissionRulesMap = {
+      ...rules,
+      slow: (ctx) => {
+        signal = ctx.signal;
+        return new Promise<boolean>(() => {});
+      },
+    };
+
+    const result = evaluatePermissionEager(['slow', 'editor'], context, raceRules, 'any', {
+      shortCircuit: 'race',
+    });
+
+    expect(result).toMatchObject({
+      allowed: true,
+      ruleResults: [{ rule: 'slow', outcome: 'skipped' }, { rule: 'editor', result: true }],
+    });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should record reference cycles rather than throw', async () => {
+    const cyclic: PermissionRulesMap = { loop: ref('loop') };
+
+    let result: unknown;
+
+    expect(() => {
+      result = evaluatePermissionEager('loop', context, cyclic);
+    }).not.toThrow();
+    expect(result).toMatchObject({
+      allowed: false,
+      ruleResults: [{ rule: 'loop', error: 'Circular rule reference detected: loop -> loop' }],
+    });
+    await expect(evaluatePermission('loop', context, cyclic)).resolves.toMatchObject({
+      allowed: false,
+    });
+  });
+});
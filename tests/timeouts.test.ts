@@ -0,0 +1,121 @@
+/**
+ * Tests for rule timeouts and cancellation
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  evaluateRule,
+  evaluatePermission,
+  createPermissionContext,
+} from '../src/core/ruleEngine';
+import { and, hasRole, named } from '../src/core/combinators';
+import type { PermissionContext, PermissionRulesMap } from '../src/core/types';
+
+const never = () => new Promise<boolean>(() => {});
+
+function delay(ms: number, value = true) {
+  return new Promise<boolean>((resolve) => setTimeout(() => resolve(value), ms));
+}
+
+function createContext(signal?: AbortSignal) {
+  return createPermissionContext({ id: 'u1' }, undefined, ['editor'], [], {}, signal);
+}
+
+describe('Timeouts and Cancellation', () => {
+  describe('evaluateRule', () => {
+    it('should time out a hung rule', async () => {
+      const result = await evaluateRule(never, createContext(), 20);
+
+      expect(result).toMatchObject({
+        result: false,
+        outcome: 'timeout',
+        error: 'Rule timed out after 20ms',
+      });
+    });
+
+    it('should resolve rules that finish in time', async () => {
+      const result = await evaluateRule(() => delay(5), createContext(), 200);
+
+      expect(result.result).toBe(true);
+      expect(result.outcome).toBeUndefined();
+    });
+
+    it('should abort the rule signal on timeout', async () => {
+      let ruleSignal: AbortSignal | undefined;
+      await evaluateRule((ctx: PermissionContext) => {
+        ruleSignal = ctx.signal;
+        return never();
+      }, createContext(), 10);
+
+      expect(ruleSignal?.aborted).toBe(true);
+    });
+
+    it('should stop waiting when the context signal aborts', async () => {
+      const controller = new AbortController();
+      const pending = evaluateRule(never, createContext(controller.signal));
+      controller.abort();
+
+      expect(await pending).toMatchObject({ result: false, outcome: 'aborted' });
+    });
+
+    it('should not run rules when already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      let called = false;
+
+      const result = await evaluateRule(() => {
+        called = true;
+        return true;
+      }, createContext(controller.signal));
+
+      expect(called).toBe(false);
+      expect(result.outcome).toBe('aborted');
+    });
+  });
+
+  describe('evaluatePermission', () => {
+    const rules: PermissionRulesMap = {
+      'post.slow': () => delay(50),
+      'post.hung': never,
+      'post.composed': and(hasRole('editor'), named('api.check', never)),
+    };
+
+    it('should apply the global timeout to every rule', async () => {
+      const result = await evaluatePermission('post.hung', createContext(), rules, 'any', {
+        timeout: 10,
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.ruleResults[0]).toMatchObject({ rule: 'post.hung', outcome: 'timeout' });
+    });
+
+    it('should let per-rule timeouts override the global timeout', async () => {
+      const result = await evaluatePermission('post.slow', createContext(), rules, 'any', {
+        timeout: 10,
+        ruleTimeouts: { 'post.slow': 500 },
+      });
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should time out composed rule branches by label', async () => {
+      const result = await evaluatePermission('post.composed', createContext(), rules, 'any', {
+        ruleTimeouts: { 'api.check': 10 },
+      });
+
+      expect(result.allowed).toBe(false);
+      const [, branch] = result.ruleResults[0].children ?? [];
+      expect(branch).toMatchObject({ rule: 'api.check', outcome: 'timeout' });
+    });
+
+    it('should mark rules aborted through the context signal', async () => {
+      const controller = new AbortController();
+      const pending = evaluatePermission('post.hung', createContext(controller.signal), rules);
+      controller.abort();
+
+      const result = await pending;
+      expect(result.allowed).toBe(false);
+      expect(result.ruleResults[0].outcome).toBe('aborted');
+    });
+  });
+});
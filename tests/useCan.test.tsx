@@ -0,0 +1,99 @@
+/**
+ * Tests for the useCan hook
+ */
+
+import React from 'react';
+import { describe, it, expect } from '@jest/globals';
+import { act } from 'react';
+import { render, flush, HookProbe } from './support/render';
+import { PermissionsProvider, usePermissionsContext } from '../src/react/PermissionsProvider';
+import { useCan } from '../src/react/useCan';
+import type { PermissionRulesMap } from '../src/core/types';
+
+const post = { id: 'p1', authorId: 'u1' };
+
+let evaluations = 0;
+let suspended = false;
+
+const rules: PermissionRulesMap = {
+  isAuthor: ({ user, resource }) => resource?.authorId === user.id,
+  isActive: () => !suspended,
+  isPublished: async ({ resource }) => {
+    evaluations++;
+    return resource?.id === 'p1';
+  },
+};
+
+type Can = ReturnType<typeof useCan>;
+
+function app(values: Can[], roles: string[] = ['editor']) {
+  return (
+    <PermissionsProvider user={{ id: 'u1' }} roles={roles} rules={rules} enableDevTools={false}>
+      <HookProbe use={useCan} values={values} />
+    </PermissionsProvider>
+  );
+}
+
+describe('useCan', () => {
+  it('should resolve checks on demand', async () => {
+    const values: Can[] = [];
+    await render(app(values));
+
+    const { can } = values[values.length - 1];
+    await expect(can('isAuthor', post)).resolves.toBe(true);
+    await expect(can(['isAuthor', 'isPublished'], post, 'all')).resolves.toBe(true);
+    await expect(can('admin')).resolves.toBe(false);
+  });
+
+  it('should decide synchronous checks with canSync', async () => {
+    const values: Can[] = [];
+    evaluations = 0;
+    await render(app(values));
+
+    const { can, canSync } = values[values.length - 1];
+    expect(canSync('isAuthor', post)).toBe(true);
+    expect(canSync('editor')).toBe(true);
+    expect(canSync('admin')).toBe(false);
+
+    // Async rules return undefined, starting the evaluation a later can() joins
+    expect(canSync('isPublished', post)).toBeUndefined();
+    await expect(can('isPublished', post)).resolves.toBe(true);
+    expect(evaluations).toBe(1);
+  });
+
+  it('should keep function identity and use the current provider data', async () => {
+    const values: Can[] = [];
+    const { rerender } = await render(app(values));
+    const first = values[values.length - 1];
+
+    await rerender(app(values, ['admin']));
+    await flush();
+    const last = values[values.length - 1];
+
+    expect(last.can).toBe(first.can);
+    expect(last.canSync).toBe(first.canSync);
+    expect(first.canSync('admin')).toBe(true);
+    await expect(first.can('editor')).resolves.toBe(false);
+  });
+
+  it('should re-decide canSync checks after invalidate()', async () => {
+    const values: Array<Can & { invalidate: (key?: string) => void }> = [];
+    const use = () => ({ ...useCan(), invalidate: usePermissionsContext().invalidate });
+    suspended = false;
+
+    await render(
+      <PermissionsProvider user={{ id: 'u1' }} rules={rules} enableDevTools={false}>
+        <HookProbe use={use} values={values} />
+      </PermissionsProvider>
+    );
+
+    const { can, canSync, invalidate } = values[values.length - 1];
+    expect(canSync('isActive')).toBe(true);
+
+    suspended = true;
+    await act(async () => invalidate());
+
+    expect(canSync('isActive')).toBe(false);
+    await expect(can('isActive')).resolves.toBe(false);
+  });
+});
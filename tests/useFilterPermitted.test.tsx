@@ -0,0 +1,129 @@
+/**
+ * Tests for the useFilterPermitted hook
+ */
+
+import React from 'react';
+import { describe, it, expect, jest } from '@jest/globals';
+import { act } from 'react';
+import { render, flush, HookProbe } from './support/render';
+import { PermissionsProvider, usePermissionsContext } from '../src/react/PermissionsProvider';
+import { useFilterPermitted } from '../src/react/useFilterPermitted';
+import type { PermissionEvaluation, PermissionRulesMap } from '../src/core/types';
+
+interface Project {
+  id: string;
+  ownerId: string;
+}
+
+const projects: Project[] = [
+  { id: 'a', ownerId: 'u1' },
+  { id: 'b', ownerId: 'u2' },
+  { id: 'c', ownerId: 'u1' },
+];
+
+let evaluations = 0;
+let archived = false;
+
+const rules: PermissionRulesMap = {
+  isOwner: ({ user, resource }) => resource?.ownerId === user.id,
+  isActive: () => !archived,
+  isShared: async ({ resource }) => {
+    evaluations++;
+    return resource?.id !== 'b';
+  },
+};
+
+type Filtered = { items: Project[]; loading: boolean };
+
+function renderProbe(use: () => Filtered, values: Filtered[]) {
+  return render(
+    <PermissionsProvider user={{ id: 'u1' }} rules={rules} enableDevTools={false}>
+      <HookProbe use={use} values={values} />
+    </PermissionsProvider>
+  );
+}
+
+describe('useFilterPermitted', () => {
+  it('should filter synchronously decided items on the first render', async () => {
+    const values: Filtered[] = [];
+
+    // An inline copy each render, as a parent mapping its props would pass
+    await renderProbe(() => useFilterPermitted([...projects], 'isOwner'), values);
+    await flush();
+
+    expect(values[0]).toEqual({ items: [projects[0], projects[2]], loading: false });
+    expect(values.length).toBeLessThanOrEqual(2);
+  });
+
+  it('should filter inline arrays of async checks once', async () => {
+    const values: Filtered[] = [];
+    evaluations = 0;
+
+    await renderProbe(() => useFilterPermitted([...projects], 'isShared'), values);
+    await flush();
+    await flush();
+
+    expect(values[0]).toEqual({ items: [], loading: true });
+    expect(values[values.length - 1]).toEqual({
+      items: [projects[0], projects[2]],
+      loading: false,
+    });
+    expect(evaluations).toBe(projects.length);
+    expect(values.length).toBeLessThan(10);
+  });
+
+  it('should re-check when the items change', async () => {
+    const values: Filtered[] = [];
+    const app = (items: Project[]) => (
+      <PermissionsProvider user={{ id: 'u1' }} rules={rules} enableDevTools={false}>
+        <HookProbe use={() => useFilterPermitted(items, 'isShared')} values={values} />
+      </PermissionsProvider>
+    );
+
+    const { rerender } = await render(app(projects.slice(0, 2)));
+    await flush();
+    expect(values[values.length - 1].items).toEqual([projects[0]]);
+
+    await rerender(app(projects));
+    await flush();
+    expect(values[values.length - 1]).toEqual({
+      items: [projects[0], projects[2]],
+      loading: false,
+    });
+  });
+
+  it('should re-check synchronously decided items after invalidate()', async () => {
+    const values: Array<Filtered & { invalidate: (key?: string) => void }> = [];
+    const onEvaluationRegister = jest.fn<(evaluation: PermissionEvaluation) => void>();
+    archived = false;
+
+    await render(
+      <PermissionsProvider
+        user={{ id: 'u1' }}
+        rules={rules}
+        enableDevTools
+        onEvaluationRegister={onEvaluationRegister}
+      >
+        <HookProbe
+          use={() => ({
+            ...useFilterPermitted(projects, 'isActive'),
+            invalidate: usePermissionsContext().invalidate,
+          })}
+          values={values}
+        />
+      </PermissionsProvider>
+    );
+    await flush();
+
+    expect(values[values.length - 1].items).toEqual(projects);
+    // Decisions reached during render are still registered with dev tools
+    expect(onEvaluationRegister).toHaveBeenCalledTimes(projects.length);
+
+    archived = true;
+    await act(async () => values[values.length - 1].invalidate());
+    await flush();
+
+    expect(values[values.length - 1]).toMatchObject({ items: [], loading: false });
+    expect(onEvaluationRegister).toHaveBeenCalledTimes(projects.length * 2);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Tests for the useFlag hook
+ */
+
+import React from 'react';
+import { describe, it, expect } from '@jest/globals';
+import { render, HookProbe } from './support/render';
+import { PermissionsProvider } from '../src/react/PermissionsProvider';
+import { useFlag } from '../src/react/useFlag';
+import type { FlagEvaluation, FlagsConfig } from '../src/core/types';
+
+const flags: FlagsConfig = {
+  darkMode: true,
+  pageSize: 0,
+  checkout: {
+    variants: { a: 'classic', b: 'one-page' },
+    defaultVariant: 'a',
+    targeting: [{ roles: ['staff'], variant: 'b' }],
+  },
+};
+
+async function evaluate(name: string, roles: string[] = []) {
+  const values: FlagEvaluation[] = [];
+
+  await render(
+    <PermissionsProvider user={{ id: 'u1' }} roles={roles} flags={flags} enableDevTools={false}>
+      <HookProbe use={() => useFlag(name)} values={values} />
+    </PermissionsProvider>
+  );
+
+  return values[values.length - 1];
+}
+
+describe('useFlag', () => {
+  it('should return static flag values', async () => {
+    await expect(evaluate('darkMode')).resolves.toEqual({
+      value: true,
+      enabled: true,
+      reason: 'static',
+    });
+    await expect(evaluate('pageSize')).resolves.toMatchObject({ value: 0, enabled: false });
+  });
+
+  it('should return the variant served to the user', async () => {
+    await expect(evaluate('checkout')).resolves.toMatchObject({
+      value: 'classic',
+      variant: 'a',
+      reason: 'default',
+    });
+    await expect(evaluate('checkout', ['staff'])).resolves.toMatchObject({
+      value: 'one-page',
+      variant: 'b',
+      reason: 'targeting',
+    });
+  });
+
+  it('should report unknown flags as disabled', async () => {
+    await expect(evaluate('missing')).resolves.toEqual({
+      value: undefined,
+      enabled: false,
+      reason: 'unknown',
+    });
+  });
+});
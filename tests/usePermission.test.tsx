@@ -0,0 +1,65 @@
+/**
+ * Tests for the usePermission hook
+ */
+
+import React from 'react';
+import { describe, it, expect } from '@jest/globals';
+import { render, flush, HookProbe } from './support/render';
+import { PermissionsProvider } from '../src/react/PermissionsProvider';
+import { usePermission } from '../src/react/usePermission';
+import type { PermissionDecision, PermissionRulesMap } from '../src/core/types';
+
+const user = { id: 'u1' };
+const post = { id: 'p1', authorId: 'u1', locked: true };
+
+const rules: PermissionRulesMap = {
+  isAuthor: ({ user, resource }) => resource?.authorId === user.id,
+  isUnlocked: ({ resource }) =>
+    !resource?.locked || { allowed: false, reason: 'This post is locked', code: 'POST_LOCKED' },
+  isReviewed: async ({ resource }) => resource?.id === 'p1',
+};
+
+type Result = PermissionDecision & { loading: boolean };
+
+function renderProbe(use: () => Result, values: Result[]) {
+  return render(
+    <PermissionsProvider user={user} roles={['editor']} rules={rules} enableDevTools={false}>
+      <HookProbe use={use} values={values} />
+    </PermissionsProvider>
+  );
+}
+
+describe('usePermission', () => {
+  it('should decide synchronous checks on the first render', async () => {
+    const values: Result[] = [];
+
+    await renderProbe(() => usePermission(['isAuthor', 'editor'], post, 'all'), values);
+    await flush();
+
+    expect(values[0]).toEqual({ allowed: true, loading: false });
+    expect(values.every(({ loading }) => !loading)).toBe(true);
+  });
+
+  it('should explain synchronous denials on the first render', async () => {
+    const values: Result[] = [];
+
+    await renderProbe(() => usePermission('isUnlocked', post), values);
+
+    expect(values[0]).toMatchObject({
+      allowed: false,
+      loading: false,
+      reason: 'This post is locked',
+      code: 'POST_LOCKED',
+    });
+  });
+
+  it('should report loading until async rules resolve', async () => {
+    const values: Result[] = [];
+
+    await renderProbe(() => usePermission('isReviewed', post), values);
+    await flush();
+
+    expect(values[0]).toEqual({ allowed: false, loading: true });
+    expect(values[values.length - 1]).toMatchObject({ allowed: true, loading: false });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for the usePermissions hook
+ */
+
+import React from 'react';
+import { describe, it, expect, jest } from '@jest/globals';
+import { render, flush, HookProbe } from './support/render';
+import { PermissionsProvider } from '../src/react/PermissionsProvider';
+import { usePermissions } from '../src/react/usePermissions';
+import type { PermissionEvaluation, PermissionRulesMap } from '../src/core/types';
+
+const post = { id: 'p1', authorId: 'u1' };
+
+const rules: PermissionRulesMap = {
+  isAuthor: ({ user, resource }) => resource?.authorId === user.id,
+  isReviewed: async ({ resource }) => resource?.id === 'p1',
+};
+
+function renderProbe<T>(use: () => T, values: T[], extra: object = {}) {
+  return render(
+    <PermissionsProvider
+      user={{ id: 'u1' }}
+      roles={['editor']}
+      permissions={['post.edit']}
+      rules={rules}
+      enableDevTools={false}
+      {...extra}
+    >
+      <HookProbe use={use} values={values} />
+    </PermissionsProvider>
+  );
+}
+
+describe('usePermissions', () => {
+  it('should decide synchronous checks on the first render', async () => {
+    const values: Array<Record<string, boolean>> = [];
+
+    await renderProbe(
+      () => usePermissions({ edit: 'post.edit', own: 'isAuthor', admin: 'admin' }, post),
+      values
+    );
+
+    expect(values[0]).toEqual({ edit: true, own: true, admin: false, loading: false });
+    expect(values.every((value) => value.loading === false)).toBe(true);
+  });
+
+  it('should report every name denied until async checks resolve', async () => {
+    const values: Array<Record<string, boolean>> = [];
+
+    await renderProbe(
+      () => usePermissions({ edit: 'post.edit', publish: ['isAuthor', 'isReviewed'] }, post, 'all'),
+      values
+    );
+    await flush();
+
+    expect(values[0]).toEqual({ edit: false, publish: false, loading: true });
+    expect(values[values.length - 1]).toEqual({ edit: true, publish: true, loading: false });
+  });
+
+  it('should register one dev tools record with an entry per name', async () => {
+    const onEvaluationRegister = jest.fn<(evaluation: PermissionEvaluation) => void>();
+
+    await renderProbe(
+      () => usePermissions({ edit: 'post.edit', moderate: ['admin', 'moderator'] }, post),
+      [],
+      { enableDevTools: true, onEvaluationRegister }
+    );
+    await flush();
+
+    expect(onEvaluationRegister).toHaveBeenCalledTimes(1);
+    const [evaluation] = onEvaluationRegister.mock.calls[0];
+
+    expect(evaluation).toMatchObject({
+      check: ['edit: post.edit', 'moderate: admin, moderator'],
+      resource: post,
+      allowed: false,
+      mode: 'any',
+    });
+    expect(evaluation.ruleResults).toEqual([
+      expect.objectContaining({ rule: 'edit: post.edit', result: true }),
+      expect.objectContaining({ rule: 'moderate: admin, moderator', result: false }),
+    ]);
+    evaluation.ruleResults.forEach((entry) => {
+      expect(entry.children).toEqual(expect.any(Array));
+      expect(entry.children!.length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for the usePermittedFields hook
+ */
+
+import React from 'react';
+import { describe, it, expect } from '@jest/globals';
+import { render, flush, HookProbe } from './support/render';
+import { PermissionsProvider } from '../src/react/PermissionsProvider';
+import { usePermittedFields } from '../src/react/usePermittedFields';
+import type { FieldRulesMap, PermissionRulesMap } from '../src/core/types';
+
+const employee = {
+  __typename: 'Employee',
+  id: 'e1',
+  name: 'Ada',
+  salary: 100,
+  reviewId: 'r1',
+};
+
+const user = { id: 'm1' };
+
+let release: () => void = () => {};
+let gate = Promise.resolve();
+
+/**
+ * Holds async field rules until release() is called
+ */
+function hold() {
+  gate = new Promise((resolve) => {
+    release = resolve;
+  });
+}
+
+const rules: PermissionRulesMap = {
+  'employee.read': () => true,
+  'employee.update': ({ roles }) => roles.includes('hr'),
+};
+
+const fieldRules: FieldRulesMap = {
+  'employee.read': {
+    salary: async ({ roles }) => {
+      await gate;
+      return roles.includes('hr');
+    },
+    reviewId: async () => {
+      throw new Error('review service down');
+    },
+  },
+};
+
+type Fields = { fields: string[]; loading: boolean };
+
+function app(use: () => Fields, values: Fields[], roles: string[]) {
+  return (
+    <PermissionsProvider
+      user={user}
+      roles={roles}
+      rules={rules}
+      fieldRules={fieldRules}
+      enableDevTools={false}
+    >
+      <HookProbe use={use} values={values} />
+    </PermissionsProvider>
+  );
+}
+
+describe('usePermittedFields', () => {
+  it('should resolve async field rules after render', async () => {
+    const values: Fields[] = [];
+    hold();
+
+    await render(app(() => usePermittedFields('read', employee), values, ['hr']));
+    expect(values[values.length - 1]).toEqual({ fields: [], loading: true });
+
+    release();
+    await flush();
+
+    expect(values[values.length - 1]).toEqual({
+      fields: ['__typename', 'id', 'name', 'salary'],
+      loading: false,
+    });
+  });
+
+  it('should leave out fields whose async rule denies or fails', async () => {
+    const values: Fields[] = [];
+
+    await render(app(() => usePermittedFields('read', employee), values, ['staff']));
+    await flush();
+
+    expect(values[values.length - 1]).toEqual({
+      fields: ['__typename', 'id', 'name'],
+      loading: false,
+    });
+  });
+
+  it('should permit no fields when the action is denied', async () => {
+    const values: Fields[] = [];
+
+    await render(app(() => usePermittedFields('update', employee), values, ['staff']));
+    await flush();
+
+    expect(values[values.length - 1]).toEqual({ fields: [], loading: false });
+  });
+
+  it('should re-evaluate when the resource changes', async () => {
+    const values: Fields[] = [];
+    const probe = (resource: object) =>
+      app(() => usePermittedFields('read', resource), values, ['hr']);
+
+    const { rerender } = await render(probe(employee));
+    await flush();
+    const rendered = values.length;
+
+    await rerender(probe({ __typename: 'Employee', id: 'e2', salary: 90 }));
+    await flush();
+
+    expect(values.slice(rendered)).toContainEqual({ fields: [], loading: true });
+    expect(values[values.length - 1]).toEqual({
+      fields: ['__typename', 'id', 'salary'],
+      loading: false,
+    });
+  });
+});